@@ -0,0 +1,240 @@
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import initSqlJs from "sql.js";
+import type { Plugin, ViteDevServer } from "vite";
+
+// Local stand-in for the dashboard REST API, mounted on the Vite dev server
+// under /api. Boundaries, PMMSY records and the PIN code directory are served
+// from the public folder; scheme metrics come from the seeded mock generator.
+//
+//   GET  /api/boundaries/:set   -> public/<boundaryFiles[set]>
+//   GET  /api/pmmsy/records     -> public/pmmsyData.json
+//   GET  /api/pin-codes         -> public/pinCodes.json
+//   POST /api/schemes/metrics   -> { areas: GeoJSONFeature[] } => metrics
+//   GET  /api/tiles/:basemap/:z/:x/:y -> tile of the basemap's MBTiles file,
+//                                        else a placeholder tile (SVG)
+//
+// It also serves the static provider's scheme metrics file when the public
+// folder has none, generated by the mock generator for the India map's
+// areas:
+//
+//   GET  /schemeMetrics.json    -> public/schemeMetrics.json, else generated
+
+// The parts of the Node request the stand-in uses
+interface StandInRequest {
+  url?: string;
+  method?: string;
+  on: (event: string, listener: (...args: unknown[]) => void) => void;
+}
+
+const readJsonBody = (req: StandInRequest): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk: unknown) => {
+      body += String(chunk);
+    });
+    req.on("end", () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch (err) {
+        reject(err);
+      }
+    });
+    req.on("error", reject);
+  });
+
+// Background and line colours of the placeholder tiles per basemap
+const standInTileColors: Record<string, [string, string]> = {
+  osm: ["#f2efe9", "#d6d0c4"],
+  terrain: ["#e7e3cf", "#c9c1a0"],
+  satellite: ["#3d4a3a", "#5b6b57"],
+};
+
+// A plain tile with its border and coordinates, enough to see the basemap
+// layer load and line up without real imagery
+const standInTile = (basemap: string, z: string, x: string, y: string) => {
+  const [background, line] = standInTileColors[basemap];
+  return [
+    '<svg xmlns="http://www.w3.org/2000/svg" width="256" height="256">',
+    `<rect width="256" height="256" fill="${background}" stroke="${line}"/>`,
+    `<text x="8" y="20" font-family="sans-serif" font-size="11" fill="${line}">`,
+    `${basemap} ${z}/${x}/${y}</text>`,
+    "</svg>",
+  ].join("");
+};
+
+const publicPath = (server: ViteDevServer, file: string): string =>
+  join(server.config.publicDir, file);
+
+// A raster MBTiles file opened with sql.js. The file is read whole, which
+// suits the small tile sets used in development.
+interface TileSet {
+  format: string;
+  getTile: (z: number, x: number, y: number) => Uint8Array | null;
+}
+
+const imageTypes: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+};
+
+const openMBTiles = async (file: string): Promise<TileSet> => {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database(await readFile(file));
+  const [format] = db.exec(
+    "SELECT value FROM metadata WHERE name = 'format'"
+  )[0]?.values[0] ?? ["png"];
+  const tiles = db.prepare(
+    "SELECT tile_data FROM tiles WHERE zoom_level = ? AND tile_column = ? AND tile_row = ?"
+  );
+  return {
+    format: String(format),
+    getTile: (z, x, y) => {
+      // MBTiles rows count from the bottom (TMS), XYZ rows from the top
+      tiles.bind([z, x, 2 ** z - 1 - y]);
+      const data = tiles.step() ? (tiles.get()[0] as Uint8Array) : null;
+      tiles.reset();
+      return data;
+    },
+  };
+};
+
+// Mock facts for the India map's areas, or null when the public folder has a
+// scheme metrics file of its own
+const generatedSchemeMetrics = async (
+  server: ViteDevServer
+): Promise<unknown[] | null> => {
+  const datasets = await server.ssrLoadModule(
+    "/src/data/providers/datasets.ts"
+  );
+  if (existsSync(publicPath(server, datasets.schemeMetricsFile))) return null;
+  const india = JSON.parse(
+    await readFile(publicPath(server, datasets.boundaryFiles.india), "utf8")
+  ) as { features: unknown[] };
+  const mock = await server.ssrLoadModule(
+    "/src/data/providers/mockProvider.ts"
+  );
+  return mock.generateMockSchemeMetrics(india.features);
+};
+
+export interface StandInApiOptions {
+  // MBTiles file served for each basemap, by basemap key
+  tileFiles?: Partial<Record<string, string>>;
+}
+
+export const standInApi = ({
+  tileFiles = {},
+}: StandInApiOptions = {}): Plugin => ({
+  name: "stand-in-api",
+  configureServer(server) {
+    // Each MBTiles file is opened once; one that fails to open is tried
+    // again on its next tile
+    const tileSets = new Map<string, Promise<TileSet>>();
+    const tileSetOf = (file: string): Promise<TileSet> => {
+      let tileSet = tileSets.get(file);
+      if (!tileSet) {
+        tileSet = openMBTiles(file);
+        tileSets.set(file, tileSet);
+        tileSet.catch(() => tileSets.delete(file));
+      }
+      return tileSet;
+    };
+
+    server.middlewares.use(async (incoming, res, next) => {
+      const req = incoming as unknown as StandInRequest;
+      const url = req.url ?? "";
+      const path = url.split("?")[0];
+      if (req.method === "GET" && path === "/schemeMetrics.json") {
+        try {
+          const generated = await generatedSchemeMetrics(server);
+          if (!generated) return next();
+          res.statusCode = 200;
+          res.setHeader("Content-Type", "application/json");
+          return res.end(JSON.stringify(generated));
+        } catch (err) {
+          server.config.logger.error(`Scheme metrics file error: ${err}`);
+          res.statusCode = 404;
+          return res.end();
+        }
+      }
+
+      if (!url.startsWith("/api/")) return next();
+
+      const sendJson = (status: number, payload: unknown) => {
+        res.statusCode = status;
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify(payload));
+      };
+
+      try {
+        const datasets = await server.ssrLoadModule(
+          "/src/data/providers/datasets.ts"
+        );
+
+        const boundaryMatch = path.match(/^\/api\/boundaries\/([^/]+)$/);
+        if (req.method === "GET" && boundaryMatch) {
+          const file =
+            datasets.boundaryFiles[decodeURIComponent(boundaryMatch[1])];
+          if (!file) return sendJson(404, { error: "Unknown boundary set" });
+          // Hand over to Vite's public-folder middleware
+          req.url = `/${file}`;
+          return next();
+        }
+
+        if (req.method === "GET" && path === "/api/pmmsy/records") {
+          req.url = `/${datasets.pmmsyRecordsFile}`;
+          return next();
+        }
+
+        if (req.method === "GET" && path === "/api/pin-codes") {
+          req.url = `/${datasets.pinCodeDirectoryFile}`;
+          return next();
+        }
+
+        const tileMatch = path.match(
+          /^\/api\/tiles\/(osm|terrain|satellite)\/(\d+)\/(\d+)\/(\d+)$/
+        );
+        if (req.method === "GET" && tileMatch) {
+          const [, basemap, z, x, y] = tileMatch;
+          res.setHeader("Access-Control-Allow-Origin", "*");
+          const file = tileFiles[basemap];
+          if (file) {
+            const { format, getTile } = await tileSetOf(file);
+            const data = getTile(Number(z), Number(x), Number(y));
+            if (!data) {
+              res.statusCode = 404;
+              return res.end();
+            }
+            res.statusCode = 200;
+            res.setHeader("Content-Type", imageTypes[format] || "image/png");
+            return res.end(data);
+          }
+          res.statusCode = 200;
+          res.setHeader("Content-Type", "image/svg+xml");
+          return res.end(standInTile(basemap, z, x, y));
+        }
+
+        if (req.method === "POST" && path === "/api/schemes/metrics") {
+          const { areas } = (await readJsonBody(req)) as { areas?: unknown[] };
+          if (!Array.isArray(areas)) {
+            return sendJson(400, { error: "Expected an areas array" });
+          }
+          const mock = await server.ssrLoadModule(
+            "/src/data/providers/mockProvider.ts"
+          );
+          return sendJson(200, mock.generateMockSchemeMetrics(areas));
+        }
+
+        sendJson(404, {
+          error: `No stand-in route for ${req.method} ${path}`,
+        });
+      } catch (err) {
+        server.config.logger.error(`Stand-in API error: ${err}`);
+        sendJson(500, { error: "Stand-in API failure" });
+      }
+    });
+  },
+});
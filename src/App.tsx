@@ -6,11 +6,32 @@ import {
   TrendingUp,
   Fish,
   Undo2,
+  Upload,
+  ShieldCheck,
+  MapPinned,
+  Lasso,
+  SquareDashed,
 } from "lucide-react";
 import OpenLayersMap from "./components/OpenLayerMap";
 import AreaDetailsPopup from "./components/AreaDetailsPopup";
 import FiltersAndKPIs from "./components/FiltersAndKPIs";
-import BiharFullTable from "./components/BiharFullTable";
+import StateDistrictTable from "./components/StateDistrictTable";
+import DrillBreadcrumb from "./components/DrillBreadcrumb";
+import PMMSYImporter from "./components/PMMSYImporter";
+import DataQualityPanel from "./components/DataQualityPanel";
+import PlaceReviewPanel from "./components/PlaceReviewPanel";
+import BeneficiaryCard from "./components/BeneficiaryCard";
+import ClassificationControls from "./components/ClassificationControls";
+import MapLegend from "./components/MapLegend";
+import BivariateLegend from "./components/BivariateLegend";
+import SymbolLegend from "./components/SymbolLegend";
+import TimelineControl from "./components/TimelineControl";
+import ComparisonMaps from "./components/ComparisonMaps";
+import PlaceSearch from "./components/PlaceSearch";
+import RegionDetailsPopup from "./components/RegionDetailsPopup";
+import CrossFilterChips from "./components/CrossFilterChips";
+import type { CrossFilterChip } from "./components/CrossFilterChips";
+import type { ComparisonLayout } from "./components/ComparisonMaps";
 import {
   SectorDistributionPieChart,
   DistributionPieChart,
@@ -20,9 +41,93 @@ import {
   CentralShareChart,
   SharePieChart,
 } from "./components/Charts";
+import {
+  parsePMMSYRecords,
+  distinctPMMSYValues,
+  filterPMMSYBeneficiaries,
+  normalizeAreaName,
+} from "./data/pmmsyRecords";
+import type { PMMSYRawRecord, PMMSYRecord } from "./data/pmmsyRecords";
+import {
+  beneficiaryCategoryColors,
+  placeBeneficiaries,
+} from "./data/beneficiaryPoints";
+import type {
+  BeneficiaryColorField,
+  HeatmapSettings,
+  HeatmapWeight,
+} from "./data/beneficiaryPoints";
+import { buildPlaceIndex } from "./data/placeSearch";
+import type { PlaceSearchEntry } from "./data/placeSearch";
+import {
+  applyAreaSelection,
+  loadSavedRegions,
+  regionMetrics,
+  saveRegions,
+  upsertRegion,
+} from "./data/regions";
+import type { AreaSelectionMode, SavedRegion } from "./data/regions";
+import type { BasemapSettings } from "./data/basemaps";
+import type { SchemeMetricFact } from "./data/schemeMetrics";
+import { toPMMSYAggregatedData } from "./data/aggregation";
+import type {
+  AggregationCharts,
+  AggregationRequest,
+  AggregationSummary,
+} from "./data/aggregation";
+import {
+  createAggregationClient,
+  isAbortError,
+} from "./data/aggregationClient";
+import { mergePMMSYRecords } from "./data/pmmsyImport";
+import { loadSavedPlaceAliases, savePlaceAliases } from "./data/gazetteer";
+import type { PlaceAlias } from "./data/gazetteer";
+import {
+  BIVARIATE_CLASSES,
+  bivariateBreaks,
+  bivariateClass,
+  bivariateColor,
+  bivariateColors,
+  classColor,
+  classIndex,
+  classifyValues,
+  divergingClasses,
+} from "./data/classification";
+import type {
+  BivariateBreaks,
+  ClassificationOptions,
+  ColorRampKey,
+  MetricClass,
+} from "./data/classification";
+import { normalizePinCodeAreas } from "./data/pinCodes";
+import type { PinCodeEntry } from "./data/pinCodes";
+import {
+  summarizeDataQuality,
+  validatePMMSYRecords,
+} from "./data/pmmsyValidation";
+import {
+  collectFiscalPeriods,
+  fiscalPeriodAxis,
+  fiscalPeriodGranularity,
+  fiscalPeriodLabel,
+  fiscalYearOf,
+  monthsOfFiscalQuarter,
+  parseFiscalPeriodKey,
+  truncateFiscalPeriod,
+} from "./data/fiscalPeriods";
+import type { FiscalGranularity, FiscalPeriodKey } from "./data/fiscalPeriods";
+import {
+  normalizeStateDistricts,
+  normalizeStateVillages,
+  stateBoundarySource,
+  stateBoundarySources,
+  villageBoundarySet,
+} from "./data/stateBoundaries";
+import { getDataProvider } from "./data/providers";
+import { hashString, SeededPRNG } from "./data/providers/mockProvider";
 
 // Interface for metric values
-interface MetricValues {
+export interface MetricValues {
   beneficiaries?: number;
   funds?: number;
   registrations?: number;
@@ -40,37 +145,81 @@ interface MetricValues {
   centralShareReleased?: number;
   stateShare?: number;
   beneficiaryShare?: number;
+  totalEmployment?: number;
+  directEmploymentMen?: number;
+  directEmploymentWomen?: number;
+  indirectEmploymentMen?: number;
+  indirectEmploymentWomen?: number;
 }
 
-// Type definitions for scheme, gender, year, and PMMSY metric filters
+// Type definitions for scheme, gender, and PMMSY metric filters. Periods use
+// the financial-year keys from data/fiscalPeriods.
 export type SchemeKey = "all" | "PMMKSS" | "PMMSY" | "KCC" | "NFDP";
 export type GenderKey = "all" | "male" | "female" | "transgender";
-export type YearKey = "all" | "2021" | "2022" | "2023" | "2024";
 export type PMMSYMetricKey = "totalProjects" | "totalInvestment" | "fishOutput";
 
-// Interface for area-specific metric data
-interface AreaMetricData {
-  [key: string]: MetricValues;
+// Levels of the map views and the drill-down, coarsest first. Sub-districts
+// are taluks/mandals.
+export type MapViewLevel = "state" | "district" | "sub-district" | "village";
+// Areas filled by one metric or by two at once (bivariate), or beneficiary
+// density drawn over their borders
+export type MapRenderMode = "choropleth" | "heatmap" | "bivariate";
+// Area under the pointer on a map, chart or table, with its value of the
+// selected metric
+export interface HoveredArea {
+  shapeID: string;
+  value: number;
 }
+const drillLevels: MapViewLevel[] = [
+  "state",
+  "district",
+  "sub-district",
+  "village",
+];
 
 // GeoJSON interfaces
-interface GeoJSONFeature {
+export interface GeoJSONFeature {
   properties: {
     shapeID: string;
     shapeName: string;
-    level: "state" | "district" | "sub-district";
+    level: MapViewLevel | "pincode";
     st_nm?: string;
     district_name?: string;
     subdistrict_name?: string;
+    village_name?: string;
+    pin_code?: string;
   };
   geometry: { type: string };
 }
 
-interface GeoJSONData {
+export interface GeoJSONData {
   type: string;
   features: GeoJSONFeature[];
 }
 
+// An area as a map click, search or drill reports it
+export interface AreaSelection {
+  id: string;
+  name?: string;
+  level: GeoJSONFeature["properties"]["level"];
+  st_nm?: string;
+  district_name?: string;
+  subdistrict_name?: string;
+  village_name?: string;
+  metrics?: MetricValues;
+}
+
+// Details of a clicked or drilled area: its metrics and the averages over
+// the areas it is compared with. PMMSY areas carry pmmsyMetrics and
+// pmmsyAverages instead of averages.
+export interface AreaDetails extends AreaSelection {
+  name: string;
+  officer: string;
+  averages?: Record<string, number>;
+  pmmsyMetrics?: PMMSYAggregatedData;
+  pmmsyAverages?: PMMSYAggregatedData;
+}
+
 // Interface for aggregated PMMSY data (for charts)
 export interface PMMSYAggregatedData {
   totalProjects: number;
@@ -117,68 +266,239 @@ const schemeIcons: Record<SchemeKey, JSX.Element> = {
   all: <MapPin className="w-6 h-6 text-white" />,
 };
 
-const yearDisplayNames: Record<YearKey, string> = {
-  all: "All Years",
-  2021: "2021",
-  2022: "2022",
-  2023: "2023",
-  2024: "2024",
+// Bar colours for periods on a chart's period axis
+const periodColors = ["#ddd6fe", "#c4b5fd", "#a78bfa", "#8b5cf6", "#6366f1"];
+
+// Colour ramp of each metric's map classes unless another is picked
+const metricRamps: Record<keyof MetricValues, ColorRampKey> = {
+  beneficiaries: "purples",
+  funds: "greens",
+  registrations: "oranges",
+  totalProjects: "purples",
+  totalInvestment: "greens",
+  fishOutput: "oranges",
+  funds_used: "greens",
+  beneficiaries_last_24h: "purples",
+  registrations_last_24h: "oranges",
+  production: "oranges",
+  fishSale: "oranges",
+  centralShareAllocated: "greens",
+  centralShareReleased: "greens",
+  stateShare: "greens",
+  beneficiaryShare: "greens",
+  totalEmployment: "blues",
+  directEmploymentMen: "blues",
+  directEmploymentWomen: "blues",
+  indirectEmploymentMen: "blues",
+  indirectEmploymentWomen: "blues",
 };
 
-function hashString(str: string): number {
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = (hash << 5) - hash + char;
-    hash = hash & hash;
-  }
-  return Math.abs(hash);
-}
+// Starting class boundaries of the manual classification, the thresholds
+// the map used before classes were computed
+const defaultManualBreaks: Partial<Record<keyof MetricValues, number[]>> = {
+  beneficiaries: [2000, 3000, 4000],
+  funds: [3000000, 5000000, 8000000],
+  registrations: [4000, 6000, 8000],
+  totalProjects: [30, 50, 80],
+  totalInvestment: [50000000, 100000000, 150000000, 200000000],
+  fishOutput: [50, 100, 150],
+};
 
-class SeededPRNG {
-  private seed: number;
-  constructor(seed: number) {
-    this.seed = seed % 2147483647;
-    if (this.seed <= 0) this.seed += 2147483646;
+// Metrics the bivariate map and the proportional circles can show, the
+// first two paired by default: PMMSY records' measures, or the other
+// schemes' figures
+const mapMetricOptions: Record<"PMMSY" | "other", (keyof MetricValues)[]> =
+  {
+    PMMSY: ["totalInvestment", "fishOutput", "totalProjects", "totalEmployment"],
+    other: ["funds", "funds_used", "beneficiaries", "registrations"],
+  };
+
+// Format number
+const formatNumber = (num: number): string => {
+  if (num >= 10000000) {
+    return (num / 10000000).toFixed(2) + " Cr";
   }
-  next(): number {
-    this.seed = (this.seed * 16807) % 2147483647;
-    return (this.seed - 1) / 2147483646;
+  if (num >= 100000) {
+    return (num / 100000).toFixed(2) + " L";
   }
-}
+  return num.toLocaleString();
+};
+
+// Signed change between two values, e.g. "+1.20 L" or "−350"
+const formatChange = (value: number): string =>
+  (value > 0 ? "+" : value < 0 ? "−" : "") + formatNumber(Math.abs(value));
+
+const dataProvider = getDataProvider();
+// Aggregation runs in a worker so filter changes keep the map responsive
+const aggregationClient = createAggregationClient();
+
+// Distribute a state's facts randomly across the districts of its detailed
+// boundary file
+const distributeStateMetrics = (
+  state: string,
+  stateFacts: SchemeMetricFact[],
+  districts: GeoJSONFeature[]
+): SchemeMetricFact[] => {
+  const districtFacts: SchemeMetricFact[] = [];
+
+  stateFacts.forEach((fact) => {
+    const key = `${fact.scheme}_${fact.gender}_${fact.period}`;
+    const districtMeasures = districts.map((): MetricValues => ({}));
+
+    Object.entries(fact.measures).forEach(([mKey, mVal]) => {
+      if (typeof mVal !== "number") return;
+
+      const seed = hashString(state + "_" + key + "_" + mKey);
+      const prng = new SeededPRNG(seed);
+
+      const weights = districts.map(() => prng.next());
+      const totalWeight = weights.reduce((a, b) => a + b, 0);
+      const normalizedWeights = weights.map((w) => w / (totalWeight || 1));
+
+      districts.forEach((_, idx) => {
+        districtMeasures[idx][mKey as keyof MetricValues] = Math.floor(
+          mVal * normalizedWeights[idx]
+        );
+      });
+    });
+
+    districts.forEach((dist, idx) => {
+      districtFacts.push({
+        ...fact,
+        area: dist.properties.shapeID,
+        measures: districtMeasures[idx],
+      });
+    });
+  });
+
+  return districtFacts;
+};
+
+const activityPool = [
+  "Enhancement of Production and Productivity",
+  "Infrastructure and Post-harvest Management",
+  "Fisheries Management and Regulatory Framework",
+];
+
+const subActivityPool = [
+  "Construction of New Ponds (NE & Himalayan States/UTs)",
+  "Inputs for fresh water Aquaculture including Composite fish culture, Pangasius, Tilapia etc.",
+  "Input support for Integrated fish farming (livestock cum fish cultivation)",
+  "Construction of Raceways of minimum of 50 cubic meter",
+  "Input support for Integrated fish farming (paddy cum fish cultivation)",
+  "Establishment of New Freshwater Finfish Hatcheries",
+  "Ice Plant of minimum 10-ton capacity",
+  "Three wheeler with Ice Box including e-rickshaws for fish vending",
+  "Construction of kiosks of aquarium/ornamental fish",
+];
+
+const beneficiaryTypes = [
+  "Fish farmers",
+  "Fishers",
+  "Fish vendors",
+  "Entrepreneur",
+];
+
+const projectPool = [
+  {
+    name: "Fish Seed Hatchery Development",
+    start: "2023-04-01",
+    end: "2025-03-31",
+  },
+  {
+    name: "Cold Storage & Ice Plant",
+    start: "2022-07-01",
+    end: "2024-06-30",
+  },
+  {
+    name: "Fish Market Modernization",
+    start: "2023-01-15",
+    end: "2025-12-31",
+  },
+  { name: "Aquaculture Expansion", start: "2023-09-01", end: "2026-08-31" },
+  {
+    name: "Inland Fisheries Infrastructure",
+    start: "2022-10-01",
+    end: "2024-09-30",
+  },
+  {
+    name: "Fishermen Training & Capacity Building",
+    start: "2023-05-01",
+    end: "2025-04-30",
+  },
+];
+
+// Sample project details shown in the state district table
+const decorateDistrictProjects = (districts: GeoJSONFeature[]) =>
+  districts.map((f, idx) => {
+    const project = projectPool[idx % projectPool.length];
+    const prng = new SeededPRNG(hashString(f.properties.shapeID));
+    const totalCost = 1000000 + Math.floor(prng.next() * 5000000); // 10–60 L
+    const centralShare = Math.floor(totalCost * 0.6);
+    const stateShare = Math.floor(totalCost * 0.25);
+    const beneficiaryShare = totalCost - centralShare - stateShare;
+
+    return {
+      ...f,
+      properties: {
+        ...f.properties,
+        projectName: project.name,
+        startDate: project.start,
+        endDate: project.end,
+        activityName: activityPool[idx % activityPool.length],
+        subActivityName: subActivityPool[idx % subActivityPool.length],
+        beneficiaryType: beneficiaryTypes[idx % beneficiaryTypes.length],
+        centralShare,
+        stateShare,
+        beneficiaryShare,
+      },
+    };
+  });
 
 const App: React.FC = () => {
   // State variables
   const [polygonData, setPolygonData] = useState<GeoJSONData | null>(null);
-  const [metricData, setMetricData] = useState<Record<
-    string,
-    AreaMetricData
-  > | null>(null);
   const [selectedMetric, setSelectedMetric] = useState<
     "beneficiaries" | "funds" | "registrations" | PMMSYMetricKey
   >("beneficiaries");
   const [selectedScheme, setSelectedScheme] = useState<SchemeKey | null>(null);
   const [selectedGender, setSelectedGender] = useState<GenderKey>("all");
-  const [schemeTotals, setSchemeTotals] = useState<Record<
-    SchemeKey,
-    number
-  > | null>(null);
-  const [selectedYear, setSelectedYear] = useState<YearKey>("all");
+  // Financial year, quarter or month shared by every scheme's filters
+  const [selectedPeriod, setSelectedPeriod] = useState<FiscalPeriodKey>("all");
+  // Show totals up to the selected financial year rather than the year alone
+  const [cumulativePeriods, setCumulativePeriods] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedAreaDetails, setSelectedAreaDetails] = useState<any | null>(
     null
   );
-  const [drilledAreaDetails, setDrilledAreaDetails] = useState<any | null>(
-    null
-  );
+  // Details of the drilled-down areas, state first, then district, taluk
+  // (sub-district) and village
+  const [drillPath, setDrillPath] = useState<AreaDetails[]>([]);
   const [selectedBarChartCategory, setSelectedBarChartCategory] = useState<
     "scheme" | "gender" | "year"
   >("scheme");
-  const [mapView, setMapView] = useState<"state" | "district" | "sub-district">(
-    "state"
+  const [mapView, setMapView] = useState<MapViewLevel>("state");
+  const drilledAreaDetails = drillPath[drillPath.length - 1] || null;
+  const selectedState: string | null = drillPath[0]?.name ?? null;
+  // Districts from the detailed boundary files of drilled-down states, by
+  // state; empty when a state's file could not be loaded
+  const [detailedDistricts, setDetailedDistricts] = useState<
+    Record<string, GeoJSONFeature[]>
+  >({});
+  // Villages from the village boundary files, by state; empty when a state's
+  // file could not be loaded
+  const [villageAreas, setVillageAreas] = useState<
+    Record<string, GeoJSONFeature[]>
+  >({});
+  // PIN code directory for placing records, and PIN code areas for the map,
+  // loaded the first time the sub-district view is opened; both are empty
+  // when their files could not be loaded
+  const [pinCodeDirectory, setPinCodeDirectory] = useState<
+    PinCodeEntry[] | null
+  >(null);
+  const [pinCodeAreas, setPinCodeAreas] = useState<GeoJSONFeature[] | null>(
+    null
   );
-  const [selectedState, setSelectedState] = useState<string | null>(null);
-  const [biharGeoJson, setBiharGeoJson] = useState<any | null>(null);
   const [globalPMMSYMetrics, setGlobalPMMSYMetrics] =
     useState<PMMSYAggregatedData>({
       totalProjects: 0,
@@ -193,16 +513,111 @@ const App: React.FC = () => {
       sectorDistribution: [],
     });
   const [selectedSectorPMMSY, setSelectedSectorPMMSY] = useState<string>("all");
-  const [selectedFinancialYearPMMSY, setSelectedFinancialYearPMMSY] =
-    useState<string>("all");
-  const [mockPMMSYData, setMockPMMSYData] = useState<Record<
+  const [schemeFacts, setSchemeFacts] = useState<SchemeMetricFact[] | null>(
+    null
+  );
+  const [pmmsyRawRecords, setPMMSYRawRecords] = useState<
+    PMMSYRawRecord[] | null
+  >(null);
+  // Dataset-wide figures and filter-dependent results from the aggregation
+  // worker. Area metrics arrive in batches, the current map view first.
+  const [aggregationSummary, setAggregationSummary] =
+    useState<AggregationSummary | null>(null);
+  const [areaMetrics, setAreaMetrics] = useState<Record<
     string,
-    AreaMetricData
+    MetricValues
   > | null>(null);
-  const [mockNonPMMSYData, setMockNonPMMSYData] = useState<Record<
+  // Map view of the last finished aggregation
+  const [areaMetricsView, setAreaMetricsView] = useState<
+    AggregationRequest["mapView"] | null
+  >(null);
+  const [chartAggregates, setChartAggregates] =
+    useState<AggregationCharts | null>(null);
+  const [isImporterOpen, setIsImporterOpen] = useState(false);
+  const [isDataQualityOpen, setIsDataQualityOpen] = useState(false);
+  const [isPlaceReviewOpen, setIsPlaceReviewOpen] = useState(false);
+  // Record place names confirmed in the review panel
+  const [placeAliases, setPlaceAliases] = useState<PlaceAlias[]>(
+    loadSavedPlaceAliases
+  );
+  // Custom region picked on the India map, the tool drawing one, and the
+  // regions saved by name
+  const [selectionTool, setSelectionTool] = useState<
+    "polygon" | "box" | null
+  >(null);
+  const [regionSelection, setRegionSelection] = useState<{
+    name: string | null;
+    level: MapViewLevel;
+    areaIds: string[];
+  } | null>(null);
+  const [savedRegions, setSavedRegions] =
+    useState<SavedRegion[]>(loadSavedRegions);
+  // Beneficiary point layer and the records of a clicked marker
+  const [showBeneficiaries, setShowBeneficiaries] = useState(false);
+  const [beneficiaryColorField, setBeneficiaryColorField] =
+    useState<BeneficiaryColorField>("activity");
+  const [selectedBeneficiaries, setSelectedBeneficiaries] = useState<
+    PMMSYRecord[] | null
+  >(null);
+  // Map classes: method, class count and ramp, with manual boundaries kept
+  // per metric
+  const [classification, setClassification] = useState<
+    Omit<ClassificationOptions, "manualBreaks">
+  >({ method: "quantile", classCount: 4, ramp: null });
+  const [manualBreaks, setManualBreaks] =
+    useState<Partial<Record<keyof MetricValues, number[]>>>(
+      defaultManualBreaks
+    );
+  // Legend class whose areas are isolated, and the area under the pointer
+  // on any map, chart or table
+  const [isolatedClass, setIsolatedClass] = useState<number | null>(null);
+  const [hoveredArea, setHoveredArea] = useState<HoveredArea | null>(null);
+  // Metrics of the bivariate map; null pairs the scheme's defaults
+  const [bivariateSelection, setBivariateSelection] = useState<{
+    x: keyof MetricValues;
+    y: keyof MetricValues;
+  } | null>(null);
+  // Proportional circles over the map; null sizes them by the scheme's
+  // first metric
+  const [showSymbols, setShowSymbols] = useState(false);
+  const [symbolSelection, setSymbolSelection] = useState<
+    keyof MetricValues | null
+  >(null);
+  const [mapRenderMode, setMapRenderMode] =
+    useState<MapRenderMode>("choropleth");
+  // Comparison of the current filters (A) with a second set (B), and the
+  // metrics aggregated for B
+  const [comparisonLayout, setComparisonLayout] =
+    useState<ComparisonLayout | null>(null);
+  const [comparisonFilters, setComparisonFilters] = useState<{
+    period: FiscalPeriodKey;
+    pmmsySector: string;
+    gender: GenderKey;
+  }>({ period: "all", pmmsySector: "all", gender: "all" });
+  const [showDifference, setShowDifference] = useState(false);
+  // Area picked in the place search, for the India map to zoom to
+  const [mapFocus, setMapFocus] = useState<{
+    shapeID: string;
+    requested: number;
+  } | null>(null);
+  // Searched place whose details open once its level is aggregated
+  const [pendingPlace, setPendingPlace] = useState<PlaceSearchEntry | null>(
+    null
+  );
+  const [comparisonMetrics, setComparisonMetrics] = useState<Record<
     string,
-    AreaMetricData
+    MetricValues
   > | null>(null);
+  // Tiles under the areas on every map, chosen on the India map
+  const [basemapSettings, setBasemapSettings] = useState<BasemapSettings>({
+    key: "none",
+    areaOpacity: 1,
+  });
+  const [heatmapSettings, setHeatmapSettings] = useState<HeatmapSettings>({
+    weight: "totalProjects",
+    radius: 15,
+    blur: 20,
+  });
 
   // Memoized officer names
   const officerNames = useMemo(() => {
@@ -227,325 +642,187 @@ const App: React.FC = () => {
     return officerMap;
   }, [polygonData]);
 
-  const activityPool = [
-    "Enhancement of Production and Productivity",
-    "Infrastructure and Post-harvest Management",
-    "Fisheries Management and Regulatory Framework",
-  ];
-
-  const subActivityPool = [
-    "Construction of New Ponds (NE & Himalayan States/UTs)",
-    "Inputs for fresh water Aquaculture including Composite fish culture, Pangasius, Tilapia etc.",
-    "Input support for Integrated fish farming (livestock cum fish cultivation)",
-    "Construction of Raceways of minimum of 50 cubic meter",
-    "Input support for Integrated fish farming (paddy cum fish cultivation)",
-    "Establishment of New Freshwater Finfish Hatcheries",
-    "Ice Plant of minimum 10-ton capacity",
-    "Three wheeler with Ice Box including e-rickshaws for fish vending",
-    "Construction of kiosks of aquarium/ornamental fish",
-  ];
-
-  const beneficiaryTypes = [
-    "Fish farmers",
-    "Fishers",
-    "Fish vendors",
-    "Entrepreneur",
-  ];
-
-  const projectPool = [
-    {
-      name: "Fish Seed Hatchery Development",
-      start: "2023-04-01",
-      end: "2025-03-31",
-    },
-    {
-      name: "Cold Storage & Ice Plant",
-      start: "2022-07-01",
-      end: "2024-06-30",
-    },
-    {
-      name: "Fish Market Modernization",
-      start: "2023-01-15",
-      end: "2025-12-31",
-    },
-    { name: "Aquaculture Expansion", start: "2023-09-01", end: "2026-08-31" },
-    {
-      name: "Inland Fisheries Infrastructure",
-      start: "2022-10-01",
-      end: "2024-09-30",
-    },
-    {
-      name: "Fishermen Training & Capacity Building",
-      start: "2023-05-01",
-      end: "2025-04-30",
-    },
-  ];
-
-  // Generate mock data for schemes other than PMMSY
-  const generateMockData = (
-    areas: GeoJSONFeature[]
-  ): Record<string, AreaMetricData> => {
-    const dataMap: Record<string, AreaMetricData> = {};
-    const schemes: SchemeKey[] = ["all", "PMMKSS", "KCC", "NFDP"];
-    const genders: GenderKey[] = ["all", "male", "female", "transgender"];
-    const years: YearKey[] = ["all", "2021", "2022", "2023", "2024"];
-
-    const schemeModifiers: Record<SchemeKey, number> = {
-      all: 1,
-      PMMKSS: 0.9,
-      PMMSY: 1.1,
-      KCC: 0.85,
-      NFDP: 0.95,
-    };
-    const genderModifiers: Record<GenderKey, number> = {
-      all: 1,
-      male: 1.2,
-      female: 0.9,
-      transgender: 0.8,
-    };
-    const yearModifiers: Record<YearKey, number> = {
-      all: 1,
-      2021: 0.8,
-      2022: 0.9,
-      2023: 1.0,
-      2024: 1.1,
-    };
-
-    areas.forEach((area) => {
-      const areaId = area.properties.shapeID;
-      const prng = new SeededPRNG(hashString(areaId));
-      const areaData: AreaMetricData = {};
-      const regionalBias =
-        area.properties.level === "state"
-          ? 1.0 + prng.next() * 0.1
-          : 0.9 + prng.next() * 0.2;
-
-      schemes.forEach((scheme) => {
-        genders.forEach((gender) => {
-          years.forEach((year) => {
-            const key = `${scheme}_${gender}_${year}`;
-            const schemeMod = schemeModifiers[scheme];
-            const genderMod = genderModifiers[gender];
-            const yearMod = yearModifiers[year];
-            const weight = schemeMod * genderMod * yearMod * regionalBias;
-
-            const beneficiaries = Math.floor(
-              weight * (500 + prng.next() * 4500)
-            );
-            const funds = Math.floor(
-              weight * (1000000 + prng.next() * 9000000)
-            );
-            const registrations = Math.floor(
-              weight * (2000 + prng.next() * 8000)
-            );
-
-            const funds_used = Math.floor(funds * (0.6 + prng.next() * 0.35));
-            const beneficiaries_last_24h = Math.floor(
-              beneficiaries * (0.01 + prng.next() * 0.05)
-            );
-            const registrations_last_24h = Math.floor(
-              registrations * (0.005 + prng.next() * 0.02)
-            );
-
-            areaData[key] = {
-              beneficiaries,
-              funds,
-              registrations,
-              funds_used,
-              beneficiaries_last_24h,
-              registrations_last_24h,
-            };
-          });
-        });
+  // Load PMMSY beneficiary records
+  useEffect(() => {
+    dataProvider
+      .getPMMSYRecords()
+      .then((data) => {
+        setPMMSYRawRecords(data);
+      })
+      .catch((err) => {
+        console.error("PMMSY records load error:", err);
+        setError(err.message);
       });
-      dataMap[areaId] = areaData;
-    });
-    return dataMap;
-  };
-
-  // Generate mock PMMSY data, aligned with other schemes
-  const generateMockPMMSYData = useCallback(
-    (areas: GeoJSONFeature[]): Record<string, AreaMetricData> => {
-      const dataMap: Record<string, AreaMetricData> = {};
-      const genders: GenderKey[] = ["male", "female", "transgender"];
-      const years: YearKey[] = ["2021", "2022", "2023", "2024"];
-      const sectors = ["Inland", "Marine"];
-
-      areas.forEach((area) => {
-        const areaId = area.properties.shapeID;
-        const prng = new SeededPRNG(hashString(areaId));
-        const areaData: AreaMetricData = {};
-        const regionalBias = 0.1 + prng.next() * 1.9;
-
-        // Precompute aggregated data for common filter combinations
-        const aggregated: Record<string, MetricValues> = {
-          PMMSY_all_all_all: {
-            totalProjects: 0,
-            totalInvestment: 0,
-            fishOutput: 0,
-          },
-        };
+  }, []);
 
-        genders.forEach((gender) => {
-          years.forEach((year) => {
-            sectors.forEach((sector) => {
-              const key = `PMMSY_${gender}_${year}_${sector}`;
-              const genderMod =
-                gender === "male" ? 1.2 : gender === "female" ? 0.9 : 0.8;
-              const yearMod =
-                year === "2021"
-                  ? 0.8
-                  : year === "2022"
-                  ? 0.9
-                  : year === "2023"
-                  ? 1.0
-                  : 1.1;
-              const sectorMod = sector === "Inland" ? 1.1 : 0.9;
-              const weight = genderMod * yearMod * sectorMod * regionalBias;
-
-              const totalProjects = Math.floor(weight * (3 + prng.next() * 1));
-              const totalInvestment = Math.floor(
-                weight * (1000000 + prng.next() * 9000000)
-              );
-              const fishOutput = Math.floor(weight * (5 + prng.next() * 1));
-              const fishSale = Math.floor(
-                fishOutput * (0.3 + prng.next() * 0.1)
-              );
-              const centralShareAllocated = Math.floor(
-                totalInvestment * (0.6 + prng.next() * 0.2)
-              );
-              const centralShareReleased = Math.floor(
-                centralShareAllocated * (0.7 + prng.next() * 0.2)
-              );
-              const remainingShare = totalInvestment - centralShareAllocated;
-              const stateShare = Math.floor(remainingShare * 0.6);
-              const beneficiaryShare = remainingShare - stateShare;
-
-              areaData[key] = {
-                totalProjects,
-                totalInvestment,
-                fishOutput,
-                fishSale,
-                centralShareAllocated,
-                centralShareReleased,
-                stateShare,
-                beneficiaryShare,
-              };
-
-              // Update aggregated data
-              aggregated["PMMSY_all_all_all"].totalProjects! += totalProjects;
-              aggregated["PMMSY_all_all_all"].totalInvestment! +=
-                totalInvestment;
-              aggregated["PMMSY_all_all_all"].fishOutput! += fishOutput;
-              aggregated["PMMSY_all_all_all"].fishSale =
-                (aggregated["PMMSY_all_all_all"].fishSale || 0) + fishSale;
-              aggregated["PMMSY_all_all_all"].centralShareAllocated =
-                (aggregated["PMMSY_all_all_all"].centralShareAllocated || 0) +
-                centralShareAllocated;
-              aggregated["PMMSY_all_all_all"].centralShareReleased =
-                (aggregated["PMMSY_all_all_all"].centralShareReleased || 0) +
-                centralShareReleased;
-              aggregated["PMMSY_all_all_all"].stateShare =
-                (aggregated["PMMSY_all_all_all"].stateShare || 0) + stateShare;
-              aggregated["PMMSY_all_all_all"].beneficiaryShare =
-                (aggregated["PMMSY_all_all_all"].beneficiaryShare || 0) +
-                beneficiaryShare;
-
-              // Add aggregations for specific filters
-              const genderKey = `PMMSY_${gender}_all_all`;
-              const yearKey = `PMMSY_all_${year}_all`;
-              const sectorKey = `PMMSY_all_all_${sector}`;
-              if (!aggregated[genderKey]) {
-                aggregated[genderKey] = {
-                  totalProjects: 0,
-                  totalInvestment: 0,
-                  fishOutput: 0,
-                };
-              }
-              if (!aggregated[yearKey]) {
-                aggregated[yearKey] = {
-                  totalProjects: 0,
-                  totalInvestment: 0,
-                  fishOutput: 0,
-                };
-              }
-              if (!aggregated[sectorKey]) {
-                aggregated[sectorKey] = {
-                  totalProjects: 0,
-                  totalInvestment: 0,
-                  fishOutput: 0,
-                };
-              }
-              aggregated[genderKey].totalProjects! += totalProjects;
-              aggregated[genderKey].totalInvestment! += totalInvestment;
-              aggregated[genderKey].fishOutput! += fishOutput;
-              aggregated[yearKey].totalProjects! += totalProjects;
-              aggregated[yearKey].totalInvestment! += totalInvestment;
-              aggregated[yearKey].fishOutput! += fishOutput;
-              aggregated[sectorKey].totalProjects! += totalProjects;
-              aggregated[sectorKey].totalInvestment! += totalInvestment;
-              aggregated[sectorKey].fishOutput! += fishOutput;
-            });
-          });
-        });
+  useEffect(() => {
+    dataProvider
+      .getPinCodeDirectory()
+      .catch((err) => {
+        console.error("PIN code directory load error:", err);
+        return [];
+      })
+      .then(setPinCodeDirectory);
+  }, []);
 
-        // Store aggregated data
-        Object.assign(areaData, aggregated);
-        dataMap[areaId] = areaData;
+  useEffect(() => {
+    if (!polygonData || schemeFacts) return;
+    dataProvider
+      .getSchemeMetrics(polygonData.features)
+      .then((facts) => {
+        setSchemeFacts(facts);
+      })
+      .catch((err) => {
+        console.error("Scheme metrics load error:", err);
+        setError(err.message);
       });
+  }, [polygonData, schemeFacts]);
 
-      return dataMap;
-    },
-    []
+  const pmmsyRecords = useMemo(
+    () => (pmmsyRawRecords ? parsePMMSYRecords(pmmsyRawRecords) : null),
+    [pmmsyRawRecords]
   );
 
-  // Generate mock data for all schemes
-  // useEffect(() => {
-  //   if (polygonData && !mockNonPMMSYData && !mockPMMSYData) {
-  //     const nonPMMSYData = generateMockData(polygonData.features);
-  //     const pmmsyData = generateMockPMMSYData(polygonData.features);
-  //     setMockNonPMMSYData(nonPMMSYData);
-  //     setMockPMMSYData(pmmsyData);
-  //   }
-  // }, [polygonData, mockNonPMMSYData, mockPMMSYData, generateMockPMMSYData]);
+  // Data-quality report over the raw records
+  const pmmsyDataQuality = useMemo(() => {
+    if (!pmmsyRawRecords) return [];
+    return summarizeDataQuality(
+      pmmsyRawRecords,
+      validatePMMSYRecords(pmmsyRawRecords)
+    );
+  }, [pmmsyRawRecords]);
 
+  // Facts for the detailed districts, spread from their state's facts
+  const detailedDistrictFacts = useMemo(() => {
+    if (!schemeFacts || !polygonData) return [];
+    return Object.entries(detailedDistricts).flatMap(([state, districts]) => {
+      const stateFeature = polygonData.features.find(
+        (f) =>
+          f.properties.level === "state" && f.properties.shapeName === state
+      );
+      if (!stateFeature || districts.length === 0) return [];
+      return distributeStateMetrics(
+        state,
+        schemeFacts.filter(
+          (fact) => fact.area === stateFeature.properties.shapeID
+        ),
+        districts
+      );
+    });
+  }, [schemeFacts, polygonData, detailedDistricts]);
+
+  // Hand the datasets to the aggregation worker; reloaded after imports
   useEffect(() => {
-    if (polygonData && !mockNonPMMSYData && !mockPMMSYData) {
-      const nonPMMSYData = generateMockData(polygonData.features);
-      const pmmsyData = generateMockPMMSYData(polygonData.features);
-      setMockNonPMMSYData(nonPMMSYData);
-      setMockPMMSYData(pmmsyData);
+    if (!polygonData || !pmmsyRecords || !schemeFacts || !pinCodeDirectory) {
+      return;
     }
-  }, [polygonData, mockNonPMMSYData, mockPMMSYData, generateMockPMMSYData]);
-
-  // Combine metric data based on scheme
-  const combinedMetricData = useMemo(() => {
-    if (!mockNonPMMSYData || !mockPMMSYData) return null;
-
-    if (selectedScheme === "PMMSY") {
-      const filterKey = `PMMSY_${selectedGender}_${selectedFinancialYearPMMSY}_${selectedSectorPMMSY}`;
-      const filteredData: Record<string, AreaMetricData> = {};
-      Object.entries(mockPMMSYData).forEach(([areaId, areaData]) => {
-        // Use precomputed aggregated data if available
-        const metrics = areaData[filterKey] || {
-          totalProjects: 0,
-          totalInvestment: 0,
-          fishOutput: 0,
-        };
-        filteredData[areaId] = { PMMSY_aggregated: metrics };
+    aggregationClient
+      .load({
+        pmmsyRecords,
+        schemeFacts: [...schemeFacts, ...detailedDistrictFacts],
+        areas: [
+          ...polygonData.features,
+          ...Object.values(villageAreas).flat(),
+        ].map((f) => f.properties),
+        detailAreas: [
+          ...Object.values(detailedDistricts).flat(),
+          ...(pinCodeAreas || []),
+        ].map((f) => f.properties),
+        placeAliases,
+        pinCodes: pinCodeDirectory,
+      })
+      .then(setAggregationSummary)
+      .catch((err) => {
+        console.error("Aggregation load error:", err);
+        setError(err.message);
       });
-      return filteredData;
-    }
-    return mockNonPMMSYData;
   }, [
-    mockNonPMMSYData,
-    mockPMMSYData,
-    selectedScheme,
-    selectedGender,
-    selectedSectorPMMSY,
-    selectedFinancialYearPMMSY,
+    polygonData,
+    pmmsyRecords,
+    schemeFacts,
+    detailedDistrictFacts,
+    detailedDistricts,
+    placeAliases,
+    pinCodeDirectory,
+    pinCodeAreas,
+    villageAreas,
   ]);
 
+  // PMMSY filter options
+  const pmmsySectors = useMemo(
+    () => ["all", ...(aggregationSummary?.pmmsySectors || [])],
+    [aggregationSummary]
+  );
+  const schemeTotals = aggregationSummary?.schemeTotals || null;
+
+  // Financial years and the finest period each dataset reports. PMMSY
+  // records only carry a financial year; scheme metrics may go down to
+  // quarters or months.
+  const pmmsyPeriods = useMemo(
+    () => ({
+      fiscalYears: pmmsyRecords
+        ? distinctPMMSYValues(pmmsyRecords, "financialYear")
+        : [],
+      granularity: "year" as FiscalGranularity,
+    }),
+    [pmmsyRecords]
+  );
+  const schemePeriods = useMemo(
+    () => collectFiscalPeriods((schemeFacts || []).map((fact) => fact.period)),
+    [schemeFacts]
+  );
+  const activePeriods =
+    selectedScheme === "PMMSY" ? pmmsyPeriods : schemePeriods;
+  // The selected period, coarsened to what the active dataset reports
+  const effectivePeriod = truncateFiscalPeriod(
+    selectedPeriod,
+    activePeriods.granularity
+  );
+  // Periods on the charts' period axis, with their display names
+  const periodAxis = useMemo(() => {
+    const keys = fiscalPeriodAxis(
+      effectivePeriod,
+      activePeriods.fiscalYears,
+      activePeriods.granularity
+    );
+    return {
+      keys,
+      displayNames: Object.fromEntries(
+        keys.map((key) => [key, fiscalPeriodLabel(key)])
+      ),
+    };
+  }, [effectivePeriod, activePeriods]);
+
+  // Merge rows from an uploaded sheet into the PMMSY dataset
+  const handlePMMSYImport = (rows: PMMSYRawRecord[]) => {
+    setPMMSYRawRecords((prev) => mergePMMSYRecords(prev || [], rows));
+  };
+
+  // Save a confirmed place name, replacing any earlier alias for it
+  const handleSavePlaceAlias = (alias: PlaceAlias) => {
+    setPlaceAliases((prev) => {
+      const next = [
+        ...prev.filter(
+          (saved) =>
+            saved.level !== alias.level ||
+            saved.state !== alias.state ||
+            saved.alias !== alias.alias
+        ),
+        alias,
+      ];
+      savePlaceAliases(next);
+      return next;
+    });
+  };
+
+  const handleRemovePlaceAlias = (alias: PlaceAlias) => {
+    setPlaceAliases((prev) => {
+      const next = prev.filter((saved) => saved !== alias);
+      savePlaceAliases(next);
+      return next;
+    });
+  };
+
   // Debounced state updates for PMMSY filters
   const debounce = (func: (...args: any[]) => void, wait: number) => {
     let timeout: NodeJS.Timeout;
@@ -555,60 +832,16 @@ const App: React.FC = () => {
     };
   };
 
-  useEffect(() => {
-    if (!mockNonPMMSYData || !mockPMMSYData) return;
-
-    const totals: Record<SchemeKey, number> = {
-      all: 0,
-      PMMKSS: 0,
-      PMMSY: 0,
-      KCC: 0,
-      NFDP: 0,
-    };
-
-    // Calculate for non-PMMSY schemes
-    const nonPMMSYSchemes: SchemeKey[] = ["PMMKSS", "KCC", "NFDP"];
-    nonPMMSYSchemes.forEach((scheme) => {
-      Object.values(mockNonPMMSYData).forEach((areaData) => {
-        const key = `${scheme}_all_all`;
-        totals[scheme] += areaData[key]?.funds || 0;
-      });
-    });
-
-    // Calculate for PMMSY
-    Object.values(mockPMMSYData).forEach((areaData) => {
-      console.log(areaData);
-      const key = "PMMSY_all_all_all";
-      totals.PMMSY += areaData[key]?.totalInvestment || 0;
-    });
-
-    setSchemeTotals(totals);
-  }, [mockNonPMMSYData, mockPMMSYData]);
-
   const debouncedSetSelectedSectorPMMSY = useCallback(
     debounce(setSelectedSectorPMMSY, 0),
     []
   );
-  const debouncedSetSelectedFinancialYearPMMSY = useCallback(
-    debounce(setSelectedFinancialYearPMMSY, 0),
-    []
-  );
 
-  // PMMSY filter options
-  const pmmsySectors = useMemo(() => ["all", "Inland", "Marine"], []);
-  const pmmsyFinancialYears = useMemo(
-    () => ["all", "2021", "2022", "2023", "2024"],
-    []
-  );
-
-  // Fetch GeoJSON and set metric data
+  // Fetch GeoJSON
   useEffect(() => {
-    fetch("/indianmap.geojson")
-      .then((res) => {
-        if (!res.ok) throw new Error("Failed to fetch GeoJSON");
-        return res.json();
-      })
-      .then((data: GeoJSONData) => {
+    dataProvider
+      .getBoundaries("india")
+      .then((data) => {
         const filteredFeatures = data.features.filter((f) => {
           const type = f.geometry.type;
           return type === "Polygon" || type === "MultiPolygon";
@@ -618,130 +851,181 @@ const App: React.FC = () => {
           features: filteredFeatures,
         };
         setPolygonData(filteredGeoJsonData);
-        setMetricData(combinedMetricData);
       })
       .catch((err) => {
         console.error("GeoJSON load error:", err);
         setError(err.message);
       });
-  }, [combinedMetricData]);
+  }, []);
 
+  // Load the detailed district boundaries of a state the first time it is
+  // drilled into
   useEffect(() => {
-    fetch("/bihar1.geojson")
-      .then((res) => res.json())
-      .then((data) => {
-        const normalized = {
-          ...data,
-          features: data.features.map((f: any, idx: number) => {
-            const distName = f.properties.Dist_Name;
-            const project = projectPool[idx % projectPool.length];
-            const activity = activityPool[idx % activityPool.length];
-            const subActivity = subActivityPool[idx % subActivityPool.length];
-            const totalCost = 1000000 + Math.floor(Math.random() * 5000000); // 10–60 L
-            const centralShare = Math.floor(totalCost * 0.6);
-            const stateShare = Math.floor(totalCost * 0.25);
-            const beneficiaryShare = totalCost - centralShare - stateShare;
-
-            return {
-              ...f,
-              properties: {
-                ...f.properties,
-                shapeID: f.properties.Dist_Code?.toString() || `bihar_${idx}`,
-                shapeName: distName,
-                st_nm: f.properties.State_Name || "Bihar",
-                district_name: distName,
-                level: "district",
-                projectName: project.name,
-                startDate: project.start,
-                endDate: project.end,
-                activityName: activity, // ✅ new
-                subActivityName: subActivity, // ✅ new
-                beneficiaryTypes,
-                centralShare,
-                stateShare,
-                beneficiaryShare,
-              },
-            };
-          }),
-        };
+    const source = selectedState && stateBoundarySource(selectedState);
+    if (!source || detailedDistricts[source.state]) return;
+    dataProvider
+      .getBoundaries(source.set)
+      .then((data) => normalizeStateDistricts(source, data))
+      .catch((err) => {
+        // Fall back to the India map's districts
+        console.error(`Failed to load ${source.state} districts:`, err);
+        return [];
+      })
+      .then((districts) =>
+        setDetailedDistricts((prev) => ({ ...prev, [source.state]: districts }))
+      );
+  }, [selectedState, detailedDistricts]);
 
-        setBiharGeoJson(normalized);
+  // Load the PIN code areas the first time the sub-district view is opened
+  useEffect(() => {
+    if (mapView !== "sub-district" || pinCodeAreas) return;
+    dataProvider
+      .getBoundaries("pincodes")
+      .then(normalizePinCodeAreas)
+      .catch((err) => {
+        console.error("Failed to load PIN code areas:", err);
+        return [];
+      })
+      .then(setPinCodeAreas);
+  }, [mapView, pinCodeAreas]);
+
+  // PIN code areas shown when zoomed in on the sub-district view
+  const pinCodeGeoJson = useMemo(() => {
+    if (mapView !== "sub-district" || !pinCodeAreas?.length) return null;
+    return {
+      type: "FeatureCollection",
+      features: selectedState
+        ? pinCodeAreas.filter(
+            (f) =>
+              normalizeAreaName(f.properties.st_nm || "") ===
+              normalizeAreaName(selectedState)
+          )
+        : pinCodeAreas,
+    };
+  }, [mapView, pinCodeAreas, selectedState]);
+
+  // Districts of the drilled-down state for the detailed map and table
+  const stateDistrictData = useMemo(() => {
+    if (!selectedState || !polygonData) return null;
+    const detailed = detailedDistricts[selectedState];
+    const districts = detailed?.length
+      ? detailed
+      : polygonData.features.filter(
+          (f) =>
+            f.properties.level === "district" &&
+            f.properties.st_nm === selectedState
+        );
+    return {
+      type: "FeatureCollection",
+      features: decorateDistrictProjects(districts),
+    };
+  }, [selectedState, polygonData, detailedDistricts]);
+  const stateSource = selectedState
+    ? stateBoundarySource(selectedState)
+    : undefined;
+
+  // States whose villages are needed: the drilled state once a taluk is
+  // drilled into, or every state with a village file in the village view
+  const villageStates = useMemo(() => {
+    if (mapView === "village") {
+      return stateBoundarySources
+        .filter((source) => source.villageFile)
+        .map((source) => source.state);
+    }
+    return selectedState &&
+      drillPath.some((drilled) => drilled.level === "sub-district")
+      ? [selectedState]
+      : [];
+  }, [mapView, selectedState, drillPath]);
 
-        // ✅ Generate Bihar district metrics based on Bihar state data
-        setMetricData((prev: any) => {
-          if (!prev) return prev;
+  useEffect(() => {
+    villageStates.forEach((state) => {
+      const source = stateBoundarySource(state);
+      if (!source?.villageFile || villageAreas[state]) return;
+      dataProvider
+        .getBoundaries(villageBoundarySet(source))
+        .then((data) => normalizeStateVillages(source, data))
+        .catch((err) => {
+          console.error(`Failed to load ${state} villages:`, err);
+          return [];
+        })
+        .then((villages) =>
+          setVillageAreas((prev) => ({ ...prev, [state]: villages }))
+        );
+    });
+  }, [villageStates, villageAreas]);
+
+  // Map of the deepest drilled area: districts of a state, taluks of a
+  // district, villages of a taluk. Without boundaries one level down the
+  // drilled area itself is shown.
+  const drilledMap = useMemo(() => {
+    if (!polygonData || !stateDistrictData) return null;
+    const sameName = (a?: string, b?: string) =>
+      normalizeAreaName(a || "") === normalizeAreaName(b || "");
+    const district = drillPath.find((drilled) => drilled.level === "district");
+    const subDistrict = drillPath.find(
+      (drilled) => drilled.level === "sub-district"
+    );
+    const districtName = district?.district_name || district?.name;
+    const subDistrictName = subDistrict?.subdistrict_name || subDistrict?.name;
 
-          // Find Bihar state metrics from India map
-          const biharStateId = Object.keys(prev).find((id) =>
-            polygonData?.features.some(
-              (f) =>
-                f.properties.shapeID === id &&
-                f.properties.shapeName === "Bihar"
+    const collection = (level: MapViewLevel, features: GeoJSONFeature[]) => ({
+      level,
+      data: { type: "FeatureCollection", features },
+    });
+    const subDistricts = polygonData.features.filter(
+      (f) =>
+        f.properties.level === "sub-district" &&
+        sameName(f.properties.st_nm, selectedState || "") &&
+        sameName(f.properties.district_name, districtName)
+    );
+    if (subDistrict) {
+      const villages = (villageAreas[selectedState || ""] || []).filter(
+        (f) =>
+          sameName(f.properties.subdistrict_name, subDistrictName) &&
+          (!f.properties.district_name ||
+            !districtName ||
+            sameName(f.properties.district_name, districtName))
+      );
+      return villages.length > 0
+        ? collection("village", villages)
+        : collection(
+            "sub-district",
+            subDistricts.filter((f) =>
+              sameName(
+                f.properties.subdistrict_name || f.properties.shapeName,
+                subDistrictName
+              )
             )
           );
-
-          if (!biharStateId) return prev;
-
-          const biharStateMetrics = prev[biharStateId];
-
-          // Distribute Bihar totals randomly across districts
-          const biharMetrics = distributeBiharMetrics(
-            biharStateMetrics,
-            normalized.features
-          );
-
-          return { ...prev, ...biharMetrics };
-        });
-      })
-      .catch((err) => console.error("Failed to load Bihar GeoJSON:", err));
-  }, [polygonData]);
-
-  // Distribute Bihar state metrics randomly across its districts
-  // Distribute Bihar state metrics randomly across its districts
-  const distributeBiharMetrics = (
-    biharStateMetrics: AreaMetricData,
-    districts: GeoJSONFeature[]
-  ): Record<string, AreaMetricData> => {
-    const districtMetrics: Record<string, AreaMetricData> = {};
-
-    Object.entries(biharStateMetrics).forEach(([key, metrics]: any) => {
-      Object.entries(metrics).forEach(([mKey, mVal]) => {
-        if (typeof mVal !== "number") return;
-
-        // Use "Bihar" as fixed prefix since state is always Bihar
-        const seed = hashString("Bihar_" + key + "_" + mKey);
-        const prng = new SeededPRNG(seed);
-
-        const weights = districts.map(() => prng.next());
-        const totalWeight = weights.reduce((a, b) => a + b, 0);
-        const normalizedWeights = weights.map((w) => w / (totalWeight || 1));
-
-        const tempValues = normalizedWeights.map((w) => mVal * w);
-        const sumTemp = tempValues.reduce((a, b) => a + b, 0);
-        const scale = sumTemp > 0 ? mVal / sumTemp : 0;
-
-        districts.forEach((dist, idx) => {
-          const distId = dist.properties.shapeID;
-          if (!districtMetrics[distId]) districtMetrics[distId] = {};
-          if (!districtMetrics[distId][key]) districtMetrics[distId][key] = {};
-
-          districtMetrics[distId][key][mKey] = Math.floor(
-            tempValues[idx] * scale
+    }
+    if (district) {
+      return subDistricts.length > 0
+        ? collection("sub-district", subDistricts)
+        : collection(
+            "district",
+            stateDistrictData.features.filter((f) =>
+              sameName(
+                f.properties.district_name || f.properties.shapeName,
+                districtName
+              )
+            )
           );
-        });
-      });
-    });
-
-    return districtMetrics;
-  };
+    }
+    return collection("district", stateDistrictData.features);
+  }, [polygonData, stateDistrictData, drillPath, selectedState, villageAreas]);
 
-  // Update selectedMetric when scheme changes
+  // Update selectedMetric when scheme changes. Beneficiary points and the
+  // heatmap are drawn from PMMSY records, so they are switched off too.
   useEffect(() => {
     if (selectedScheme === "PMMSY") {
       setSelectedMetric("totalProjects");
     } else {
       setSelectedMetric("beneficiaries");
     }
+    setShowBeneficiaries(false);
+    setSelectedBeneficiaries(null);
+    setMapRenderMode("choropleth");
   }, [selectedScheme]);
 
   // Filtered GeoJSON data
@@ -757,6 +1041,7 @@ const App: React.FC = () => {
     let subDistrictFeaturesToShow = polygonData.features.filter(
       (f) => f.properties.level === "sub-district"
     );
+    let villageFeaturesToShow = Object.values(villageAreas).flat();
 
     if (selectedState) {
       stateFeaturesToShow = stateFeaturesToShow.filter(
@@ -768,6 +1053,9 @@ const App: React.FC = () => {
       subDistrictFeaturesToShow = subDistrictFeaturesToShow.filter(
         (f) => f.properties.st_nm === selectedState
       );
+      villageFeaturesToShow = villageFeaturesToShow.filter(
+        (f) => f.properties.st_nm === selectedState
+      );
     }
 
     if (mapView === "state") {
@@ -777,173 +1065,177 @@ const App: React.FC = () => {
         ...polygonData,
         features: [...districtFeaturesToShow, ...stateFeaturesToShow],
       };
+    } else if (mapView === "sub-district") {
+      return {
+        ...polygonData,
+        features: [
+          ...subDistrictFeaturesToShow,
+          ...districtFeaturesToShow,
+          ...stateFeaturesToShow,
+        ],
+      };
     } else {
       return {
         ...polygonData,
         features: [
+          ...villageFeaturesToShow,
           ...subDistrictFeaturesToShow,
           ...districtFeaturesToShow,
           ...stateFeaturesToShow,
         ],
       };
     }
-  }, [polygonData, mapView, selectedState]);
-
-  // Aggregate PMMSY data for charts
-  const aggregatePMMSYChartData = useCallback(() => {
-    if (!mockPMMSYData || !filteredGeoJsonData) return;
-
-    const globalMetrics: PMMSYAggregatedData = {
-      totalProjects: 0,
-      totalInvestment: 0,
-      fishOutput: 0,
-      totalEmploymentGenerated: 0,
-      directEmploymentMen: 0,
-      directEmploymentWomen: 0,
-      indirectEmploymentMen: 0,
-      indirectEmploymentWomen: 0,
-      projectsByStateUT: [],
-      sectorDistribution: [],
-    };
-
-    const projectsByAreaMap = new Map<string, number>();
-    const sectorDistributionMap = new Map<string, number>();
-
-    const featuresForChart = filteredGeoJsonData.features.filter(
-      (f) => f.properties.level === mapView
-    );
-
-    featuresForChart.forEach((feature) => {
-      const areaId = feature.properties.shapeID;
-      const areaData = mockPMMSYData[areaId];
-      if (!areaData) return;
-
-      let areaName = feature.properties.shapeName || "Unknown";
-      if (mapView === "district" && feature.properties.district_name) {
-        areaName = feature.properties.district_name;
-      }
-      if (mapView === "sub-district" && feature.properties.subdistrict_name) {
-        areaName = feature.properties.subdistrict_name;
-      }
-
-      Object.entries(areaData).forEach(([key, metrics]) => {
-        const [, gender, year, sector] = key.split("_");
-        const genderMatch =
-          selectedGender === "all" || gender === selectedGender;
-        const yearMatch =
-          selectedFinancialYearPMMSY === "all" ||
-          year === selectedFinancialYearPMMSY;
-        const sectorMatch =
-          selectedSectorPMMSY === "all" || sector === selectedSectorPMMSY;
-
-        if (genderMatch && yearMatch && sectorMatch) {
-          globalMetrics.totalProjects += metrics.totalProjects || 0;
-          globalMetrics.totalInvestment += metrics.totalInvestment || 0;
-          globalMetrics.fishOutput += metrics.fishOutput || 0;
-
-          const metricValue = metrics[selectedMetric] || 0;
-          projectsByAreaMap.set(
-            areaName,
-            (projectsByAreaMap.get(areaName) || 0) + metricValue
-          );
+  }, [polygonData, mapView, selectedState, villageAreas]);
+
+  // Filters and view the worker aggregates for
+  const aggregationRequest = useMemo(
+    (): AggregationRequest => ({
+      scheme: selectedScheme,
+      gender: selectedGender,
+      period: effectivePeriod,
+      cumulative: cumulativePeriods,
+      pmmsySector: selectedSectorPMMSY,
+      metric: selectedMetric,
+      mapView,
+      selectedState,
+      barChartCategory: selectedBarChartCategory,
+      periodAxis: periodAxis.keys,
+    }),
+    [
+      selectedScheme,
+      selectedGender,
+      effectivePeriod,
+      cumulativePeriods,
+      selectedSectorPMMSY,
+      selectedMetric,
+      mapView,
+      selectedState,
+      selectedBarChartCategory,
+      periodAxis,
+    ]
+  );
 
-          if (sector !== "all") {
-            sectorDistributionMap.set(
-              sector,
-              (sectorDistributionMap.get(sector) || 0) +
-                (metrics.totalProjects || 0)
-            );
-          }
+  // Re-aggregate when filters change. The map restyles as each batch of area
+  // metrics arrives; a newer request or unmount cancels the running one.
+  useEffect(() => {
+    if (!aggregationSummary) return;
+    const controller = new AbortController();
+    aggregationClient
+      .aggregate(aggregationRequest, {
+        signal: controller.signal,
+        onProgress: (batch) =>
+          setAreaMetrics((prev) => ({ ...prev, ...batch })),
+      })
+      .then((result) => {
+        setAreaMetrics(result.areaMetrics);
+        setAreaMetricsView(aggregationRequest.mapView);
+        setChartAggregates(result.charts);
+        if (result.charts.pmmsyMetrics) {
+          setGlobalPMMSYMetrics(result.charts.pmmsyMetrics);
         }
+      })
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        console.error("Aggregation error:", err);
+        setError(err.message);
       });
-    });
-
-    globalMetrics.totalEmploymentGenerated = Math.floor(
-      globalMetrics.totalProjects * (5 + Math.random() * 10)
-    );
-    globalMetrics.directEmploymentMen = Math.floor(
-      globalMetrics.totalEmploymentGenerated * 0.4
-    );
-    globalMetrics.directEmploymentWomen = Math.floor(
-      globalMetrics.totalEmploymentGenerated * 0.3
-    );
-    globalMetrics.indirectEmploymentMen = Math.floor(
-      globalMetrics.totalEmploymentGenerated * 0.2
-    );
-    globalMetrics.indirectEmploymentWomen = Math.floor(
-      globalMetrics.totalEmploymentGenerated * 0.1
-    );
+    return () => controller.abort();
+  }, [aggregationSummary, aggregationRequest]);
 
-    globalMetrics.projectsByStateUT = Array.from(projectsByAreaMap.entries())
-      .map(([name, value]) => ({ name, value }))
-      .sort((a, b) => b.value - a.value)
-      .slice(0, 10);
-
-    globalMetrics.sectorDistribution = Array.from(
-      sectorDistributionMap.entries()
-    ).map(([name, value]) => ({
-      name,
-      value,
-    }));
-
-    setGlobalPMMSYMetrics(globalMetrics);
+  // Aggregate the comparison filters alongside the main ones, on their own
+  // channel so neither cancels the other
+  useEffect(() => {
+    if (!comparisonLayout || !aggregationSummary) return;
+    const controller = new AbortController();
+    aggregationClient
+      .aggregate(
+        {
+          ...aggregationRequest,
+          period: truncateFiscalPeriod(
+            comparisonFilters.period,
+            activePeriods.granularity
+          ),
+          pmmsySector: comparisonFilters.pmmsySector,
+          gender: comparisonFilters.gender,
+        },
+        {
+          signal: controller.signal,
+          channel: "comparison",
+          onProgress: (batch) =>
+            setComparisonMetrics((prev) => ({ ...prev, ...batch })),
+        }
+      )
+      .then((result) => setComparisonMetrics(result.areaMetrics))
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        console.error("Comparison aggregation error:", err);
+        setError(err.message);
+      });
+    return () => controller.abort();
   }, [
-    mockPMMSYData,
-    filteredGeoJsonData,
-    mapView,
-    selectedGender,
-    selectedSectorPMMSY,
-    selectedFinancialYearPMMSY,
-    selectedMetric,
+    comparisonLayout,
+    aggregationSummary,
+    aggregationRequest,
+    comparisonFilters,
+    activePeriods.granularity,
   ]);
 
-  // Update PMMSY chart data when filters change
-  useEffect(() => {
-    if (selectedScheme === "PMMSY") {
-      aggregatePMMSYChartData();
-    }
+  // Beneficiaries placed in the finest loaded boundaries they match, for the
+  // point layer and the heatmap. Placement covers every record so points
+  // keep their spot as filters change; colours likewise.
+  const needsBeneficiaries = showBeneficiaries || mapRenderMode === "heatmap";
+  const placedBeneficiaries = useMemo(() => {
+    if (!needsBeneficiaries || !aggregationSummary || !polygonData) return null;
+    return placeBeneficiaries(aggregationSummary.beneficiaries, [
+      ...Object.values(villageAreas).flat(),
+      ...(pinCodeAreas || []),
+      ...Object.values(detailedDistricts).flat(),
+      ...polygonData.features,
+    ]);
   }, [
-    selectedScheme,
-    selectedGender,
-    selectedSectorPMMSY,
-    selectedFinancialYearPMMSY,
-    aggregatePMMSYChartData,
+    needsBeneficiaries,
+    aggregationSummary,
+    polygonData,
+    villageAreas,
+    pinCodeAreas,
+    detailedDistricts,
   ]);
 
-  // Memoized demographic key
-  const demographicKey = useMemo(() => {
-    if (selectedScheme === "PMMSY") {
-      return "PMMSY_aggregated";
-    }
-    return `${selectedScheme}_${selectedGender}_${selectedYear}`;
-  }, [selectedScheme, selectedGender, selectedYear]);
+  const beneficiaryColors = useMemo(
+    () =>
+      beneficiaryCategoryColors(
+        placedBeneficiaries || [],
+        beneficiaryColorField
+      ),
+    [placedBeneficiaries, beneficiaryColorField]
+  );
 
-  // Format number
-  const formatNumber = (num: number): string => {
-    if (num >= 10000000) {
-      return (num / 10000000).toFixed(2) + " Cr";
-    }
-    if (num >= 100000) {
-      return (num / 100000).toFixed(2) + " L";
-    }
-    return num.toLocaleString();
-  };
+  const beneficiaryPoints = useMemo(
+    () =>
+      placedBeneficiaries &&
+      filterPMMSYBeneficiaries(placedBeneficiaries, {
+        sector: selectedSectorPMMSY,
+        fiscalYear: fiscalYearOf(effectivePeriod),
+        cumulative: cumulativePeriods,
+      }),
+    [
+      placedBeneficiaries,
+      selectedSectorPMMSY,
+      effectivePeriod,
+      cumulativePeriods,
+    ]
+  );
 
   // KPIs for all metrics
   const kpis = useMemo(() => {
-    if (!metricData || !filteredGeoJsonData) return null;
+    if (!areaMetrics || !filteredGeoJsonData) return null;
     const relevantFeatureIds = filteredGeoJsonData.features
-      .filter(
-        (f) =>
-          (mapView === "state" && f.properties.level === "state") ||
-          (mapView === "district" && f.properties.level === "district") ||
-          (mapView === "sub-district" && f.properties.level === "sub-district")
-      )
+      .filter((f) => f.properties.level === mapView)
       .map((f) => f.properties.shapeID);
 
     const values = relevantFeatureIds
-      .map((id) => metricData[id]?.[demographicKey]?.[selectedMetric])
-      .filter((value) => value !== undefined);
+      // Areas without facts in the slice count as 0, as on the map
+      .map((id) => areaMetrics[id]?.[selectedMetric] ?? 0);
 
     if (values.length === 0) return { average: 0, min: 0, max: 0 };
     let average = values.reduce((sum, val) => sum + val, 0) / values.length;
@@ -951,38 +1243,11 @@ const App: React.FC = () => {
     const min = Math.min(...values);
     const max = Math.max(...values);
     return { average, min, max };
-  }, [
-    metricData,
-    selectedMetric,
-    demographicKey,
-    filteredGeoJsonData,
-    mapView,
-  ]);
+  }, [areaMetrics, selectedMetric, filteredGeoJsonData, mapView]);
 
-  const getBiharColor = (metric: string, value: number | string): string => {
-    if (metric === "totalProjects") {
-      if (typeof value === "number" && value >= 5) return "#6366f1"; // 10L+
-      if (typeof value === "number" && value >= 3) return "#8b5cf6"; // 5L-10L
-      if (typeof value === "number" && value >= 1) return "#a78bfa"; // 1L-5L
-      return "#c4b5fd"; // <1L
-    } else if (metric === "totalInvestment") {
-      if (typeof value === "number" && value >= 4000000) return "#059669"; // 20Cr+
-      if (typeof value === "number" && value >= 3000000) return "#10b981"; // 15-20Cr
-      if (typeof value === "number" && value >= 2000000) return "#34d399"; // 10-15Cr
-      if (typeof value === "number" && value >= 1000000) return "#6ee7b7"; // 5-10Cr
-      return "#a7f3d0"; // <5Cr
-    } else if (metric === "fishOutput") {
-      if (typeof value === "number" && value >= 5) return "#f97316"; // 20K MT+
-      if (typeof value === "number" && value >= 3) return "#fb923c"; // 10-20K MT
-      if (typeof value === "number" && value >= 1) return "#fdba74"; // 5-10K MT
-      return "#fed7aa"; // <5K MT
-    }
-
-    return "#6b7280"; // default grey
-  };
-
-  // Color function for all metrics
-  const getColor = (metric: string, value: number | string): string => {
+  // Colours of chart categories and periods; map areas are coloured by
+  // their class (see areaClasses)
+  const getColor = (_metric: string, value: number | string): string => {
     const categoryColors: Record<string, string> = {
       PMMKSS: "#6366f1",
       PMMSY: "#10b981",
@@ -991,10 +1256,7 @@ const App: React.FC = () => {
       male: "#3b82f6",
       female: "#ec4899",
       transgender: "#a855f7",
-      2021: "#c4b5fd",
-      2022: "#a78bfa",
-      2023: "#8b5cf6",
-      2024: "#6366f1",
+      all: "#10b981",
       Inland: "#10b981",
       Marine: "#6366f1",
     };
@@ -1002,37 +1264,19 @@ const App: React.FC = () => {
     if (typeof value === "string" && categoryColors[value])
       return categoryColors[value];
 
-    if (metric === "beneficiaries") {
-      if (typeof value === "number" && value >= 4000) return "#6366f1";
-      if (typeof value === "number" && value >= 3000) return "#8b5cf6";
-      if (typeof value === "number" && value >= 2000) return "#a78bfa";
-      return "#c4b5fd";
-    } else if (metric === "funds") {
-      if (typeof value === "number" && value >= 8000000) return "#059669";
-      if (typeof value === "number" && value >= 5000000) return "#10b981";
-      if (typeof value === "number" && value >= 3000000) return "#34d399";
-      return "#6ee7b7";
-    } else if (metric === "registrations") {
-      if (typeof value === "number" && value >= 8000) return "#f97316";
-      if (typeof value === "number" && value >= 6000) return "#fb923c";
-      if (typeof value === "number" && value >= 4000) return "#fdba74";
-      return "#fed7aa";
-    } else if (metric === "totalProjects") {
-      if (typeof value === "number" && value >= 80) return "#6366f1";
-      if (typeof value === "number" && value >= 50) return "#8b5cf6";
-      if (typeof value === "number" && value >= 30) return "#a78bfa";
-      return "#c4b5fd";
-    } else if (metric === "totalInvestment") {
-      if (typeof value === "number" && value >= 200000000) return "#059669";
-      if (typeof value === "number" && value >= 150000000) return "#10b981";
-      if (typeof value === "number" && value >= 100000000) return "#34d399";
-      return "#6ee7b7";
-    } else if (metric === "fishOutput") {
-      if (typeof value === "number" && value >= 150) return "#f97316";
-      if (typeof value === "number" && value >= 100) return "#fb923c";
-      if (typeof value === "number" && value >= 50) return "#fdba74";
-      return "#fed7aa";
+    // Financial years, quarters and months cycle through the purple ramp
+    const period =
+      typeof value === "string" ? parseFiscalPeriodKey(value) : null;
+    if (period) {
+      const position =
+        period.month && period.quarter
+          ? monthsOfFiscalQuarter(period.quarter).indexOf(period.month)
+          : period.quarter
+          ? period.quarter - 1
+          : period.startYear;
+      return periodColors[position % periodColors.length];
     }
+
     return "#6b7280";
   };
 
@@ -1050,16 +1294,9 @@ const App: React.FC = () => {
       metric === "funds_used" ||
       metric === "totalInvestment"
     ) {
-      if (mapView === "district" && selectedScheme === "PMMSY")
-        return `₹${formatNumber(value / 20)}`;
-      else if (mapView === "sub-district" && selectedScheme === "PMMSY")
-        return `₹${formatNumber(value / 200)}`;
       return `₹${formatNumber(value)}`;
     }
     if (metric === "fishOutput") {
-      if (mapView === "district") return `${(value / 20).toFixed(2)} Tonnes`;
-      if (mapView === "sub-district")
-        return `${(value / 200).toFixed(2)} Tonnes`;
       return `${value.toFixed(2)} Tonnes`;
     }
     return formatNumber(value);
@@ -1075,6 +1312,8 @@ const App: React.FC = () => {
         totalProjects: "Total Projects",
         totalInvestment: "Total Investment",
         fishOutput: "Fish Output",
+        funds_used: "Funds Used",
+        totalEmployment: "Total Employment",
       }[metric] || "Unknown Metric"
     );
   };
@@ -1096,409 +1335,522 @@ const App: React.FC = () => {
     return getMetricDisplayName(selectedMetric);
   };
 
-  // Brackets for pie chart (distribution by metric range)
-  const brackets = {
-    beneficiaries: [
-      { min: 4000, max: Infinity, label: "4000+", color: "#6366f1" },
-      { min: 3000, max: 4000, label: "3000-4000", color: "#8b5cf6" },
-      { min: 2000, max: 3000, label: "2000-3000", color: "#a78bfa" },
-      { min: 0, max: 2000, label: "0-2000", color: "#c4b5fd" },
-    ],
-    funds: [
-      { min: 8000000, max: Infinity, label: "80L+", color: "#059669" },
-      { min: 5000000, max: 8000000, label: "50L-80L", color: "#10b981" },
-      { min: 3000000, max: 5000000, label: "30L-50L", color: "#34d399" },
-      { min: 0, max: 3000000, label: "0-30L", color: "#6ee7b7" },
-    ],
-    registrations: [
-      { min: 8000, max: Infinity, label: "8000+", color: "#f97316" },
-      { min: 6000, max: 8000, label: "6000-8000", color: "#fb923c" },
-      { min: 4000, max: 6000, label: "4000-6000", color: "#fdba74" },
-      { min: 0, max: 4000, label: "0-4000", color: "#fed7aa" },
-    ],
-    totalProjects: [
-      { min: 80, max: Infinity, label: "80+", color: "#6366f1" },
-      { min: 50, max: 80, label: "50-80", color: "#8b5cf6" },
-      { min: 30, max: 50, label: "30-50", color: "#a78bfa" },
-      { min: 0, max: 30, label: "0-30", color: "#c4b5fd" },
-    ],
-    totalInvestment: [
-      { min: 200000000, max: Infinity, label: "20Cr+", color: "#059669" },
-      { min: 150000000, max: 200000000, label: "15Cr-20Cr", color: "#10b981" },
-      { min: 100000000, max: 150000000, label: "10Cr-15Cr", color: "#34d399" },
-      { min: 50000000, max: 100000000, label: "5Cr-10Cr", color: "#6ee7b7" },
-    ],
-
-    fishOutput: [
-      { min: 150, max: Infinity, label: "150+", color: "#f97316" },
-      { min: 100, max: 150, label: "100-150", color: "#fb923c" },
-      { min: 50, max: 100, label: "50-100", color: "#fdba74" },
-      { min: 0, max: 50, label: "0-50", color: "#fed7aa" },
-    ],
-  };
-
   // Pie chart data (distribution by metric range)
-  const pieData = useMemo(() => {
-    if (!metricData || !filteredGeoJsonData || !brackets[selectedMetric])
-      return [];
-    const currentBrackets = brackets[selectedMetric];
-    const counts = currentBrackets.map(() => ({
-      count: 0,
-      label: "",
-      color: "",
-    }));
-    currentBrackets.forEach((bracket, index) => {
-      counts[index].label = bracket.label;
-      counts[index].color = bracket.color;
-    });
-    filteredGeoJsonData.features
-      .filter(
-        (f) =>
-          (mapView === "state" && f.properties.level === "state") ||
-          (mapView === "district" && f.properties.level === "district") ||
-          (mapView === "sub-district" && f.properties.level === "sub-district")
-      )
-      .forEach((feature) => {
-        const id = feature.properties.shapeID;
-        const value = metricData[id]?.[demographicKey]?.[selectedMetric];
-        if (value !== undefined) {
-          const bracket = currentBrackets.find(
-            (b) => value >= b.min && (b.max === Infinity ? true : value < b.max)
-          );
-          if (bracket) counts[currentBrackets.indexOf(bracket)].count++;
-        }
-      });
-
-    return counts.map((c) => ({
-      name: c.label,
-      value: c.count,
-      color: c.color,
-    }));
-  }, [
-    metricData,
-    filteredGeoJsonData,
-    selectedMetric,
-    demographicKey,
-    mapView,
-  ]);
-
-  // Bar chart data for PMMSY
-  const pmmsyBarData = useMemo(() => {
-    if (!mockPMMSYData || !filteredGeoJsonData)
-      return { data: [], keys: [], displayNamesMap: {} };
+  // Classes of the current metric over the areas of a map, from the
+  // classification settings
+  const areaClasses = useCallback(
+    (features: GeoJSONFeature[], level: string): MetricClass[] =>
+      classifyValues(
+        features
+          .filter((f) => f.properties.level === level)
+          // Areas without facts in the slice count as 0, as on the map
+          .map((f) => areaMetrics?.[f.properties.shapeID]?.[selectedMetric] ?? 0),
+        {
+          ...classification,
+          ramp: classification.ramp || metricRamps[selectedMetric],
+          manualBreaks: manualBreaks[selectedMetric] || [],
+        },
+        formatNumber
+      ),
+    [areaMetrics, selectedMetric, classification, manualBreaks]
+  );
 
-    const featuresForBarChart = filteredGeoJsonData.features.filter(
-      (f) => f.properties.level === mapView
-    );
+  const mapClasses = useMemo(
+    () =>
+      filteredGeoJsonData
+        ? areaClasses(filteredGeoJsonData.features, mapView)
+        : [],
+    [areaClasses, filteredGeoJsonData, mapView]
+  );
+  const drilledMapClasses = useMemo(
+    () =>
+      drilledMap ? areaClasses(drilledMap.data.features, drilledMap.level) : [],
+    [areaClasses, drilledMap]
+  );
+  const getMapColor = useCallback(
+    (_metric: string, value: number) => classColor(mapClasses, value),
+    [mapClasses]
+  );
+  const getDrilledMapColor = useCallback(
+    (_metric: string, value: number) => classColor(drilledMapClasses, value),
+    [drilledMapClasses]
+  );
 
-    const overallMetricDataForSorting: Record<string, number> = {};
-    featuresForBarChart.forEach((feature) => {
-      const areaId = feature.properties.shapeID;
-      const areaData = mockPMMSYData[areaId];
-      if (!areaData) return;
-      let totalValue = 0;
-      Object.entries(areaData).forEach(([key, metrics]) => {
-        const [, gender, year, sector] = key.split("_");
-        const genderMatch =
-          selectedGender === "all" || gender === selectedGender;
-        const yearMatch =
-          selectedFinancialYearPMMSY === "all" ||
-          year === selectedFinancialYearPMMSY;
-        const sectorMatch =
-          selectedSectorPMMSY === "all" || sector === selectedSectorPMMSY;
-        if (genderMatch && yearMatch && sectorMatch) {
-          totalValue += metrics[selectedMetric] || 0;
-        }
-      });
-      overallMetricDataForSorting[areaId] = totalValue;
-    });
+  // Number of areas of a map in each class
+  const areaClassCounts = useCallback(
+    (
+      features: GeoJSONFeature[],
+      level: string,
+      classes: MetricClass[]
+    ): number[] => {
+      const counts = classes.map(() => 0);
+      features
+        .filter((f) => f.properties.level === level)
+        .forEach((f) => {
+          const value =
+            areaMetrics?.[f.properties.shapeID]?.[selectedMetric] ?? 0;
+          counts[classIndex(classes, value)]++;
+        });
+      return counts;
+    },
+    [areaMetrics, selectedMetric]
+  );
+  const mapClassCounts = useMemo(
+    () =>
+      filteredGeoJsonData
+        ? areaClassCounts(filteredGeoJsonData.features, mapView, mapClasses)
+        : [],
+    [areaClassCounts, filteredGeoJsonData, mapView, mapClasses]
+  );
+  const drilledMapClassCounts = useMemo(
+    () =>
+      drilledMap
+        ? areaClassCounts(
+            drilledMap.data.features,
+            drilledMap.level,
+            drilledMapClasses
+          )
+        : [],
+    [areaClassCounts, drilledMap, drilledMapClasses]
+  );
 
-    const sortedAreas = featuresForBarChart
-      .map((feature) => ({
-        id: feature.properties.shapeID,
-        name: feature.properties.shapeName || "Unknown Area",
-        overallValue:
-          overallMetricDataForSorting[feature.properties.shapeID] || 0,
+  // A class index means nothing once the classes are recomputed
+  useEffect(() => {
+    setIsolatedClass(null);
+  }, [selectedMetric, classification, manualBreaks, mapView, drillPath]);
+
+  // Classes of the map on screen, the drilled map's once a state is drilled
+  // into, with their area counts
+  const screenMapClasses = selectedState ? drilledMapClasses : mapClasses;
+  const screenMapClassCounts = selectedState
+    ? drilledMapClassCounts
+    : mapClassCounts;
+  // The isolated class indexes the same classes, on whichever map is shown
+  const isolatedMapClass =
+    isolatedClass === null ? null : screenMapClasses[isolatedClass] ?? null;
+
+  // Pie chart data: areas of the map on screen per class, highest first
+  const pieData = useMemo(() => {
+    if (!areaMetrics) return [];
+    return screenMapClasses
+      .map((metricClass, idx) => ({
+        name: metricClass.label,
+        value: screenMapClassCounts[idx] ?? 0,
+        color: metricClass.color,
       }))
-      .sort((a, b) => b.overallValue - a.overallValue)
-      .slice(0, 10);
-
-    let keys: string[] = [];
-    let getDemographicKey: (areaId: string, key: string) => string;
-    let displayNamesMap: Record<string, string> = {};
-
-    switch (selectedBarChartCategory) {
-      case "gender":
-        keys = ["male", "female", "transgender"];
-        getDemographicKey = (areaId, key) =>
-          `PMMSY_${key}_${
-            selectedFinancialYearPMMSY === "all"
-              ? "2024"
-              : selectedFinancialYearPMMSY
-          }_${selectedSectorPMMSY === "all" ? "Inland" : selectedSectorPMMSY}`;
-        displayNamesMap = genderDisplayNames;
-        break;
-      case "year":
-        keys = ["2021", "2022", "2023", "2024"];
-        getDemographicKey = (areaId, key) =>
-          `PMMSY_${selectedGender === "all" ? "male" : selectedGender}_${key}_${
-            selectedSectorPMMSY === "all" ? "Inland" : selectedSectorPMMSY
-          }`;
-        displayNamesMap = yearDisplayNames;
-        break;
-      case "scheme":
-        keys = ["Inland", "Marine"];
-        getDemographicKey = (areaId, key) =>
-          `PMMSY_${selectedGender === "all" ? "male" : selectedGender}_${
-            selectedFinancialYearPMMSY === "all"
-              ? "2024"
-              : selectedFinancialYearPMMSY
-          }_${key}`;
-        displayNamesMap = { Inland: "Inland", Marine: "Marine" };
-        break;
-      default:
-        return { data: [], keys: [], displayNamesMap: {} };
-    }
-
-    const data = sortedAreas.map((area) => {
-      const categoryValues: Record<string, number> = {};
-      keys.forEach((key) => {
-        const fullKey = getDemographicKey(area.id, key);
-        const value = mockPMMSYData[area.id]?.[fullKey]?.[selectedMetric] || 0;
-        categoryValues[key] = value;
+      .reverse();
+  }, [areaMetrics, screenMapClasses, screenMapClassCounts]);
+
+  // Bivariate classes of the maps, with the number of areas per cell
+  const schemeMapMetrics =
+    mapMetricOptions[selectedScheme === "PMMSY" ? "PMMSY" : "other"];
+  const bivariateMetrics =
+    bivariateSelection &&
+    schemeMapMetrics.includes(bivariateSelection.x) &&
+    schemeMapMetrics.includes(bivariateSelection.y)
+      ? bivariateSelection
+      : { x: schemeMapMetrics[0], y: schemeMapMetrics[1] };
+  const { x: bivariateX, y: bivariateY } = bivariateMetrics;
+
+  const areaBivariate = useCallback(
+    (
+      features: GeoJSONFeature[],
+      level: string
+    ): { breaks: BivariateBreaks; counts: number[][] } => {
+      const values = features
+        .filter((f) => f.properties.level === level)
+        .map((f) => areaMetrics?.[f.properties.shapeID]);
+      const breaks = bivariateBreaks(
+        values.map((metrics) => metrics?.[bivariateX] ?? 0),
+        values.map((metrics) => metrics?.[bivariateY] ?? 0)
+      );
+      const counts = Array.from({ length: BIVARIATE_CLASSES }, () =>
+        new Array<number>(BIVARIATE_CLASSES).fill(0)
+      );
+      values.forEach((metrics) => {
+        counts[bivariateClass(breaks.y, metrics?.[bivariateY] ?? 0)][
+          bivariateClass(breaks.x, metrics?.[bivariateX] ?? 0)
+        ]++;
       });
-      return { name: area.name, ...categoryValues };
-    });
+      return { breaks, counts };
+    },
+    [areaMetrics, bivariateX, bivariateY]
+  );
+  const mapBivariate = useMemo(
+    () =>
+      filteredGeoJsonData
+        ? areaBivariate(filteredGeoJsonData.features, mapView)
+        : null,
+    [areaBivariate, filteredGeoJsonData, mapView]
+  );
+  const drilledMapBivariate = useMemo(
+    () =>
+      drilledMap
+        ? areaBivariate(drilledMap.data.features, drilledMap.level)
+        : null,
+    [areaBivariate, drilledMap]
+  );
+  const getMapBivariateColor = useCallback(
+    (metrics: MetricValues | undefined) =>
+      mapBivariate
+        ? bivariateColor(
+            mapBivariate.breaks,
+            metrics?.[bivariateX] ?? 0,
+            metrics?.[bivariateY] ?? 0
+          )
+        : "#e8e8e8",
+    [mapBivariate, bivariateX, bivariateY]
+  );
+  const getDrilledMapBivariateColor = useCallback(
+    (metrics: MetricValues | undefined) =>
+      drilledMapBivariate
+        ? bivariateColor(
+            drilledMapBivariate.breaks,
+            metrics?.[bivariateX] ?? 0,
+            metrics?.[bivariateY] ?? 0
+          )
+        : "#e8e8e8",
+    [drilledMapBivariate, bivariateX, bivariateY]
+  );
 
-    return { data, keys, displayNamesMap };
-  }, [
-    mockPMMSYData,
-    filteredGeoJsonData,
-    selectedMetric,
-    selectedGender,
-    selectedFinancialYearPMMSY,
-    selectedSectorPMMSY,
-    selectedBarChartCategory,
-    mapView,
-  ]);
+  const renderBivariateLegend = (counts: number[][]) => (
+    <BivariateLegend
+      xMetric={bivariateX}
+      yMetric={bivariateY}
+      metricOptions={schemeMapMetrics}
+      getMetricDisplayName={getMetricDisplayName}
+      onChange={setBivariateSelection}
+      counts={counts}
+    />
+  );
 
-  // Bar chart data for non-PMMSY
-  const overallMetricDataForSorting = useMemo(() => {
-    if (!metricData || !filteredGeoJsonData) return {};
-    const overallKey =
-      selectedScheme === "PMMSY" ? "PMMSY_aggregated" : `all_all_all`;
-    const data: Record<string, number> = {};
-    filteredGeoJsonData.features.forEach((feature) => {
-      data[feature.properties.shapeID] =
-        metricData[feature.properties.shapeID]?.[overallKey]?.[
-          selectedMetric
-        ] ?? 0;
-    });
-    return data;
-  }, [metricData, filteredGeoJsonData, selectedMetric, selectedScheme]);
+  // Proportional circles: the metric and its largest value on each map
+  const symbolMetric =
+    symbolSelection && schemeMapMetrics.includes(symbolSelection)
+      ? symbolSelection
+      : schemeMapMetrics[0];
+  const areaMetricMax = useCallback(
+    (features: GeoJSONFeature[], level: string): number =>
+      Math.max(
+        0,
+        ...features
+          .filter((f) => f.properties.level === level)
+          .map((f) => areaMetrics?.[f.properties.shapeID]?.[symbolMetric] ?? 0)
+      ),
+    [areaMetrics, symbolMetric]
+  );
+  const mapSymbolMax = useMemo(
+    () =>
+      filteredGeoJsonData
+        ? areaMetricMax(filteredGeoJsonData.features, mapView)
+        : 0,
+    [areaMetricMax, filteredGeoJsonData, mapView]
+  );
+  const drilledMapSymbolMax = useMemo(
+    () =>
+      drilledMap
+        ? areaMetricMax(drilledMap.data.features, drilledMap.level)
+        : 0,
+    [areaMetricMax, drilledMap]
+  );
 
-  const barData = useMemo(() => {
-    if (!metricData || !filteredGeoJsonData)
-      return { data: [], keys: [], displayNamesMap: {} };
+  const renderSymbolLegend = (maxValue: number) => (
+    <SymbolLegend
+      metric={symbolMetric}
+      metricOptions={schemeMapMetrics}
+      getMetricDisplayName={getMetricDisplayName}
+      formatMetricValue={formatMetricValue}
+      onChange={setSymbolSelection}
+      maxValue={maxValue}
+    />
+  );
 
-    const featuresForBarChart = filteredGeoJsonData.features.filter(
-      (f) => f.properties.level === mapView
+  // Change from A to B in the selected metric, classed around zero
+  const differenceMetrics = useMemo(() => {
+    if (!comparisonLayout || !showDifference || !areaMetrics) return null;
+    if (!comparisonMetrics) return null;
+    const ids = new Set([
+      ...Object.keys(areaMetrics),
+      ...Object.keys(comparisonMetrics),
+    ]);
+    return Object.fromEntries(
+      Array.from(ids, (id): [string, MetricValues] => [
+        id,
+        {
+          [selectedMetric]:
+            (comparisonMetrics[id]?.[selectedMetric] ?? 0) -
+            (areaMetrics[id]?.[selectedMetric] ?? 0),
+        },
+      ])
     );
-
-    const sortedAreas = featuresForBarChart
-      .map((feature) => ({
-        id: feature.properties.shapeID,
-        name: feature.properties.shapeName || "Unknown Area",
-        overallValue:
-          overallMetricDataForSorting[feature.properties.shapeID] || 0,
-      }))
-      .sort((a, b) => b.overallValue - a.overallValue)
-      .slice(0, 10);
-
-    let keys: string[] = [];
-    let getDemographicKey: (areaId: string, key: string) => string;
-    let displayNamesMap: Record<string, string> = {};
-
-    switch (selectedBarChartCategory) {
-      case "scheme":
-        keys = ["PMMKSS", "KCC", "NFDP"]; // Removed PMMSY to fix bug
-        getDemographicKey = (areaId, key) =>
-          `${key}_${selectedGender}_${selectedYear}`;
-        displayNamesMap = schemeDisplayNames;
-        break;
-      case "gender":
-        keys = ["male", "female", "transgender"];
-        getDemographicKey = (areaId, key) =>
-          `${selectedScheme}_${key}_${selectedYear}`;
-        displayNamesMap = genderDisplayNames;
-        break;
-      case "year":
-        keys = ["2021", "2022", "2023", "2024"];
-        getDemographicKey = (areaId, key) =>
-          `${selectedScheme}_${selectedGender}_${key}`;
-        displayNamesMap = yearDisplayNames;
-        break;
-      default:
-        return { data: [], keys: [], displayNamesMap: {} };
-    }
-
-    const rawData = sortedAreas.map((area) => {
-      const categoryValues: Record<string, number> = {};
-      keys.forEach((key) => {
-        const fullKey = getDemographicKey(area.id, key);
-        const value = metricData[area.id]?.[fullKey]?.[selectedMetric];
-        categoryValues[key] = value ?? 0;
-      });
-      return { name: area.name, ...categoryValues };
-    });
-
-    return { data: rawData, keys, displayNamesMap };
   }, [
-    metricData,
-    filteredGeoJsonData,
+    comparisonLayout,
+    showDifference,
+    areaMetrics,
+    comparisonMetrics,
     selectedMetric,
-    selectedScheme,
-    selectedGender,
-    selectedYear,
-    selectedBarChartCategory,
-    overallMetricDataForSorting,
-    mapView,
   ]);
+  const differenceValues = useMemo(
+    () =>
+      differenceMetrics && filteredGeoJsonData
+        ? filteredGeoJsonData.features
+            .filter((f) => f.properties.level === mapView)
+            .map(
+              (f) =>
+                differenceMetrics[f.properties.shapeID]?.[selectedMetric] ?? 0
+            )
+        : [],
+    [differenceMetrics, filteredGeoJsonData, mapView, selectedMetric]
+  );
+  const differenceClasses = useMemo(
+    () => divergingClasses(differenceValues, formatChange),
+    [differenceValues]
+  );
+  const differenceClassCounts = useMemo(() => {
+    const counts = differenceClasses.map(() => 0);
+    differenceValues.forEach(
+      (value) => counts[classIndex(differenceClasses, value)]++
+    );
+    return counts;
+  }, [differenceClasses, differenceValues]);
+  const getDifferenceColor = useCallback(
+    (_metric: string, value: number) => classColor(differenceClasses, value),
+    [differenceClasses]
+  );
 
-  const {
-    data: barChartData,
-    keys: barChartKeys,
-    displayNamesMap: barChartDisplayNamesMap,
-  } = barData;
-
-  const handleSelectedScheme = (scheme: SchemeKey) => {
-    setSelectedScheme(scheme);
-    setSelectedState(null);
+  // Filters of one side of the comparison, as a pane label
+  const comparisonLabel = (
+    side: string,
+    filters: typeof comparisonFilters
+  ): string =>
+    `${side}: ${fiscalPeriodLabel(filters.period)} · ${
+      selectedScheme === "PMMSY"
+        ? filters.pmmsySector === "all"
+          ? "All Sectors"
+          : filters.pmmsySector
+        : filters.gender === "all"
+        ? "All Genders"
+        : filters.gender
+    }`;
+
+  // The comparison replaces the India map; drilled views stay single
+  const isComparing = !!comparisonLayout && !selectedState;
+
+  // Area highlighted on every map, chart and table: the one under the
+  // pointer anywhere, else the one whose details are open
+  const selectedAreaId: string | null = selectedAreaDetails?.id ?? null;
+  const linkedAreaValue = hoveredArea
+    ? hoveredArea.value
+    : selectedAreaId
+    ? areaMetrics?.[selectedAreaId]?.[selectedMetric] ?? null
+    : null;
+
+  // Filters and legend printed on map exports
+  const mapLevelNames: Record<MapViewLevel, string> = {
+    state: "States",
+    district: "Districts",
+    "sub-district": "Sub-Districts",
+    village: "Villages",
   };
-
-  const isBiharView = selectedState === "Bihar";
-
-  // Handle area click
-  const handleAreaClick = (areaDetails: any) => {
-    if (!polygonData || !metricData) return;
-
-    // Determine the group for averaging based on area type
-    const getAverageGroup = (level: string, properties: any) => {
-      if (level === "state") {
-        return polygonData.features.filter(
-          (f) => f.properties.level === "state"
-        );
-      } else if (level === "district") {
-        return polygonData.features.filter(
-          (f) =>
-            f.properties.level === "district" &&
-            f.properties.st_nm === properties.st_nm
-        );
-      } else if (level === "sub-district") {
-        return polygonData.features.filter(
-          (f) =>
-            f.properties.level === "sub-district" &&
-            f.properties.district_name === properties.district_name
-        );
+  const bivariateLevels = ["Low", "Mid", "High"];
+  const mapExportDetails = selectedScheme
+    ? {
+        filters: [
+          schemeDisplayNames[selectedScheme],
+          `${fiscalPeriodLabel(effectivePeriod)}${
+            cumulativePeriods &&
+            fiscalPeriodGranularity(effectivePeriod) === "year"
+              ? " (cumulative)"
+              : ""
+          }`,
+          selectedScheme === "PMMSY"
+            ? selectedSectorPMMSY === "all"
+              ? "All Sectors"
+              : selectedSectorPMMSY
+            : selectedGender === "all"
+            ? "All Genders"
+            : selectedGender,
+          selectedState || "India",
+          mapLevelNames[mapView],
+        ],
+        legend:
+          mapRenderMode === "choropleth"
+            ? {
+                title: getMetricDisplayName(selectedMetric),
+                items: [...mapClasses]
+                  .reverse()
+                  .map(({ color, label }) => ({ color, label })),
+              }
+            : mapRenderMode === "bivariate"
+            ? {
+                title: "Bivariate Legend",
+                items: bivariateColors.flatMap((row, y) =>
+                  row.map((color, x) => ({
+                    color,
+                    label: `${getMetricDisplayName(bivariateX)} ${
+                      bivariateLevels[x]
+                    }, ${getMetricDisplayName(bivariateY)} ${
+                      bivariateLevels[y]
+                    }`,
+                  }))
+                ),
+              }
+            : null,
       }
-      return [];
+    : undefined;
+
+  // Legend of the map on screen, with the classification controls
+  const renderMapLegend = (classes: MetricClass[], counts: number[]) => (
+    <MapLegend
+      title={`${getMetricDisplayName(selectedMetric)} Legend`}
+      classes={classes}
+      counts={counts}
+      isolatedClass={isolatedClass}
+      onIsolateClass={setIsolatedClass}
+      hoveredClass={
+        linkedAreaValue === null ? null : classIndex(classes, linkedAreaValue)
+      }
+    >
+      <ClassificationControls
+        classification={classification}
+        onChange={setClassification}
+        manualBreaks={manualBreaks[selectedMetric] || []}
+        onManualBreaksChange={(breaks) =>
+          setManualBreaks((prev) => ({
+            ...prev,
+            [selectedMetric]: breaks,
+          }))
+        }
+      />
+    </MapLegend>
+  );
+
+  // Bar chart data; the worker aggregates the selected scheme's breakdown
+  const barData = useMemo(() => {
+    let displayNamesMap: Record<string, string> = {};
+    if (selectedBarChartCategory === "year") {
+      displayNamesMap = periodAxis.displayNames;
+    } else if (selectedBarChartCategory === "gender") {
+      displayNamesMap = genderDisplayNames;
+    } else if (selectedScheme === "PMMSY") {
+      // Sectors are shown by name
+      displayNamesMap = Object.fromEntries(
+        pmmsySectors.map((sector) => [sector, sector])
+      );
+    } else {
+      displayNamesMap = schemeDisplayNames;
+    }
+    return {
+      data: chartAggregates?.barData.data || [],
+      keys: chartAggregates?.barData.keys || [],
+      displayNamesMap,
     };
+  }, [
+    chartAggregates,
+    selectedBarChartCategory,
+    selectedScheme,
+    periodAxis,
+    pmmsySectors,
+  ]);
 
-    const group = getAverageGroup(areaDetails.level, areaDetails);
-    const metricSums: { [key: string]: number } = {};
-    const count = group.length;
+  const {
+    data: barChartData,
+    keys: barChartKeys,
+    displayNamesMap: barChartDisplayNamesMap,
+  } = barData;
 
-    group.forEach((feature) => {
-      const areaMetrics =
-        metricData[feature.properties.shapeID]?.[demographicKey];
-      if (areaMetrics) {
-        Object.keys(areaMetrics).forEach((key) => {
-          metricSums[key] = (metricSums[key] || 0) + (areaMetrics[key] || 0);
-        });
-      }
-    });
+  const handleSelectedScheme = (scheme: SchemeKey) => {
+    setSelectedScheme(scheme);
+    setDrillPath([]);
+  };
 
-    const averages: { [key: string]: number } = {};
-    Object.keys(metricSums).forEach((key) => {
-      averages[key] = count > 0 ? metricSums[key] / count : 0;
-    });
+  // Chart slices and series filter the dashboard; clicking the active one
+  // again clears its filter
+  const handleSectorSliceClick = (sector: string) =>
+    setSelectedSectorPMMSY((prev) => (prev === sector ? "all" : sector));
 
-    if (selectedScheme === "PMMSY") {
-      const metrics = metricData[areaDetails.id]?.[demographicKey] || {
-        totalProjects: 0,
-        totalInvestment: 0,
-        fishOutput: 0,
-      };
-      const totalEmploymentGenerated = Math.floor(
-        metrics.totalProjects * (5 + Math.random() * 10)
-      );
-      const pmmsyMetrics: PMMSYAggregatedData = {
-        totalProjects: metrics.totalProjects || 0,
-        totalInvestment: metrics.totalInvestment || 0,
-        fishOutput: metrics.fishOutput || 0,
-        totalEmploymentGenerated,
-        directEmploymentMen: Math.floor(totalEmploymentGenerated * 0.4),
-        directEmploymentWomen: Math.floor(totalEmploymentGenerated * 0.3),
-        indirectEmploymentMen: Math.floor(totalEmploymentGenerated * 0.2),
-        indirectEmploymentWomen: Math.floor(totalEmploymentGenerated * 0.1),
-        projectsByStateUT: [],
-        sectorDistribution: [],
-      };
-      const averageTotalEmploymentGenerated = Math.floor(
-        averages.totalProjects * (5 + Math.random() * 10)
-      );
-      const pmmsyAverages: PMMSYAggregatedData = {
-        totalProjects: averages.totalProjects || 0,
-        totalInvestment: averages.totalInvestment || 0,
-        fishOutput: averages.fishOutput || 0,
-        totalEmploymentGenerated: averageTotalEmploymentGenerated,
-        directEmploymentMen: Math.floor(averageTotalEmploymentGenerated * 0.4),
-        directEmploymentWomen: Math.floor(
-          averageTotalEmploymentGenerated * 0.3
-        ),
-        indirectEmploymentMen: Math.floor(
-          averageTotalEmploymentGenerated * 0.2
-        ),
-        indirectEmploymentWomen: Math.floor(
-          averageTotalEmploymentGenerated * 0.1
-        ),
-        projectsByStateUT: [],
-        sectorDistribution: [],
-      };
-      setSelectedAreaDetails({
-        ...areaDetails,
-        name: areaDetails.name || "Unknown Area",
-        officer: officerNames[areaDetails.id] || "Unknown Officer",
-        level: areaDetails.level || "Unknown",
-        pmmsyMetrics,
-        pmmsyAverages,
-      });
+  const handleBracketSliceClick = (label: string) => {
+    const index = screenMapClasses.findIndex((c) => c.label === label);
+    setIsolatedClass((prev) => (index < 0 || prev === index ? null : index));
+  };
+
+  const handleBarSeriesClick = (key: string) => {
+    // PMMSY's only gender series is the total
+    if (key === "all") return;
+    if (selectedBarChartCategory === "year") {
+      setSelectedPeriod(key);
+    } else if (selectedBarChartCategory === "gender") {
+      setSelectedGender(key as GenderKey);
+    } else if (selectedScheme === "PMMSY") {
+      setSelectedSectorPMMSY(key);
     } else {
-      const metrics = metricData[areaDetails.id]?.[demographicKey] || {
-        beneficiaries: 0,
-        funds: 0,
-        registrations: 0,
-        funds_used: 0,
-        beneficiaries_last_24h: 0,
-        registrations_last_24h: 0,
-      };
-      setSelectedAreaDetails({
-        ...areaDetails,
-        name: areaDetails.name || "Unknown Area",
-        officer: officerNames[areaDetails.id] || "Unknown Officer",
-        level: areaDetails.level || "Unknown",
-        metrics,
-        averages,
+      handleSelectedScheme(key as SchemeKey);
+    }
+  };
+
+  // Active filters of the dimensions the charts filter by. PMMSY is a
+  // dashboard of its own rather than a filter, so it has no chip.
+  const crossFilterChips: CrossFilterChip[] = [];
+  if (selectedScheme === "PMMSY") {
+    if (selectedSectorPMMSY !== "all") {
+      crossFilterChips.push({
+        key: "sector",
+        label: `Sector: ${selectedSectorPMMSY}`,
+        onRemove: () => setSelectedSectorPMMSY("all"),
+      });
+    }
+  } else {
+    if (selectedScheme !== "all") {
+      crossFilterChips.push({
+        key: "scheme",
+        label: `Scheme: ${selectedScheme}`,
+        onRemove: () => handleSelectedScheme("all"),
       });
     }
+    if (selectedGender !== "all") {
+      crossFilterChips.push({
+        key: "gender",
+        label: `Gender: ${genderDisplayNames[selectedGender]}`,
+        onRemove: () => setSelectedGender("all"),
+      });
+    }
+  }
+  if (effectivePeriod !== "all") {
+    crossFilterChips.push({
+      key: "period",
+      label: fiscalPeriodLabel(effectivePeriod),
+      onRemove: () => setSelectedPeriod("all"),
+    });
+  }
+  if (isolatedMapClass) {
+    crossFilterChips.push({
+      key: "bracket",
+      label: `${getMetricDisplayName(selectedMetric)}: ${
+        isolatedMapClass.label
+      }`,
+      onRemove: () => setIsolatedClass(null),
+    });
+  }
+
+  const handleClearCrossFilters = () => {
+    if (selectedScheme !== "PMMSY" && selectedScheme !== "all") {
+      handleSelectedScheme("all");
+    }
+    setSelectedSectorPMMSY("all");
+    setSelectedGender("all");
+    setSelectedPeriod("all");
+    setIsolatedClass(null);
   };
 
-  // Handle drill down
-  const handleDrillDown = (areaDetails: any) => {
-    if (!polygonData || !metricData) return;
+  // Details of a clicked or drilled area: its metrics and the averages over
+  // the areas it is compared with
+  const buildAreaDetails = (
+    areaDetails: AreaSelection
+  ): AreaDetails | null => {
+    if (!polygonData || !areaMetrics) return null;
 
     // Determine the group for averaging based on area type
-    const getAverageGroup = (level: string, properties: any) => {
+    const getAverageGroup = (level: string, properties: AreaSelection) => {
       if (level === "state") {
         return polygonData.features.filter(
           (f) => f.properties.level === "state"
@@ -1515,6 +1867,14 @@ const App: React.FC = () => {
             f.properties.level === "sub-district" &&
             f.properties.district_name === properties.district_name
         );
+      } else if (level === "village") {
+        return (villageAreas[properties.st_nm || ""] || []).filter(
+          (f) => f.properties.subdistrict_name === properties.subdistrict_name
+        );
+      } else if (level === "pincode") {
+        return (pinCodeAreas || []).filter(
+          (f) => f.properties.district_name === properties.district_name
+        );
       }
       return [];
     };
@@ -1524,12 +1884,14 @@ const App: React.FC = () => {
     const count = group.length;
 
     group.forEach((feature) => {
-      const areaMetrics =
-        metricData[feature.properties.shapeID]?.[demographicKey];
-      if (areaMetrics) {
-        Object.keys(areaMetrics).forEach((key) => {
-          metricSums[key] = (metricSums[key] || 0) + (areaMetrics[key] || 0);
-        });
+      const featureMetrics = areaMetrics[feature.properties.shapeID];
+      if (featureMetrics) {
+        (Object.keys(featureMetrics) as (keyof MetricValues)[]).forEach(
+          (key) => {
+            metricSums[key] =
+              (metricSums[key] || 0) + (featureMetrics[key] || 0);
+          }
+        );
       }
     });
 
@@ -1539,177 +1901,260 @@ const App: React.FC = () => {
     });
 
     if (selectedScheme === "PMMSY") {
-      const metrics = metricData[areaDetails.id]?.[demographicKey] || {
+      const metrics = areaMetrics[areaDetails.id] || {
         totalProjects: 0,
         totalInvestment: 0,
         fishOutput: 0,
       };
-      const totalEmploymentGenerated = Math.floor(
-        metrics.totalProjects * (5 + Math.random() * 10)
-      );
-      const pmmsyMetrics: PMMSYAggregatedData = {
-        totalProjects: metrics.totalProjects || 0,
-        totalInvestment: metrics.totalInvestment || 0,
-        fishOutput: metrics.fishOutput || 0,
-        totalEmploymentGenerated,
-        directEmploymentMen: Math.floor(totalEmploymentGenerated * 0.4),
-        directEmploymentWomen: Math.floor(totalEmploymentGenerated * 0.3),
-        indirectEmploymentMen: Math.floor(totalEmploymentGenerated * 0.2),
-        indirectEmploymentWomen: Math.floor(totalEmploymentGenerated * 0.1),
-        projectsByStateUT: [],
-        sectorDistribution: [],
-      };
-      const averageTotalEmploymentGenerated = Math.floor(
-        averages.totalProjects * (5 + Math.random() * 10)
-      );
-      const pmmsyAverages: PMMSYAggregatedData = {
-        totalProjects: averages.totalProjects || 0,
-        totalInvestment: averages.totalInvestment || 0,
-        fishOutput: averages.fishOutput || 0,
-        totalEmploymentGenerated: averageTotalEmploymentGenerated,
-        directEmploymentMen: Math.floor(averageTotalEmploymentGenerated * 0.4),
-        directEmploymentWomen: Math.floor(
-          averageTotalEmploymentGenerated * 0.3
-        ),
-        indirectEmploymentMen: Math.floor(
-          averageTotalEmploymentGenerated * 0.2
-        ),
-        indirectEmploymentWomen: Math.floor(
-          averageTotalEmploymentGenerated * 0.1
-        ),
-        projectsByStateUT: [],
-        sectorDistribution: [],
-      };
-      setSelectedState(areaDetails.name || "Unknown Area");
-      setDrilledAreaDetails({
+      const pmmsyMetrics = toPMMSYAggregatedData(metrics);
+      const pmmsyAverages = toPMMSYAggregatedData(averages);
+      return {
         ...areaDetails,
         name: areaDetails.name || "Unknown Area",
         officer: officerNames[areaDetails.id] || "Unknown Officer",
-        level: areaDetails.level || "Unknown",
         pmmsyMetrics,
         pmmsyAverages,
-      });
-    } else {
-      const metrics = metricData[areaDetails.id]?.[demographicKey] || {
-        beneficiaries: 0,
-        funds: 0,
-        registrations: 0,
-        funds_used: 0,
-        beneficiaries_last_24h: 0,
-        registrations_last_24h: 0,
       };
-      setSelectedState(areaDetails.name || "Unknown Area");
-      setDrilledAreaDetails({
-        ...areaDetails,
-        name: areaDetails.name || "Unknown Area",
-        officer: officerNames[areaDetails.id] || "Unknown Officer",
-        level: areaDetails.level || "Unknown",
-        metrics,
-        averages,
-      });
     }
+    const metrics = areaMetrics[areaDetails.id] || {
+      beneficiaries: 0,
+      funds: 0,
+      registrations: 0,
+      funds_used: 0,
+      beneficiaries_last_24h: 0,
+      registrations_last_24h: 0,
+    };
+    return {
+      ...areaDetails,
+      name: areaDetails.name || "Unknown Area",
+      officer: officerNames[areaDetails.id] || "Unknown Officer",
+      metrics,
+      averages,
+    };
   };
 
-  // Handle back to national view
-  const handleBack = () => {
-    setSelectedState(null);
-    setMapView("state");
+  // Handle area click
+  const handleAreaClick = (areaDetails: any) => {
+    const details = buildAreaDetails(areaDetails);
+    if (details) setSelectedAreaDetails(details);
   };
 
-  // Data for state category breakdown table
-  const categoryBreakdownData = useMemo(() => {
-    if (
-      !selectedState ||
-      !filteredGeoJsonData ||
-      !combinedMetricData ||
-      !mockNonPMMSYData ||
-      !mockPMMSYData
-    )
-      return [];
-
-    const districtFeatures = filteredGeoJsonData.features.filter(
-      (f) => f.properties.level === "district"
+  // Details of the drill-down ancestor of an area at a coarser level, for
+  // drills that start below the state (from the India map's finer views)
+  const ancestorDetails = (
+    level: MapViewLevel,
+    properties: AreaSelection
+  ): AreaDetails | null => {
+    const name =
+      level === "state"
+        ? properties.st_nm
+        : level === "district"
+        ? properties.district_name
+        : properties.subdistrict_name;
+    if (!name) return null;
+    const feature = [
+      ...polygonData!.features,
+      ...Object.values(detailedDistricts).flat(),
+    ].find(
+      (f) =>
+        f.properties.level === level &&
+        (level === "state"
+          ? f.properties.shapeName === name
+          : f.properties.st_nm === properties.st_nm &&
+            (level === "district"
+              ? f.properties.district_name || f.properties.shapeName
+              : f.properties.subdistrict_name || f.properties.shapeName) ===
+              name)
     );
+    return buildAreaDetails({
+      id: feature?.properties.shapeID || "",
+      name,
+      level,
+      st_nm: properties.st_nm,
+      district_name: level === "state" ? undefined : properties.district_name,
+      subdistrict_name:
+        level === "sub-district" ? properties.subdistrict_name : undefined,
+    });
+  };
 
-    const districtIds = districtFeatures.map((f) => f.properties.shapeID);
+  // Handle drill down: the path keeps the drilled area's ancestors
+  const handleDrillDown = (areaDetails: AreaSelection) => {
+    const rank = drillLevels.findIndex((level) => level === areaDetails.level);
+    const details = buildAreaDetails(areaDetails);
+    if (rank < 0 || !details) return;
+    const ancestors = drillLevels
+      .slice(0, rank)
+      .map(
+        (level) =>
+          drillPath.find((drilled) => drilled.level === level) ||
+          ancestorDetails(level, areaDetails)
+      )
+      .filter((ancestor): ancestor is AreaDetails => ancestor !== null);
+    setDrillPath([...ancestors, details]);
+  };
 
-    let categories: string[] = [];
-    let displayNames: Record<string, string> = {};
-    let getDemographicKey: (key: string) => string;
-    let dataSource: Record<string, AreaMetricData> | null = null;
+  // Handle back: up one drill-down level, to the national view from a state
+  const handleBack = () => {
+    if (drillPath.length <= 1) setMapView("state");
+    setDrillPath((prev) => prev.slice(0, -1));
+  };
 
-    if (selectedScheme === "PMMSY") {
-      dataSource = mockPMMSYData;
-      if (selectedBarChartCategory === "gender") {
-        categories = ["male", "female", "transgender"];
-        displayNames = genderDisplayNames;
-        getDemographicKey = (key) =>
-          `PMMSY_${key}_${selectedFinancialYearPMMSY}_${selectedSectorPMMSY}`;
-      } else if (selectedBarChartCategory === "year") {
-        categories = ["2021", "2022", "2023", "2024"];
-        displayNames = yearDisplayNames;
-        getDemographicKey = (key) =>
-          `PMMSY_${selectedGender}_${key}_${selectedSectorPMMSY}`;
-      } else {
-        // scheme (sectors for PMMSY)
-        categories = ["Inland", "Marine"];
-        displayNames = { Inland: "Inland", Marine: "Marine" };
-        getDemographicKey = (key) =>
-          `PMMSY_${selectedGender}_${selectedFinancialYearPMMSY}_${key}`;
-      }
-    } else {
-      dataSource = mockNonPMMSYData;
-      if (selectedBarChartCategory === "gender") {
-        categories = ["male", "female", "transgender"];
-        displayNames = genderDisplayNames;
-        getDemographicKey = (key) => `${selectedScheme}_${key}_${selectedYear}`;
-      } else if (selectedBarChartCategory === "year") {
-        categories = ["2021", "2022", "2023", "2024"];
-        displayNames = yearDisplayNames;
-        getDemographicKey = (key) =>
-          `${selectedScheme}_${selectedGender}_${key}`;
-      } else {
-        // scheme
-        categories = ["PMMKSS", "KCC", "NFDP"];
-        displayNames = schemeDisplayNames;
-        getDemographicKey = (key) => `${key}_${selectedGender}_${selectedYear}`;
-      }
-    }
+  // Breadcrumb navigation; depth 0 is the national view
+  const handleBreadcrumbNavigate = (depth: number) => {
+    if (depth === 0) setMapView("state");
+    setDrillPath((prev) => prev.slice(0, depth));
+  };
 
-    if (!dataSource) return [];
 
-    const totals: Record<string, number> = {};
+  // Places the search box finds: areas of the India map, loaded villages
+  // and the names records give them
+  const placeIndex = useMemo(
+    () =>
+      polygonData
+        ? buildPlaceIndex(
+            [...polygonData.features, ...Object.values(villageAreas).flat()],
+            aggregationSummary?.beneficiaries
+          )
+        : [],
+    [polygonData, villageAreas, aggregationSummary]
+  );
 
-    categories.forEach((cat) => {
-      const fullKey = getDemographicKey(cat);
-      let total = 0;
-      districtIds.forEach((id) => {
-        total +=
-          dataSource?.[id]?.[fullKey]?.[selectedMetric as keyof MetricValues] ||
-          0;
-      });
-      totals[cat] = total;
+  // Open the details of an area found outside a map click
+  const openAreaDetails = (
+    properties: GeoJSONFeature["properties"],
+    fallbackName?: string
+  ) => {
+    handleAreaClick({
+      id: properties.shapeID,
+      name: properties.shapeName || fallbackName,
+      metrics: areaMetrics?.[properties.shapeID],
+      level: properties.level,
+      st_nm: properties.st_nm,
+      district_name: properties.district_name,
+      subdistrict_name: properties.subdistrict_name,
+      village_name: properties.village_name,
     });
+  };
+
+  // Show a searched place on the India map at its own level. Its details
+  // wait for the aggregation of that level, which the view switch starts.
+  const handlePlaceSelect = (entry: PlaceSearchEntry) => {
+    const { properties } = entry.area;
+    setDrillPath([]);
+    setMapView(entry.level);
+    setMapFocus({ shapeID: properties.shapeID, requested: Date.now() });
+    setPendingPlace(entry);
+  };
+
+  useEffect(() => {
+    if (
+      !pendingPlace ||
+      areaMetricsView !== pendingPlace.level ||
+      !areaMetrics?.[pendingPlace.area.properties.shapeID]
+    ) {
+      return;
+    }
+    setPendingPlace(null);
+    openAreaDetails(pendingPlace.area.properties, pendingPlace.name);
+  }, [pendingPlace, areaMetricsView, areaMetrics]);
+
+  // An area hovered in a chart or table is highlighted like one hovered on
+  // the map
+  const handleLinkedAreaHover = (shapeID: string | null) =>
+    setHoveredArea(
+      shapeID
+        ? { shapeID, value: areaMetrics?.[shapeID]?.[selectedMetric] ?? 0 }
+        : null
+    );
+
+  // A chart bar or table row opens its area's details, as a map click does
+  const handleLinkedAreaClick = (shapeID: string) => {
+    const area = [
+      ...(stateDistrictData?.features || []),
+      ...(polygonData?.features || []),
+      ...Object.values(villageAreas).flat(),
+    ].find((f) => f.properties.shapeID === shapeID);
+    if (area) openAreaDetails(area.properties);
+  };
+
+  // Areas of the custom region while its level is on the map
+  const selectedAreaIds = useMemo(
+    () =>
+      regionSelection && regionSelection.level === mapView
+        ? regionSelection.areaIds
+        : [],
+    [regionSelection, mapView]
+  );
 
-    return categories.map((cat) => ({
-      category: displayNames[cat] || cat,
-      value: totals[cat],
-    }));
+  const regionDetails = useMemo(() => {
+    if (!polygonData || !regionSelection || selectedAreaIds.length === 0) {
+      return null;
+    }
+    const selected = new Set(selectedAreaIds);
+    return {
+      name: regionSelection.name,
+      level: regionSelection.level,
+      areaNames: [
+        ...polygonData.features,
+        ...Object.values(villageAreas).flat(),
+      ]
+        .filter((f) => selected.has(f.properties.shapeID))
+        .map((f) => f.properties.shapeName)
+        .sort((a, b) => a.localeCompare(b)),
+      metrics: regionMetrics(selectedAreaIds, areaMetrics),
+    };
   }, [
-    selectedState,
-    filteredGeoJsonData,
-    combinedMetricData,
-    mockNonPMMSYData,
-    mockPMMSYData,
-    selectedScheme,
-    selectedBarChartCategory,
-    selectedGender,
-    selectedYear,
-    selectedSectorPMMSY,
-    selectedFinancialYearPMMSY,
-    selectedMetric,
+    polygonData,
+    villageAreas,
+    regionSelection,
+    selectedAreaIds,
+    areaMetrics,
   ]);
 
+  // A drawn shape replaces the region's areas, a shift-click toggles one;
+  // editing a saved region keeps its name so saving updates it
+  const handleAreasSelect = (shapeIDs: string[], mode: AreaSelectionMode) => {
+    setSelectionTool(null);
+    setSelectedAreaDetails(null);
+    setRegionSelection((prev) => {
+      const current = prev && prev.level === mapView ? prev : null;
+      return {
+        name: current?.name ?? null,
+        level: mapView,
+        areaIds: applyAreaSelection(current?.areaIds ?? [], shapeIDs, mode),
+      };
+    });
+  };
+
+  const handleRegionSave = (name: string) => {
+    if (!regionSelection) return;
+    const next = upsertRegion(savedRegions, {
+      name,
+      level: regionSelection.level,
+      areaIds: selectedAreaIds,
+    });
+    setSavedRegions(next);
+    saveRegions(next);
+    setRegionSelection({ ...regionSelection, name });
+  };
+
+  const handleRegionDelete = (name: string) => {
+    const next = savedRegions.filter((region) => region.name !== name);
+    setSavedRegions(next);
+    saveRegions(next);
+    setRegionSelection((prev) => prev && { ...prev, name: null });
+  };
+
+  // Show a saved region on the India map at its level
+  const handleRegionLoad = (name: string) => {
+    const region = savedRegions.find((saved) => saved.name === name);
+    if (!region) return;
+    setDrillPath([]);
+    setMapView(region.level);
+    setSelectedAreaDetails(null);
+    setRegionSelection({ ...region });
+  };
+
   // Scheme Selection View
   const SchemeSelectionView = () => {
     if (!schemeTotals) {
@@ -1746,7 +2191,7 @@ const App: React.FC = () => {
                         <p className="text-2xl font-bold text-white mt-2">
                           {formatMetricValue(
                             "totalInvestment",
-                            globalPMMSYMetrics.totalInvestment
+                            schemeTotals.PMMSY
                           )}
                         </p>
                         <p className="text-sm text-white/80 mt-1">
@@ -1791,7 +2236,7 @@ const App: React.FC = () => {
     );
   }
 
-  if (!polygonData || !metricData) {
+  if (!polygonData || !areaMetrics) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
         <div className="bg-white p-8 rounded-lg shadow-lg">
@@ -1827,6 +2272,41 @@ const App: React.FC = () => {
                   Back to Schemes
                 </button>
               )}
+              {selectedScheme === "PMMSY" && (
+                <button
+                  onClick={() => setIsImporterOpen(true)}
+                  className="flex items-center gap-1 bg-blue-600 hover:bg-blue-700 text-white font-bold py-1 px-3 rounded-full text-sm"
+                >
+                  <Upload className="w-4 h-4" />
+                  Import Data
+                </button>
+              )}
+              {selectedScheme === "PMMSY" && (
+                <button
+                  onClick={() => setIsDataQualityOpen(true)}
+                  className="flex items-center gap-1 bg-amber-500 hover:bg-amber-600 text-white font-bold py-1 px-3 rounded-full text-sm"
+                >
+                  <ShieldCheck className="w-4 h-4" />
+                  Data Quality
+                </button>
+              )}
+              {selectedScheme === "PMMSY" && (
+                <button
+                  onClick={() => setIsPlaceReviewOpen(true)}
+                  className="flex items-center gap-1 bg-teal-600 hover:bg-teal-700 text-white font-bold py-1 px-3 rounded-full text-sm"
+                >
+                  <MapPinned className="w-4 h-4" />
+                  Place Names
+                  {!!aggregationSummary?.placeReview.length && (
+                    <span className="ml-1 px-1.5 rounded-full bg-white text-teal-700 text-xs">
+                      {aggregationSummary.placeReview.length}
+                    </span>
+                  )}
+                </button>
+              )}
+              {selectedScheme && (
+                <PlaceSearch index={placeIndex} onSelect={handlePlaceSelect} />
+              )}
             </div>
             {selectedScheme && (
               <div className="absolute left-1/2 transform -translate-x-1/2 flex items-center gap-x-2">
@@ -1871,7 +2351,7 @@ const App: React.FC = () => {
                 <button
                   onClick={() => {
                     setMapView("state");
-                    setSelectedState(null);
+                    setDrillPath([]);
                   }}
                   className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
                     mapView === "state"
@@ -1901,6 +2381,104 @@ const App: React.FC = () => {
                 >
                   Sub-District View
                 </button>
+                <button
+                  onClick={() => setMapView("village")}
+                  className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                    mapView === "village"
+                      ? "bg-blue-600 text-white shadow-md"
+                      : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                  }`}
+                >
+                  Village View
+                </button>
+                {selectedScheme === "PMMSY" && (
+                  <>
+                    <button
+                      onClick={() => setShowBeneficiaries((prev) => !prev)}
+                      className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                        showBeneficiaries
+                          ? "bg-teal-600 text-white shadow-md"
+                          : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                      }`}
+                    >
+                      Beneficiaries
+                    </button>
+                    <button
+                      onClick={() =>
+                        setMapRenderMode((prev) =>
+                          prev === "heatmap" ? "choropleth" : "heatmap"
+                        )
+                      }
+                      className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                        mapRenderMode === "heatmap"
+                          ? "bg-teal-600 text-white shadow-md"
+                          : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                      }`}
+                    >
+                      Heatmap
+                    </button>
+                  </>
+                )}
+                <button
+                  onClick={() =>
+                    setMapRenderMode((prev) =>
+                      prev === "bivariate" ? "choropleth" : "bivariate"
+                    )
+                  }
+                  className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                    mapRenderMode === "bivariate"
+                      ? "bg-teal-600 text-white shadow-md"
+                      : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                  }`}
+                >
+                  Bivariate
+                </button>
+                <button
+                  onClick={() => setShowSymbols((prev) => !prev)}
+                  className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                    showSymbols
+                      ? "bg-teal-600 text-white shadow-md"
+                      : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                  }`}
+                >
+                  Circles
+                </button>
+                <button
+                  onClick={() => {
+                    if (!comparisonLayout) {
+                      // B starts from the current filters
+                      setComparisonFilters({
+                        period: fiscalYearOf(effectivePeriod),
+                        pmmsySector: selectedSectorPMMSY,
+                        gender: selectedGender,
+                      });
+                      setComparisonMetrics(null);
+                    }
+                    setComparisonLayout((prev) => (prev ? null : "swipe"));
+                  }}
+                  className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                    comparisonLayout
+                      ? "bg-teal-600 text-white shadow-md"
+                      : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                  }`}
+                >
+                  Compare
+                </button>
+                {showBeneficiaries && (
+                  <select
+                    aria-label="Colour beneficiaries by"
+                    value={beneficiaryColorField}
+                    onChange={(e) =>
+                      setBeneficiaryColorField(
+                        e.target.value as BeneficiaryColorField
+                      )
+                    }
+                    className="p-1 bg-gray-50 border border-gray-300 rounded-md text-xs sm:text-sm"
+                  >
+                    <option value="activity">By Activity</option>
+                    <option value="sector">By Sector</option>
+                  </select>
+                )}
               </div>
             )}
           </div>
@@ -1919,14 +2497,13 @@ const App: React.FC = () => {
               selectedScheme={selectedScheme}
               selectedGender={selectedGender}
               setSelectedGender={setSelectedGender}
-              selectedYear={selectedYear}
-              setSelectedYear={setSelectedYear}
+              selectedPeriod={effectivePeriod}
+              setSelectedPeriod={setSelectedPeriod}
+              fiscalYears={activePeriods.fiscalYears}
+              periodGranularity={activePeriods.granularity}
               selectedSectorPMMSY={selectedSectorPMMSY}
               setSelectedSectorPMMSY={setSelectedSectorPMMSY}
-              selectedFinancialYearPMMSY={selectedFinancialYearPMMSY}
-              setSelectedFinancialYearPMMSY={setSelectedFinancialYearPMMSY}
               pmmsySectors={pmmsySectors}
-              pmmsyFinancialYears={pmmsyFinancialYears}
               globalPMMSYMetrics={globalPMMSYMetrics}
               kpis={kpis}
               formatMetricValue={formatMetricValue}
@@ -1935,236 +2512,568 @@ const App: React.FC = () => {
 
             {/* Main Content */}
             <div className="grid grid-cols-5 gap-2">
-              <div className="col-span-3 bg-white/80 backdrop-blur-md rounded-2xl shadow-lg border border-white/20 transition-all duration-300 relative">
-                {selectedState ? (
-                  <div className="p-2 space-y-2">
-                    <div className="relative flex justify-center items-center w-full">
-                      <button
-                        onClick={handleBack}
-                        className="absolute left-0 top--5 m-4 px-4 py-2 bg-gradient-to-r from-indigo-500 to-purple-600 text-white rounded-lg shadow-md hover:shadow-lg hover:scale-105 transition transform duration-200 ease-in-out flex items-center justify-center"
-                      >
-                        <Undo2 className="h-5 w-5" />
-                        <span className="sr-only">Back to National View</span>
-                      </button>
-                      <h2 className="text-6xl font-bold text-gray-600 bg-clip-text ">
-                        {drilledAreaDetails.name}
-                      </h2>
-                    </div>
-                    {drilledAreaDetails && (
-                      <div className="flex gap-2">
-                        {/* Left side: Data */}
-                        <div className="flex-1 bg-white p-2 rounded-2xl shadow-lg border border-gray-100">
-                          {selectedScheme === "PMMSY" ? (
-                            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-                              {[
-                                {
-                                  label: "Total Projects",
-                                  value:
-                                    drilledAreaDetails.pmmsyMetrics
-                                      .totalProjects,
-                                  key: "totalProjects",
-                                },
-                                {
-                                  label: "Total Investment",
-                                  value:
-                                    drilledAreaDetails.pmmsyMetrics
-                                      .totalInvestment,
-                                  key: "totalInvestment",
-                                },
-                                {
-                                  label: "Central Investment",
-                                  value:
-                                    drilledAreaDetails.metrics
-                                      .centralShareAllocated,
-                                  key: "centralInvestment",
-                                },
-                                {
-                                  label: "Fish Output",
-                                  value:
-                                    drilledAreaDetails.pmmsyMetrics.fishOutput,
-                                  key: "fishOutput",
-                                },
-                                {
-                                  label: "Total Employment Generated",
-                                  value:
-                                    drilledAreaDetails.pmmsyMetrics
-                                      .totalEmploymentGenerated,
-                                  key: "totalProjects",
-                                },
-                                {
-                                  label: "Direct Employment (Men)",
-                                  value:
-                                    drilledAreaDetails.pmmsyMetrics
-                                      .directEmploymentMen,
-                                  key: "totalProjects",
-                                },
-                                {
-                                  label: "Direct Employment (Women)",
-                                  value:
-                                    drilledAreaDetails.pmmsyMetrics
-                                      .directEmploymentWomen,
-                                  key: "totalProjects",
-                                },
-                                {
-                                  label: "Indirect Employment (Men)",
-                                  value:
-                                    drilledAreaDetails.pmmsyMetrics
-                                      .indirectEmploymentMen,
-                                  key: "totalProjects",
-                                },
-                                {
-                                  label: "Indirect Employment (Women)",
-                                  value:
-                                    drilledAreaDetails.pmmsyMetrics
-                                      .indirectEmploymentWomen,
-                                  key: "totalProjects",
-                                },
-                              ].map((item, idx) => (
-                                <div
-                                  key={idx}
-                                  className="bg-gradient-to-tr from-blue-50 to-indigo-50 rounded-xl p-4 shadow-sm hover:shadow-md transition"
-                                >
-                                  <p className="text-sm font-medium text-gray-600">
-                                    {item.label}
-                                  </p>
-                                  <p className="mt-1 text-lg font-semibold text-gray-900">
-                                    {formatMetricValue(item.key, item.value)}
-                                  </p>
-                                </div>
-                              ))}
-                            </div>
-                          ) : (
-                            <div className="grid grid-cols-2 md:grid-cols-3 gap-6">
-                              {[
-                                {
-                                  label: "Total Funds Allocated",
-                                  value: drilledAreaDetails.metrics.funds,
-                                  key: "funds",
-                                },
-                                {
-                                  label: "Funds Utilized",
-                                  value: drilledAreaDetails.metrics.funds_used,
-                                  key: "funds_used",
-                                },
-                                {
-                                  label: "Total Beneficiaries",
-                                  value:
-                                    drilledAreaDetails.metrics.beneficiaries,
-                                  key: "beneficiaries",
-                                },
-                                {
-                                  label: "New Beneficiaries (Last 24h)",
-                                  value:
-                                    drilledAreaDetails.metrics
-                                      .beneficiaries_last_24h,
-                                  key: "beneficiaries_last_24h",
-                                },
-                                {
-                                  label: "Total Registrations",
-                                  value:
-                                    drilledAreaDetails.metrics.registrations,
-                                  key: "registrations",
-                                },
-                                {
-                                  label: "New Registrations (Last 24h)",
-                                  value:
-                                    drilledAreaDetails.metrics
-                                      .registrations_last_24h,
-                                  key: "registrations_last_24h",
-                                },
-                              ].map((item, idx) => (
-                                <div
-                                  key={idx}
-                                  className="bg-gradient-to-tr from-green-50 to-emerald-50 rounded-xl p-4 shadow-sm hover:shadow-md transition"
-                                >
-                                  <p className="text-sm font-medium text-gray-600">
-                                    {item.label}
-                                  </p>
-                                  <p className="mt-1 text-lg font-semibold text-gray-900">
-                                    {formatMetricValue(item.key, item.value)}
-                                  </p>
-                                </div>
-                              ))}
+              <div className="col-span-3 bg-white/80 backdrop-blur-md rounded-2xl shadow-lg border border-white/20 transition-all duration-300 flex flex-col">
+                <div className="relative flex-1">
+                  {selectedState ? (
+                    <div className="p-2 space-y-2">
+                      <div className="relative flex justify-center items-center w-full">
+                        <button
+                          onClick={handleBack}
+                          className="absolute left-0 top--5 m-4 px-4 py-2 bg-gradient-to-r from-indigo-500 to-purple-600 text-white rounded-lg shadow-md hover:shadow-lg hover:scale-105 transition transform duration-200 ease-in-out flex items-center justify-center"
+                        >
+                          <Undo2 className="h-5 w-5" />
+                          <span className="sr-only">Back</span>
+                        </button>
+                        <DrillBreadcrumb
+                          path={drillPath.map((drilled) => drilled.name)}
+                          onNavigate={handleBreadcrumbNavigate}
+                        />
+                      </div>
+                      {drilledAreaDetails && (
+                        <div className="flex gap-2">
+                          {/* Left side: Data */}
+                          <div className="flex-1 bg-white p-2 rounded-2xl shadow-lg border border-gray-100">
+                            {selectedScheme === "PMMSY" ? (
+                              <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                                {[
+                                  {
+                                    label: "Total Projects",
+                                    value:
+                                      drilledAreaDetails.pmmsyMetrics
+                                        ?.totalProjects,
+                                    key: "totalProjects",
+                                  },
+                                  {
+                                    label: "Total Investment",
+                                    value:
+                                      drilledAreaDetails.pmmsyMetrics
+                                        ?.totalInvestment,
+                                    key: "totalInvestment",
+                                  },
+                                  {
+                                    label: "Central Investment",
+                                    value:
+                                      drilledAreaDetails.metrics
+                                        ?.centralShareAllocated,
+                                    key: "centralInvestment",
+                                  },
+                                  {
+                                    label: "Fish Output",
+                                    value:
+                                      drilledAreaDetails.pmmsyMetrics
+                                        ?.fishOutput,
+                                    key: "fishOutput",
+                                  },
+                                  {
+                                    label: "Total Employment Generated",
+                                    value:
+                                      drilledAreaDetails.pmmsyMetrics
+                                        ?.totalEmploymentGenerated,
+                                    key: "totalProjects",
+                                  },
+                                  {
+                                    label: "Direct Employment (Men)",
+                                    value:
+                                      drilledAreaDetails.pmmsyMetrics
+                                        ?.directEmploymentMen,
+                                    key: "totalProjects",
+                                  },
+                                  {
+                                    label: "Direct Employment (Women)",
+                                    value:
+                                      drilledAreaDetails.pmmsyMetrics
+                                        ?.directEmploymentWomen,
+                                    key: "totalProjects",
+                                  },
+                                  {
+                                    label: "Indirect Employment (Men)",
+                                    value:
+                                      drilledAreaDetails.pmmsyMetrics
+                                        ?.indirectEmploymentMen,
+                                    key: "totalProjects",
+                                  },
+                                  {
+                                    label: "Indirect Employment (Women)",
+                                    value:
+                                      drilledAreaDetails.pmmsyMetrics
+                                        ?.indirectEmploymentWomen,
+                                    key: "totalProjects",
+                                  },
+                                ].map((item, idx) => (
+                                  <div
+                                    key={idx}
+                                    className="bg-gradient-to-tr from-blue-50 to-indigo-50 rounded-xl p-4 shadow-sm hover:shadow-md transition"
+                                  >
+                                    <p className="text-sm font-medium text-gray-600">
+                                      {item.label}
+                                    </p>
+                                    <p className="mt-1 text-lg font-semibold text-gray-900">
+                                      {formatMetricValue(
+                                        item.key,
+                                        item.value ?? 0
+                                      )}
+                                    </p>
+                                  </div>
+                                ))}
+                              </div>
+                            ) : (
+                              <div className="grid grid-cols-2 md:grid-cols-3 gap-6">
+                                {[
+                                  {
+                                    label: "Total Funds Allocated",
+                                    value: drilledAreaDetails.metrics?.funds,
+                                    key: "funds",
+                                  },
+                                  {
+                                    label: "Funds Utilized",
+                                    value:
+                                      drilledAreaDetails.metrics?.funds_used,
+                                    key: "funds_used",
+                                  },
+                                  {
+                                    label: "Total Beneficiaries",
+                                    value:
+                                      drilledAreaDetails.metrics?.beneficiaries,
+                                    key: "beneficiaries",
+                                  },
+                                  {
+                                    label: "New Beneficiaries (Last 24h)",
+                                    value:
+                                      drilledAreaDetails.metrics
+                                        ?.beneficiaries_last_24h,
+                                    key: "beneficiaries_last_24h",
+                                  },
+                                  {
+                                    label: "Total Registrations",
+                                    value:
+                                      drilledAreaDetails.metrics?.registrations,
+                                    key: "registrations",
+                                  },
+                                  {
+                                    label: "New Registrations (Last 24h)",
+                                    value:
+                                      drilledAreaDetails.metrics
+                                        ?.registrations_last_24h,
+                                    key: "registrations_last_24h",
+                                  },
+                                ].map((item, idx) => (
+                                  <div
+                                    key={idx}
+                                    className="bg-gradient-to-tr from-green-50 to-emerald-50 rounded-xl p-4 shadow-sm hover:shadow-md transition"
+                                  >
+                                    <p className="text-sm font-medium text-gray-600">
+                                      {item.label}
+                                    </p>
+                                    <p className="mt-1 text-lg font-semibold text-gray-900">
+                                      {formatMetricValue(
+                                        item.key,
+                                        item.value ?? 0
+                                      )}
+                                    </p>
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+
+                          {/* Right side: map one level below the drilled area */}
+                          {drilledMap && (
+                            <div className="flex-1 bg-white shadow rounded-lg relative">
+                              <OpenLayersMap
+                                geoJsonData={drilledMap.data}
+                                areaMetrics={areaMetrics}
+                                selectedMetric={selectedMetric}
+                                getColor={getDrilledMapColor}
+                                formatMetricValue={formatMetricValue}
+                                getFullMetricName={getFullMetricName}
+                                officerNames={officerNames}
+                                onAreaClick={handleAreaClick}
+                                onDrillDown={handleDrillDown}
+                                mapView={drilledMap.level}
+                                isDrilledDown={!!selectedState}
+                                center={stateSource?.center}
+                                zoom={stateSource?.zoom}
+                                beneficiaryPoints={
+                                  showBeneficiaries ? beneficiaryPoints : null
+                                }
+                                beneficiaryColorField={beneficiaryColorField}
+                                beneficiaryColors={beneficiaryColors}
+                                onBeneficiaryClick={setSelectedBeneficiaries}
+                                renderMode={mapRenderMode}
+                                heatmapPoints={beneficiaryPoints}
+                                heatmapSettings={heatmapSettings}
+                                isolatedClass={isolatedMapClass}
+                                onAreaHover={setHoveredArea}
+                                getBivariateColor={getDrilledMapBivariateColor}
+                                symbolMetric={showSymbols ? symbolMetric : null}
+                                symbolMaxValue={drilledMapSymbolMax}
+                                basemap={basemapSettings}
+                                highlightedAreaId={hoveredArea?.shapeID ?? null}
+                                selectedAreaId={selectedAreaId}
+                              />
+                              {mapRenderMode === "choropleth" &&
+                                renderMapLegend(
+                                  drilledMapClasses,
+                                  drilledMapClassCounts
+                                )}
+                              {mapRenderMode === "bivariate" &&
+                                drilledMapBivariate &&
+                                renderBivariateLegend(drilledMapBivariate.counts)}
+                              {showSymbols &&
+                                renderSymbolLegend(drilledMapSymbolMax)}
                             </div>
                           )}
                         </div>
-
-                        {/* Right side: Bihar Map if Bihar selected */}
-                        {selectedState === "Bihar" && biharGeoJson && (
-                          <div className="flex-1 bg-white shadow rounded-lg">
-                            <OpenLayersMap
-                              geoJsonData={
-                                selectedState === "Bihar" && biharGeoJson
-                                  ? biharGeoJson
-                                  : filteredGeoJsonData
-                              }
-                              metricData={metricData}
-                              selectedMetric={selectedMetric}
-                              demographicKey={demographicKey}
-                              getColor={getBiharColor}
-                              formatMetricValue={formatMetricValue}
-                              getFullMetricName={getFullMetricName}
-                              officerNames={officerNames}
-                              onAreaClick={handleAreaClick}
-                              onDrillDown={handleDrillDown}
-                              mapView={
-                                selectedState === "Bihar" ? "district" : mapView
-                              }
-                              isDrilledDown={!!selectedState}
-                              center={[85.5, 25.5]} // longitude, latitude (center of Bihar)
-                              zoom={12}
-                            />
-                          </div>
+                      )}
+                      {stateDistrictData && drillPath.length === 1 && (
+                        <div>
+                          <StateDistrictTable
+                            districtGeoJson={stateDistrictData}
+                            areaMetrics={areaMetrics}
+                            formatMetricValue={formatMetricValue}
+                            highlightedAreaId={hoveredArea?.shapeID ?? null}
+                            selectedAreaId={selectedAreaId}
+                            onAreaHover={handleLinkedAreaHover}
+                            onAreaClick={handleLinkedAreaClick}
+                          />
+                        </div>
+                      )}
+                    </div>
+                  ) : comparisonLayout ? (
+                    <div className="flex flex-col h-full">
+                      <div className="flex flex-wrap items-center gap-2 px-3 py-2 border-b border-gray-200 text-xs text-gray-700">
+                        <select
+                          aria-label="Comparison layout"
+                          value={comparisonLayout}
+                          onChange={(e) =>
+                            setComparisonLayout(
+                              e.target.value as ComparisonLayout
+                            )
+                          }
+                          className="p-1 bg-gray-50 border border-gray-300 rounded-md text-xs"
+                        >
+                          <option value="swipe">Swipe</option>
+                          <option value="side-by-side">Side by Side</option>
+                        </select>
+                        <span className="font-semibold">B:</span>
+                        <select
+                          aria-label="Comparison period"
+                          value={comparisonFilters.period}
+                          onChange={(e) =>
+                            setComparisonFilters((prev) => ({
+                              ...prev,
+                              period: e.target.value,
+                            }))
+                          }
+                          className="p-1 bg-gray-50 border border-gray-300 rounded-md text-xs"
+                        >
+                          {["all", ...activePeriods.fiscalYears].map(
+                            (period) => (
+                              <option key={period} value={period}>
+                                {fiscalPeriodLabel(period)}
+                              </option>
+                            )
+                          )}
+                        </select>
+                        {selectedScheme === "PMMSY" ? (
+                          <select
+                            aria-label="Comparison sector"
+                            value={comparisonFilters.pmmsySector}
+                            onChange={(e) =>
+                              setComparisonFilters((prev) => ({
+                                ...prev,
+                                pmmsySector: e.target.value,
+                              }))
+                            }
+                            className="p-1 bg-gray-50 border border-gray-300 rounded-md text-xs"
+                          >
+                            {pmmsySectors.map((sector) => (
+                              <option key={sector} value={sector}>
+                                {sector === "all" ? "All Sectors" : sector}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          <select
+                            aria-label="Comparison gender"
+                            value={comparisonFilters.gender}
+                            onChange={(e) =>
+                              setComparisonFilters((prev) => ({
+                                ...prev,
+                                gender: e.target.value as GenderKey,
+                              }))
+                            }
+                            className="p-1 bg-gray-50 border border-gray-300 rounded-md text-xs"
+                          >
+                            <option value="all">All Genders</option>
+                            <option value="male">Male</option>
+                            <option value="female">Female</option>
+                            <option value="transgender">Transgender</option>
+                          </select>
                         )}
+                        <label className="flex items-center gap-1">
+                          <input
+                            type="checkbox"
+                            checked={showDifference}
+                            onChange={(e) => setShowDifference(e.target.checked)}
+                          />
+                          Difference Map
+                        </label>
                       </div>
-                    )}
-                    {selectedState === "Bihar" && biharGeoJson && (
-                      <div>
-                        <BiharFullTable
-                          biharGeoJson={biharGeoJson}
-                          metricData={metricData}
-                          demographicKey={demographicKey}
-                          formatMetricValue={formatMetricValue}
+                      <div className="flex-1">
+                        <ComparisonMaps
+                          layout={comparisonLayout}
+                          mapProps={{
+                            geoJsonData: filteredGeoJsonData,
+                            areaMetrics,
+                            selectedMetric,
+                            getColor: getMapColor,
+                            formatMetricValue,
+                            getFullMetricName,
+                            officerNames,
+                            onAreaClick: handleAreaClick,
+                            onDrillDown: handleDrillDown,
+                            mapView,
+                            isDrilledDown: false,
+                            pinCodeGeoJson,
+                            isolatedClass: isolatedMapClass,
+                            onAreaHover: setHoveredArea,
+                            focusArea: mapFocus,
+                            basemap: basemapSettings,
+                            highlightedAreaId: hoveredArea?.shapeID ?? null,
+                            selectedAreaId,
+                          }}
+                          before={{
+                            label: comparisonLabel("A", {
+                              period: effectivePeriod,
+                              pmmsySector: selectedSectorPMMSY,
+                              gender: selectedGender,
+                            }),
+                            mapProps: {},
+                            legend: renderMapLegend(mapClasses, mapClassCounts),
+                          }}
+                          // B is coloured with A's classes so the two read alike
+                          after={{
+                            label: comparisonLabel("B", comparisonFilters),
+                            mapProps: { areaMetrics: comparisonMetrics },
+                          }}
+                          difference={
+                            differenceMetrics && {
+                              label: "B − A",
+                              mapProps: {
+                                areaMetrics: differenceMetrics,
+                                getColor: getDifferenceColor,
+                                formatMetricValue: (metric, value) =>
+                                  (value > 0 ? "+" : value < 0 ? "−" : "") +
+                                  formatMetricValue(metric, Math.abs(value)),
+                                pinCodeGeoJson: null,
+                                isolatedClass: null,
+                                onAreaHover: undefined,
+                              },
+                              legend: (
+                                <MapLegend
+                                  title={`Change in ${getMetricDisplayName(
+                                    selectedMetric
+                                  )}`}
+                                  classes={differenceClasses}
+                                  counts={differenceClassCounts}
+                                  isolatedClass={null}
+                                  hoveredClass={null}
+                                />
+                              ),
+                            }
+                          }
                         />
                       </div>
-                    )}
-                  </div>
-                ) : (
-                  <OpenLayersMap
-                    geoJsonData={filteredGeoJsonData}
-                    metricData={metricData}
-                    selectedMetric={selectedMetric}
-                    demographicKey={demographicKey}
-                    getColor={getColor}
-                    formatMetricValue={formatMetricValue}
-                    getFullMetricName={getFullMetricName}
-                    officerNames={officerNames}
-                    onAreaClick={handleAreaClick}
-                    onDrillDown={handleDrillDown}
-                    mapView={mapView}
-                    isDrilledDown={!!selectedState}
-                  />
-                )}
-                {!selectedState && (
-                  <div className="absolute bottom-4 left-4 bg-white/90 p-3 rounded-lg shadow-md border border-gray-200">
-                    <h4 className="text-sm font-semibold mb-2 text-gray-800">
-                      {getMetricDisplayName(selectedMetric)} Legend
-                    </h4>
-                    <div className="space-y-1">
-                      {brackets[selectedMetric].map((bracket, index) => (
-                        <div key={index} className="flex items-center">
-                          <div
-                            className="w-4 h-4 mr-2 rounded-sm"
-                            style={{ backgroundColor: bracket.color }}
-                          ></div>
-                          <span className="text-xs text-gray-700">
-                            {bracket.label}
+                    </div>
+                  ) : (
+                    <OpenLayersMap
+                      geoJsonData={filteredGeoJsonData}
+                      areaMetrics={areaMetrics}
+                      selectedMetric={selectedMetric}
+                      getColor={getMapColor}
+                      formatMetricValue={formatMetricValue}
+                      getFullMetricName={getFullMetricName}
+                      officerNames={officerNames}
+                      onAreaClick={handleAreaClick}
+                      onDrillDown={handleDrillDown}
+                      mapView={mapView}
+                      isDrilledDown={!!selectedState}
+                      pinCodeGeoJson={pinCodeGeoJson}
+                      beneficiaryPoints={
+                        showBeneficiaries ? beneficiaryPoints : null
+                      }
+                      beneficiaryColorField={beneficiaryColorField}
+                      beneficiaryColors={beneficiaryColors}
+                      onBeneficiaryClick={setSelectedBeneficiaries}
+                      renderMode={mapRenderMode}
+                      heatmapPoints={beneficiaryPoints}
+                      heatmapSettings={heatmapSettings}
+                      isolatedClass={isolatedMapClass}
+                      onAreaHover={setHoveredArea}
+                      getBivariateColor={getMapBivariateColor}
+                      symbolMetric={showSymbols ? symbolMetric : null}
+                      symbolMaxValue={mapSymbolMax}
+                      focusArea={mapFocus}
+                      selectionTool={selectionTool}
+                      selectedAreaIds={selectedAreaIds}
+                      onAreasSelect={handleAreasSelect}
+                      exportDetails={mapExportDetails}
+                      basemap={basemapSettings}
+                      onBasemapChange={setBasemapSettings}
+                      highlightedAreaId={hoveredArea?.shapeID ?? null}
+                      selectedAreaId={selectedAreaId}
+                    />
+                  )}
+                  {!comparisonLayout && (
+                    <div className="absolute top-4 left-1/2 -translate-x-1/2 flex items-center gap-1 bg-white/90 p-1.5 rounded-lg shadow-md border border-gray-200 text-xs">
+                      {(
+                        [
+                          { tool: "polygon", label: "Lasso", Icon: Lasso },
+                          { tool: "box", label: "Box", Icon: SquareDashed },
+                        ] as const
+                      ).map(({ tool, label, Icon }) => (
+                        <button
+                          key={tool}
+                          onClick={() =>
+                            setSelectionTool((prev) =>
+                              prev === tool ? null : tool
+                            )
+                          }
+                          title={`Select areas with a ${label.toLowerCase()}; shift-click adds or removes one`}
+                          className={`flex items-center gap-1 px-2 py-1 rounded-md font-medium transition-colors ${
+                            selectionTool === tool
+                              ? "bg-teal-600 text-white shadow-md"
+                              : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                          }`}
+                        >
+                          <Icon className="w-3.5 h-3.5" />
+                          {label}
+                        </button>
+                      ))}
+                      {savedRegions.length > 0 && (
+                        <select
+                          aria-label="Saved regions"
+                          value=""
+                          onChange={(e) => handleRegionLoad(e.target.value)}
+                          className="p-1 bg-gray-50 border border-gray-300 rounded-md text-xs"
+                        >
+                          <option value="" disabled>
+                            Saved regions
+                          </option>
+                          {savedRegions.map((region) => (
+                            <option key={region.name} value={region.name}>
+                              {region.name}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                    </div>
+                  )}
+                  {mapRenderMode === "heatmap" && !isComparing && (
+                    <div className="absolute bottom-4 left-4 bg-white/90 p-3 rounded-lg shadow-md border border-gray-200 space-y-2 w-56">
+                      <h4 className="text-sm font-semibold text-gray-800">
+                        Beneficiary Density
+                      </h4>
+                      <select
+                        aria-label="Heatmap weight"
+                        value={heatmapSettings.weight}
+                        onChange={(e) =>
+                          setHeatmapSettings((prev) => ({
+                            ...prev,
+                            weight: e.target.value as HeatmapWeight,
+                          }))
+                        }
+                        className="w-full p-1 bg-gray-50 border border-gray-300 rounded-md text-xs"
+                      >
+                        <option value="totalProjects">Project Count</option>
+                        <option value="totalInvestment">Total Investment</option>
+                        <option value="fishOutput">Fish Output</option>
+                      </select>
+                      {(["radius", "blur"] as const).map((setting) => (
+                        <label
+                          key={setting}
+                          className="flex items-center gap-2 text-xs text-gray-700"
+                        >
+                          <span className="w-10 capitalize">{setting}</span>
+                          <input
+                            type="range"
+                            min={2}
+                            max={50}
+                            value={heatmapSettings[setting]}
+                            onChange={(e) =>
+                              setHeatmapSettings((prev) => ({
+                                ...prev,
+                                [setting]: Number(e.target.value),
+                              }))
+                            }
+                            className="flex-1"
+                          />
+                          <span className="w-6 text-right">
+                            {heatmapSettings[setting]}
                           </span>
-                        </div>
+                        </label>
                       ))}
+                      <div>
+                        {/* OpenLayers' default heatmap gradient */}
+                        <div
+                          className="h-2 rounded-full"
+                          style={{
+                            background:
+                              "linear-gradient(to right, #00f, #0ff, #0f0, #ff0, #f00)",
+                          }}
+                        />
+                        <div className="flex justify-between text-xs text-gray-500">
+                          <span>Low</span>
+                          <span>High</span>
+                        </div>
+                      </div>
                     </div>
-                  </div>
-                )}
+                  )}
+                  {showBeneficiaries && beneficiaryPoints && !isComparing && (
+                    <div className="absolute top-4 right-4 bg-white/90 p-3 rounded-lg shadow-md border border-gray-200">
+                      <h4 className="text-sm font-semibold mb-2 text-gray-800">
+                        {beneficiaryPoints.length.toLocaleString()} Beneficiaries
+                      </h4>
+                      <div className="space-y-1">
+                        {Object.entries(beneficiaryColors).map(
+                          ([category, color]) => (
+                            <div key={category} className="flex items-center">
+                              <div
+                                className="w-3 h-3 mr-2 rounded-full"
+                                style={{ backgroundColor: color }}
+                              ></div>
+                              <span className="text-xs text-gray-700">
+                                {category}
+                              </span>
+                            </div>
+                          )
+                        )}
+                      </div>
+                    </div>
+                  )}
+                  {!selectedState &&
+                    !comparisonLayout &&
+                    mapRenderMode === "choropleth" &&
+                    renderMapLegend(mapClasses, mapClassCounts)}
+                  {!selectedState &&
+                    !comparisonLayout &&
+                    mapRenderMode === "bivariate" &&
+                    mapBivariate &&
+                    renderBivariateLegend(mapBivariate.counts)}
+                  {!selectedState &&
+                    !comparisonLayout &&
+                    showSymbols &&
+                    renderSymbolLegend(mapSymbolMax)}
+                </div>
+                {/* Financial years, stepped through by hand or played */}
+                <TimelineControl
+                  fiscalYears={activePeriods.fiscalYears}
+                  selectedPeriod={effectivePeriod}
+                  onSelectPeriod={setSelectedPeriod}
+                  cumulative={cumulativePeriods}
+                  onCumulativeChange={setCumulativePeriods}
+                />
               </div>
               <div
                 className={`${
@@ -2173,12 +3082,15 @@ const App: React.FC = () => {
                   selectedAreaDetails ? "block" : "hidden"
                 } lg:block`}
               >
+                <CrossFilterChips
+                  chips={crossFilterChips}
+                  onClearAll={handleClearCrossFilters}
+                />
                 {selectedScheme === "PMMSY" ? (
                   <>
                     <div className="flex flex-row gap-2">
                       <div className="flex-1">
-                        {selectedScheme === "PMMSY" &&
-                        selectedState === "Bihar" ? (
+                        {selectedScheme === "PMMSY" && stateDistrictData ? (
                           (console.log(
                             "Rendering ProductionSaleChart with:",
                             drilledAreaDetails
@@ -2200,6 +3112,12 @@ const App: React.FC = () => {
                               globalPMMSYMetrics.sectorDistribution
                             }
                             getColor={getColor}
+                            activeSlice={
+                              selectedSectorPMMSY === "all"
+                                ? null
+                                : selectedSectorPMMSY
+                            }
+                            onSliceClick={handleSectorSliceClick}
                           />
                         )}
                       </div>
@@ -2219,7 +3137,7 @@ const App: React.FC = () => {
                         />
                       </div>
                     </div>
-                    {selectedScheme === "PMMSY" && selectedState === "Bihar" ? (
+                    {selectedScheme === "PMMSY" && stateDistrictData ? (
                       <div className="flex flex-row gap-2">
                         <div className="flex-1">
                           <CentralShareChart
@@ -2248,9 +3166,9 @@ const App: React.FC = () => {
                       </div>
                     ) : (
                       <TopAreasBarChart
-                        barChartData={pmmsyBarData.data}
-                        barChartKeys={pmmsyBarData.keys}
-                        barChartDisplayNamesMap={pmmsyBarData.displayNamesMap}
+                        barChartData={barData.data}
+                        barChartKeys={barData.keys}
+                        barChartDisplayNamesMap={barData.displayNamesMap}
                         selectedMetric={selectedMetric}
                         getColor={getColor}
                         formatMetricValue={formatMetricValue}
@@ -2260,6 +3178,11 @@ const App: React.FC = () => {
                           setSelectedBarChartCategory
                         }
                         selectedScheme={selectedScheme}
+                        highlightedAreaId={hoveredArea?.shapeID ?? null}
+                        selectedAreaId={selectedAreaId}
+                        onAreaHover={handleLinkedAreaHover}
+                        onAreaClick={handleLinkedAreaClick}
+                        onSeriesClick={handleBarSeriesClick}
                       />
                     )}
                   </>
@@ -2268,6 +3191,8 @@ const App: React.FC = () => {
                     <DistributionPieChart
                       pieData={pieData}
                       selectedMetric={selectedMetric}
+                      activeSlice={isolatedMapClass?.label ?? null}
+                      onSliceClick={handleBracketSliceClick}
                     />
                     <TopAreasBarChart
                       barChartData={barChartData}
@@ -2280,12 +3205,31 @@ const App: React.FC = () => {
                       selectedBarChartCategory={selectedBarChartCategory}
                       setSelectedBarChartCategory={setSelectedBarChartCategory}
                       selectedScheme={selectedScheme}
+                      highlightedAreaId={hoveredArea?.shapeID ?? null}
+                      selectedAreaId={selectedAreaId}
+                      onAreaHover={handleLinkedAreaHover}
+                      onAreaClick={handleLinkedAreaClick}
+                      onSeriesClick={handleBarSeriesClick}
                     />
                   </>
                 )}
               </div>
             </div>
 
+            {/* Totals of the custom region, under a clicked area's details */}
+            <RegionDetailsPopup
+              region={comparisonLayout ? null : regionDetails}
+              metricKeys={schemeMapMetrics}
+              getMetricDisplayName={getMetricDisplayName}
+              formatMetricValue={formatMetricValue}
+              onSave={handleRegionSave}
+              onDelete={handleRegionDelete}
+              onClose={() => {
+                setRegionSelection(null);
+                setSelectionTool(null);
+              }}
+            />
+
             {/* Area Details Popup */}
             <AreaDetailsPopup
               selectedAreaDetails={selectedAreaDetails}
@@ -2293,6 +3237,33 @@ const App: React.FC = () => {
               formatMetricValue={formatMetricValue}
               setSelectedAreaDetails={setSelectedAreaDetails}
             />
+
+            <BeneficiaryCard
+              records={selectedBeneficiaries}
+              formatMetricValue={formatMetricValue}
+              onClose={() => setSelectedBeneficiaries(null)}
+            />
+
+            <PMMSYImporter
+              isOpen={isImporterOpen}
+              onClose={() => setIsImporterOpen(false)}
+              onImport={handlePMMSYImport}
+            />
+
+            <DataQualityPanel
+              isOpen={isDataQualityOpen}
+              onClose={() => setIsDataQualityOpen(false)}
+              report={pmmsyDataQuality}
+            />
+
+            <PlaceReviewPanel
+              isOpen={isPlaceReviewOpen}
+              onClose={() => setIsPlaceReviewOpen(false)}
+              review={aggregationSummary?.placeReview || null}
+              aliases={placeAliases}
+              onSaveAlias={handleSavePlaceAlias}
+              onRemoveAlias={handleRemovePlaceAlias}
+            />
           </>
         )}
       </main>
@@ -69,6 +69,10 @@ const AreaDetailsPopup: React.FC<AreaDetailsPopupProps> = ({
                 ? "State"
                 : selectedAreaDetails.level === "district"
                 ? "District"
+                : selectedAreaDetails.level === "pincode"
+                ? "PIN Code"
+                : selectedAreaDetails.level === "village"
+                ? "Village"
                 : "Sub-District"}
             </span>
           </div>
@@ -0,0 +1,61 @@
+import React, { useState } from "react";
+import { Layers } from "lucide-react";
+import { basemapOptions } from "../data/basemaps";
+import type { BasemapSettings } from "../data/basemaps";
+
+interface BasemapSwitcherProps {
+  settings: BasemapSettings;
+  onChange: (settings: BasemapSettings) => void;
+}
+
+const BasemapSwitcher: React.FC<BasemapSwitcherProps> = ({
+  settings,
+  onChange,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="flex flex-col items-end gap-2">
+      {isOpen && (
+        <div className="bg-white/90 p-3 rounded-lg shadow-md border border-gray-200 w-52 space-y-2 text-xs text-gray-700">
+          <h4 className="text-sm font-semibold text-gray-800">Basemap</h4>
+          {basemapOptions.map((option) => (
+            <label key={option.key} className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="basemap"
+                checked={settings.key === option.key}
+                onChange={() => onChange({ ...settings, key: option.key })}
+              />
+              {option.label}
+            </label>
+          ))}
+          <label className="block">
+            Area opacity: {Math.round(settings.areaOpacity * 100)}%
+            <input
+              type="range"
+              min={0.1}
+              max={1}
+              step={0.05}
+              value={settings.areaOpacity}
+              onChange={(e) =>
+                onChange({ ...settings, areaOpacity: Number(e.target.value) })
+              }
+              className="w-full"
+            />
+          </label>
+        </div>
+      )}
+      <button
+        onClick={() => setIsOpen((prev) => !prev)}
+        aria-label="Basemap"
+        title="Basemap"
+        className="p-2 rounded-md bg-white shadow-md border border-gray-200 text-gray-700 hover:bg-gray-100"
+      >
+        <Layers className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default BasemapSwitcher;
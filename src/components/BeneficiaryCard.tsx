@@ -0,0 +1,86 @@
+import React from "react";
+import { X, MapPin, IndianRupee, Fish, Users } from "lucide-react";
+import type { PMMSYRecord } from "../data/pmmsyRecords";
+
+interface BeneficiaryCardProps {
+  // Records of the clicked marker; null when closed
+  records: PMMSYRecord[] | null;
+  formatMetricValue: (metric: string, value: number) => string;
+  onClose: () => void;
+}
+
+const BeneficiaryCard: React.FC<BeneficiaryCardProps> = ({
+  records,
+  formatMetricValue,
+  onClose,
+}) => {
+  return (
+    <div
+      className={`fixed right-0 top-0 h-full w-full sm:w-96 bg-white/95 backdrop-blur-lg shadow-2xl z-50 transform transition-transform duration-300 ${
+        records ? "translate-x-0" : "translate-x-full"
+      } flex flex-col p-2 px-4 border-l border-white/20 overflow-y-auto`}
+    >
+      <div className="flex justify-between items-center mb-1">
+        <h2 className="text-2xl font-bold text-gray-800">
+          {records && records.length > 1
+            ? `${records.length} Beneficiaries`
+            : "Beneficiary"}
+        </h2>
+        <button
+          onClick={onClose}
+          className="p-2 rounded-full bg-gray-100 hover:bg-gray-200 transition-colors text-gray-600"
+          aria-label="Close"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+      <div className="space-y-3">
+        {records?.map((record, idx) => (
+          <div
+            key={`${record.id}_${idx}`}
+            className="bg-gray-50 p-3 rounded-lg space-y-1 text-sm"
+          >
+            <p className="text-lg font-semibold text-gray-800">
+              {record.beneficiaryName || record.id || "Unnamed"}
+            </p>
+            <p className="flex items-center gap-2 text-gray-600">
+              <Users className="w-4 h-4 text-blue-600" />
+              {record.beneficiaryType || "-"} · {record.financialYear || "-"}
+            </p>
+            <p className="text-gray-700">
+              <strong className="font-semibold">Activity:</strong>{" "}
+              {record.activity || "-"}
+              {record.subActivity && ` (${record.subActivity})`}
+            </p>
+            <p className="text-gray-700">
+              <strong className="font-semibold">Sector:</strong>{" "}
+              {record.sector || "-"}
+            </p>
+            <p className="flex items-center gap-2 text-gray-600">
+              <MapPin className="w-4 h-4 text-blue-600" />
+              {[record.village, record.taluk, record.district, record.state]
+                .filter(Boolean)
+                .join(", ")}
+              {record.pinCode && ` - ${record.pinCode}`}
+            </p>
+            {record.totalCost !== null && (
+              <p className="flex items-center gap-2 text-gray-700">
+                <IndianRupee className="w-4 h-4 text-green-600" />
+                {formatMetricValue("totalInvestment", record.totalCost)}
+              </p>
+            )}
+            {record.totalOutput !== null && (
+              <p className="flex items-center gap-2 text-gray-700">
+                <Fish className="w-4 h-4 text-green-600" />
+                {formatMetricValue("fishOutput", record.totalOutput)}
+                {record.outputType && ` (${record.outputType})`}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BeneficiaryCard;
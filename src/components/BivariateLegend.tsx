@@ -0,0 +1,86 @@
+import React from "react";
+import type { MetricValues } from "../App";
+import { BIVARIATE_CLASSES, bivariateColors } from "../data/classification";
+
+type MetricKey = keyof MetricValues;
+
+interface BivariateLegendProps {
+  xMetric: MetricKey;
+  yMetric: MetricKey;
+  // Metrics either axis can show
+  metricOptions: MetricKey[];
+  getMetricDisplayName: (metric: string) => string;
+  onChange: (metrics: { x: MetricKey; y: MetricKey }) => void;
+  // Number of areas per class, [y][x]
+  counts: number[][];
+}
+
+const BivariateLegend: React.FC<BivariateLegendProps> = ({
+  xMetric,
+  yMetric,
+  metricOptions,
+  getMetricDisplayName,
+  onChange,
+  counts,
+}) => {
+  const metricSelect = (
+    label: string,
+    value: MetricKey,
+    select: (metric: MetricKey) => void
+  ) => (
+    <label className="flex items-center gap-2 text-xs text-gray-700">
+      <span className="w-4 font-semibold">{label}</span>
+      <select
+        value={value}
+        onChange={(e) => select(e.target.value as MetricKey)}
+        className="flex-1 p-1 bg-gray-50 border border-gray-300 rounded-md text-xs"
+      >
+        {metricOptions.map((metric) => (
+          <option key={metric} value={metric}>
+            {getMetricDisplayName(metric)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  // Highest class of the vertical metric on top
+  const rows = Array.from(
+    { length: BIVARIATE_CLASSES },
+    (_, idx) => BIVARIATE_CLASSES - 1 - idx
+  );
+
+  return (
+    <div className="absolute bottom-4 left-4 bg-white/90 p-3 rounded-lg shadow-md border border-gray-200 w-60 space-y-2">
+      <h4 className="text-sm font-semibold text-gray-800">Bivariate Legend</h4>
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-gray-500 [writing-mode:vertical-rl] rotate-180">
+          {getMetricDisplayName(yMetric)} →
+        </span>
+        <div>
+          <div className="grid grid-cols-3 gap-0.5">
+            {rows.map((y) =>
+              bivariateColors[y].map((color, x) => (
+                <div
+                  key={`${y}_${x}`}
+                  className="w-8 h-8 flex items-center justify-center text-[10px] text-gray-800"
+                  style={{ backgroundColor: color }}
+                  title={`${counts[y]?.[x] ?? 0} areas`}
+                >
+                  {counts[y]?.[x] ?? 0}
+                </div>
+              ))
+            )}
+          </div>
+          <p className="mt-1 text-xs text-gray-500">
+            {getMetricDisplayName(xMetric)} →
+          </p>
+        </div>
+      </div>
+      {metricSelect("X", xMetric, (x) => onChange({ x, y: yMetric }))}
+      {metricSelect("Y", yMetric, (y) => onChange({ x: xMetric, y }))}
+    </div>
+  );
+};
+
+export default BivariateLegend;
@@ -11,18 +11,24 @@ import {
   ResponsiveContainer,
   Legend,
 } from "recharts";
-import type { PMMSYAggregatedData, SchemeKey } from "../App";
+import type { MapViewLevel, PMMSYAggregatedData, SchemeKey } from "../App";
 
 // Props interface for SectorDistributionPieChart
 interface SectorDistributionPieChartProps {
   sectorDistribution: PMMSYAggregatedData["sectorDistribution"];
   getColor: (metric: string, value: string) => string;
+  // Clicking a slice filters by its sector; the filtered one stands out
+  activeSlice?: string | null;
+  onSliceClick?: (name: string) => void;
 }
 
 // Props interface for DistributionPieChart
 interface DistributionPieChartProps {
   pieData: Array<{ name: string; value: number; color: string }>;
   selectedMetric: string;
+  // Clicking a slice restricts the map to its bracket
+  activeSlice?: string | null;
+  onSliceClick?: (name: string) => void;
 }
 
 // Props interface for TopAreasBarChart
@@ -33,10 +39,18 @@ interface TopAreasBarChartProps {
   selectedMetric: string;
   getColor: (metric: string, value: string) => string;
   formatMetricValue: (metric: string, value: number) => string;
-  mapView: "state" | "district" | "sub-district";
+  mapView: MapViewLevel;
   selectedBarChartCategory: "scheme" | "gender" | "year";
   setSelectedBarChartCategory: (category: "scheme" | "gender" | "year") => void;
   selectedScheme: SchemeKey;
+  // Bars are rows with an area id; the hovered or selected area's bar
+  // stands out and hovering or clicking a bar reports its area
+  highlightedAreaId?: string | null;
+  selectedAreaId?: string | null;
+  onAreaHover?: (shapeID: string | null) => void;
+  onAreaClick?: (shapeID: string) => void;
+  // Clicking a series in the legend filters by its category
+  onSeriesClick?: (key: string) => void;
 }
 
 // Props interface for EmploymentBarChart
@@ -66,7 +80,7 @@ function getMetricDisplayName(metric: string): string {
 // Sector Distribution Pie Chart for PMMSY
 export const SectorDistributionPieChart: React.FC<
   SectorDistributionPieChartProps
-> = ({ sectorDistribution, getColor }) => {
+> = ({ sectorDistribution, getColor, activeSlice, onSliceClick }) => {
   return (
     <div className="bg-white/80 backdrop-blur-md rounded-2xl shadow-lg border border-white/20 p-2">
       <h3 className="text-lg font-semibold text-gray-900 pl-4">
@@ -82,11 +96,16 @@ export const SectorDistributionPieChart: React.FC<
             cy="50%"
             outerRadius={80}
             label={({ name, value }) => `${name}: ${value}`}
+            onClick={(entry) => onSliceClick?.(entry.name)}
+            className={onSliceClick ? "cursor-pointer" : ""}
           >
             {sectorDistribution.map((entry, index) => (
               <Cell
                 key={`cell-${index}`}
                 fill={getColor("sector", entry.name)}
+                fillOpacity={
+                  activeSlice && entry.name !== activeSlice ? 0.35 : 1
+                }
               />
             ))}
           </Pie>
@@ -101,6 +120,8 @@ export const SectorDistributionPieChart: React.FC<
 export const DistributionPieChart: React.FC<DistributionPieChartProps> = ({
   pieData,
   selectedMetric,
+  activeSlice,
+  onSliceClick,
 }) => {
   return (
     <div className="bg-white/80 backdrop-blur-md rounded-2xl shadow-lg border border-white/20 p-4">
@@ -117,9 +138,17 @@ export const DistributionPieChart: React.FC<DistributionPieChartProps> = ({
             cy="50%"
             outerRadius={80}
             label={({ name, value }) => `${name}: ${value}`}
+            onClick={(entry) => onSliceClick?.(entry.name)}
+            className={onSliceClick ? "cursor-pointer" : ""}
           >
             {pieData.map((entry, index) => (
-              <Cell key={`cell-${index}`} fill={entry.color} />
+              <Cell
+                key={`cell-${index}`}
+                fill={entry.color}
+                fillOpacity={
+                  activeSlice && entry.name !== activeSlice ? 0.35 : 1
+                }
+              />
             ))}
           </Pie>
           <Tooltip />
@@ -216,7 +245,16 @@ export const TopAreasBarChart: React.FC<TopAreasBarChartProps> = ({
   selectedBarChartCategory,
   setSelectedBarChartCategory,
   selectedScheme,
+  highlightedAreaId,
+  selectedAreaId,
+  onAreaHover,
+  onAreaClick,
+  onSeriesClick,
 }) => {
+  const linkedAreaId = highlightedAreaId ?? selectedAreaId ?? null;
+  const barAreaId = (index: number | undefined): string | null =>
+    index === undefined ? null : barChartData[index]?.id ?? null;
+
   const CustomBarTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
       return (
@@ -257,6 +295,8 @@ export const TopAreasBarChart: React.FC<TopAreasBarChartProps> = ({
             ? "States"
             : mapView === "district"
             ? "Districts"
+            : mapView === "village"
+            ? "Villages"
             : "Sub-Districts"}{" "}
           by {getMetricDisplayName(selectedMetric)}
         </h2>
@@ -273,7 +313,7 @@ export const TopAreasBarChart: React.FC<TopAreasBarChartProps> = ({
             {selectedScheme === "PMMSY" ? "Sector" : "Scheme"}
           </option>
           <option value="gender">Gender</option>
-          <option value="year">Year</option>
+          <option value="year">Financial Year</option>
         </select>
       </div>
       <ResponsiveContainer
@@ -284,6 +324,15 @@ export const TopAreasBarChart: React.FC<TopAreasBarChartProps> = ({
           layout="horizontal"
           data={barChartData}
           margin={{ top: 5, right: 10, left: 10, bottom: 5 }}
+          onMouseMove={(state) =>
+            onAreaHover?.(barAreaId(state?.activeTooltipIndex))
+          }
+          onMouseLeave={() => onAreaHover?.(null)}
+          onClick={(state) => {
+            const shapeID = barAreaId(state?.activeTooltipIndex);
+            if (shapeID) onAreaClick?.(shapeID);
+          }}
+          className={onAreaClick ? "cursor-pointer" : ""}
         >
           <YAxis
             type="number"
@@ -296,12 +345,35 @@ export const TopAreasBarChart: React.FC<TopAreasBarChartProps> = ({
             tick={{ fontSize: window.innerWidth < 640 ? 8 : 10 }}
           />
           <Tooltip content={<CustomBarTooltip />} />
+          <Legend
+            wrapperStyle={{
+              fontSize: 10,
+              cursor: onSeriesClick ? "pointer" : undefined,
+            }}
+            onClick={(entry) =>
+              entry.dataKey !== undefined &&
+              onSeriesClick?.(String(entry.dataKey))
+            }
+          />
           {barChartKeys.map((key) => (
-            <Bar key={key} dataKey={key} stackId="a">
+            <Bar
+              key={key}
+              dataKey={key}
+              name={barChartDisplayNamesMap[key] || key}
+              fill={getColor(selectedMetric, key)}
+              stackId="a"
+            >
               {barChartData.map((entry, index) => (
                 <Cell
                   key={`cell-${key}-${index}`}
                   fill={getColor(selectedMetric, key)}
+                  // Other areas fade while one is hovered or selected
+                  fillOpacity={
+                    linkedAreaId && entry.id !== linkedAreaId ? 0.35 : 1
+                  }
+                  stroke={
+                    entry.id === selectedAreaId ? "#1e3a8a" : undefined
+                  }
                 />
               ))}
             </Bar>
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from "react";
+import {
+  classificationMethods,
+  colorRamps,
+  MAX_CLASSES,
+  MIN_CLASSES,
+} from "../data/classification";
+import type {
+  ClassificationOptions,
+  ColorRampKey,
+} from "../data/classification";
+
+interface ClassificationControlsProps {
+  classification: Omit<ClassificationOptions, "manualBreaks">;
+  onChange: (
+    classification: Omit<ClassificationOptions, "manualBreaks">
+  ) => void;
+  // Boundaries of the manual method for the current metric
+  manualBreaks: number[];
+  onManualBreaksChange: (breaks: number[]) => void;
+}
+
+const ClassificationControls: React.FC<ClassificationControlsProps> = ({
+  classification,
+  onChange,
+  manualBreaks,
+  onManualBreaksChange,
+}) => {
+  // Boundaries as typed; applied when the field loses focus
+  const [breaksText, setBreaksText] = useState(manualBreaks.join(", "));
+  useEffect(() => setBreaksText(manualBreaks.join(", ")), [manualBreaks]);
+
+  const applyBreaks = () => {
+    const breaks = breaksText
+      .split(/[,\s]+/)
+      .filter(Boolean)
+      .map(Number)
+      .filter((value) => Number.isFinite(value));
+    onManualBreaksChange(breaks);
+  };
+
+  const selectClassName =
+    "w-full p-1 bg-gray-50 border border-gray-300 rounded-md text-xs";
+
+  return (
+    <div className="space-y-1 pt-2 border-t border-gray-200">
+      <select
+        aria-label="Classification method"
+        value={classification.method}
+        onChange={(e) =>
+          onChange({
+            ...classification,
+            method: e.target.value as ClassificationOptions["method"],
+          })
+        }
+        className={selectClassName}
+      >
+        {classificationMethods.map(({ key, label }) => (
+          <option key={key} value={key}>
+            {label}
+          </option>
+        ))}
+      </select>
+      {classification.method === "manual" ? (
+        <input
+          aria-label="Class boundaries"
+          value={breaksText}
+          onChange={(e) => setBreaksText(e.target.value)}
+          onBlur={applyBreaks}
+          onKeyDown={(e) => e.key === "Enter" && applyBreaks()}
+          placeholder="e.g. 30, 50, 80"
+          className={selectClassName}
+        />
+      ) : (
+        <select
+          aria-label="Number of classes"
+          value={classification.classCount}
+          onChange={(e) =>
+            onChange({ ...classification, classCount: Number(e.target.value) })
+          }
+          className={selectClassName}
+        >
+          {Array.from(
+            { length: MAX_CLASSES - MIN_CLASSES + 1 },
+            (_, idx) => MIN_CLASSES + idx
+          ).map((count) => (
+            <option key={count} value={count}>
+              {count} classes
+            </option>
+          ))}
+        </select>
+      )}
+      <select
+        aria-label="Colour ramp"
+        value={classification.ramp || ""}
+        onChange={(e) =>
+          onChange({
+            ...classification,
+            ramp: (e.target.value as ColorRampKey) || null,
+          })
+        }
+        className={selectClassName}
+      >
+        <option value="">Metric Colours</option>
+        {(Object.keys(colorRamps) as ColorRampKey[]).map((ramp) => (
+          <option key={ramp} value={ramp}>
+            {colorRamps[ramp].label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default ClassificationControls;
@@ -0,0 +1,111 @@
+import React, { useState } from "react";
+import { View } from "ol";
+import { fromLonLat } from "ol/proj";
+import OpenLayersMap from "./OpenLayerMap";
+
+type MapProps = React.ComponentProps<typeof OpenLayersMap>;
+
+export type ComparisonLayout = "swipe" | "side-by-side";
+
+export interface ComparisonPane {
+  label: string;
+  // Props of this pane's map over the shared ones
+  mapProps: Partial<MapProps>;
+  legend?: React.ReactNode;
+}
+
+interface ComparisonMapsProps {
+  layout: ComparisonLayout;
+  // Props every map shares: boundaries, view level and handlers
+  mapProps: Omit<MapProps, "view">;
+  before: ComparisonPane;
+  after: ComparisonPane;
+  // Optional third map, e.g. the change from before to after
+  difference?: ComparisonPane | null;
+}
+
+const PaneLabel: React.FC<{ text: string; className?: string }> = ({
+  text,
+  className = "left-2",
+}) => (
+  <span
+    className={`absolute top-2 ${className} z-10 px-2 py-0.5 rounded bg-white/90 text-xs font-semibold text-gray-800 shadow pointer-events-none`}
+  >
+    {text}
+  </span>
+);
+
+// Two filter states on the same geography, as a swipe over one map or side
+// by side. Every map shares one view, so panning or zooming one moves all.
+const ComparisonMaps: React.FC<ComparisonMapsProps> = ({
+  layout,
+  mapProps,
+  before,
+  after,
+  difference,
+}) => {
+  const [view] = useState(
+    () =>
+      new View({
+        center: fromLonLat([78.9629, 20.5937]),
+        zoom: 5,
+        minZoom: 4.5,
+        maxZoom: 18,
+      })
+  );
+  // Share of the width, from the left, where the after map starts
+  const [swipePosition, setSwipePosition] = useState(50);
+
+  return (
+    <div className="flex gap-1 w-full h-full min-h-[400px]">
+      {layout === "swipe" ? (
+        <div className="relative flex-1">
+          <div className="absolute inset-0">
+            <OpenLayersMap {...mapProps} {...before.mapProps} view={view} />
+          </div>
+          {/* Clipped, so the before map shows and takes pointer events
+              left of the divider */}
+          <div
+            className="absolute inset-0"
+            style={{ clipPath: `inset(0 0 0 ${swipePosition}%)` }}
+          >
+            <OpenLayersMap {...mapProps} {...after.mapProps} view={view} />
+          </div>
+          <div
+            className="absolute inset-y-0 w-0.5 bg-white shadow pointer-events-none"
+            style={{ left: `${swipePosition}%` }}
+          />
+          <PaneLabel text={before.label} />
+          <PaneLabel text={after.label} className="right-2" />
+          <input
+            type="range"
+            aria-label="Swipe position"
+            min={0}
+            max={100}
+            value={swipePosition}
+            onChange={(e) => setSwipePosition(Number(e.target.value))}
+            className="absolute top-10 left-1/4 w-1/2 z-10"
+          />
+          {before.legend}
+        </div>
+      ) : (
+        [before, after].map((pane, idx) => (
+          <div key={idx} className="relative flex-1">
+            <OpenLayersMap {...mapProps} {...pane.mapProps} view={view} />
+            <PaneLabel text={pane.label} />
+            {pane.legend}
+          </div>
+        ))
+      )}
+      {difference && (
+        <div className="relative flex-1">
+          <OpenLayersMap {...mapProps} {...difference.mapProps} view={view} />
+          <PaneLabel text={difference.label} />
+          {difference.legend}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonMaps;
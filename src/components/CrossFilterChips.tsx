@@ -0,0 +1,52 @@
+import React from "react";
+import { X } from "lucide-react";
+
+export interface CrossFilterChip {
+  key: string;
+  label: string;
+  onRemove: () => void;
+}
+
+interface CrossFilterChipsProps {
+  chips: CrossFilterChip[];
+  onClearAll: () => void;
+}
+
+// Filters the charts can set, each removable on its own
+const CrossFilterChips: React.FC<CrossFilterChipsProps> = ({
+  chips,
+  onClearAll,
+}) => {
+  if (chips.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 bg-white/80 backdrop-blur-md rounded-2xl shadow-lg border border-white/20 px-4 py-2">
+      <span className="text-xs font-semibold text-gray-700">Filters:</span>
+      {chips.map((chip) => (
+        <span
+          key={chip.key}
+          className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-teal-50 border border-teal-200 text-xs text-teal-800"
+        >
+          {chip.label}
+          <button
+            onClick={chip.onRemove}
+            aria-label={`Remove filter ${chip.label}`}
+            className="p-0.5 rounded-full hover:bg-teal-100"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+      {chips.length > 1 && (
+        <button
+          onClick={onClearAll}
+          className="text-xs font-medium text-blue-600 hover:underline"
+        >
+          Clear all
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default CrossFilterChips;
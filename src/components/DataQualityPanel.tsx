@@ -0,0 +1,271 @@
+import React, { useState } from "react";
+import { X, ChevronDown, ChevronRight } from "lucide-react";
+import type {
+  AreaDataQuality,
+  DataQualityIssueKind,
+  StateDataQuality,
+} from "../data/pmmsyValidation";
+
+interface DataQualityPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  report: StateDataQuality[];
+}
+
+const issueKindLabels: Record<DataQualityIssueKind, string> = {
+  missing: "Missing fields",
+  type: "Type problems",
+  unitCost: "Unit cost",
+  duplicate: "Duplicate IDs",
+};
+
+// Number of issues listed for the selected area
+const MAX_LISTED_ISSUES = 100;
+
+const formatShare = (share: number): string => `${Math.round(share * 100)}%`;
+
+// Green when most records report the measure, amber when some do, red otherwise
+const shareColor = (share: number): string => {
+  if (share >= 0.8) return "text-green-700 bg-green-50";
+  if (share >= 0.3) return "text-amber-700 bg-amber-50";
+  return "text-red-700 bg-red-50";
+};
+
+const AreaRow: React.FC<{
+  area: AreaDataQuality;
+  isSelected: boolean;
+  onSelect: () => void;
+  toggle?: React.ReactNode;
+}> = ({ area, isSelected, onSelect, toggle }) => (
+  <tr
+    onClick={onSelect}
+    className={`cursor-pointer ${
+      isSelected ? "bg-blue-50" : "hover:bg-gray-50"
+    }`}
+  >
+    <td
+      className={`px-3 py-2 border-t ${
+        area.level === "district" ? "pl-10" : "font-semibold"
+      }`}
+    >
+      <div className="flex items-center gap-1">
+        {toggle}
+        {area.name}
+      </div>
+    </td>
+    <td className="px-3 py-2 border-t text-right">{area.totalRecords}</td>
+    <td className="px-3 py-2 border-t text-right">
+      {formatShare(
+        area.totalRecords > 0 ? area.validRecords / area.totalRecords : 0
+      )}
+    </td>
+    <td className="px-3 py-2 border-t text-right text-red-600">
+      {area.errors}
+    </td>
+    <td className="px-3 py-2 border-t text-right text-amber-600">
+      {area.warnings}
+    </td>
+    {(["totalCost", "output", "employment"] as const).map((measure) => (
+      <td key={measure} className="px-3 py-2 border-t text-right">
+        <span
+          className={`px-2 py-0.5 rounded-full text-xs font-medium ${shareColor(
+            area.completeness[measure]
+          )}`}
+        >
+          {formatShare(area.completeness[measure])}
+        </span>
+      </td>
+    ))}
+  </tr>
+);
+
+const DataQualityPanel: React.FC<DataQualityPanelProps> = ({
+  isOpen,
+  onClose,
+  report,
+}) => {
+  const [expandedStates, setExpandedStates] = useState<Set<string>>(new Set());
+  // "state" or "state_district" of the area whose issues are listed
+  const [selectedAreaKey, setSelectedAreaKey] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const selectedArea =
+    report
+      .flatMap((state) => [
+        { key: state.name, area: state as AreaDataQuality },
+        ...state.districts.map((district) => ({
+          key: `${state.name}_${district.name}`,
+          area: district,
+        })),
+      ])
+      .find(({ key }) => key === selectedAreaKey)?.area || null;
+
+  const toggleState = (name: string) => {
+    setExpandedStates((prev) => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b">
+          <h2 className="text-2xl font-bold text-gray-800">
+            PMMSY Data Quality
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full bg-gray-100 hover:bg-gray-200 transition-colors text-gray-600"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <div className="overflow-x-auto border rounded-lg">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="px-3 py-2 text-left">State / District</th>
+                  <th className="px-3 py-2 text-right">Records</th>
+                  <th className="px-3 py-2 text-right">Valid</th>
+                  <th className="px-3 py-2 text-right">Errors</th>
+                  <th className="px-3 py-2 text-right">Warnings</th>
+                  <th className="px-3 py-2 text-right">Total Cost</th>
+                  <th className="px-3 py-2 text-right">Output</th>
+                  <th className="px-3 py-2 text-right">Employment</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.map((state) => {
+                  const isExpanded = expandedStates.has(state.name);
+                  return (
+                    <React.Fragment key={state.name}>
+                      <AreaRow
+                        area={state}
+                        isSelected={selectedAreaKey === state.name}
+                        onSelect={() => setSelectedAreaKey(state.name)}
+                        toggle={
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              toggleState(state.name);
+                            }}
+                            className="text-gray-500"
+                            aria-label={isExpanded ? "Collapse" : "Expand"}
+                          >
+                            {isExpanded ? (
+                              <ChevronDown className="w-4 h-4" />
+                            ) : (
+                              <ChevronRight className="w-4 h-4" />
+                            )}
+                          </button>
+                        }
+                      />
+                      {isExpanded &&
+                        state.districts.map((district) => (
+                          <AreaRow
+                            key={`${state.name}_${district.name}`}
+                            area={district}
+                            isSelected={
+                              selectedAreaKey ===
+                              `${state.name}_${district.name}`
+                            }
+                            onSelect={() =>
+                              setSelectedAreaKey(
+                                `${state.name}_${district.name}`
+                              )
+                            }
+                          />
+                        ))}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-gray-500">
+            Valid records have no errors. The last three columns show the share
+            of records that report each measure; totals built from a low share
+            understate the real figures.
+          </p>
+
+          {selectedArea && (
+            <div className="space-y-2">
+              <h3 className="text-lg font-semibold text-gray-800">
+                Issues in {selectedArea.name}
+              </h3>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(issueKindLabels) as DataQualityIssueKind[]).map(
+                  (kind) => (
+                    <span
+                      key={kind}
+                      className="px-3 py-1 rounded-full bg-gray-100 text-xs font-medium text-gray-700"
+                    >
+                      {issueKindLabels[kind]}: {selectedArea.issuesByKind[kind]}
+                    </span>
+                  )
+                )}
+              </div>
+              {selectedArea.issues.length === 0 ? (
+                <p className="text-sm text-green-700">No issues found.</p>
+              ) : (
+                <div className="max-h-64 overflow-y-auto border rounded-lg">
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-gray-100 sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2 text-left">Record</th>
+                        <th className="px-3 py-2 text-left">District</th>
+                        <th className="px-3 py-2 text-left">Severity</th>
+                        <th className="px-3 py-2 text-left">Issue</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {selectedArea.issues
+                        .slice(0, MAX_LISTED_ISSUES)
+                        .map((issue, index) => (
+                          <tr key={`${issue.row}_${issue.field}_${index}`}>
+                            <td className="px-3 py-1 border-t font-medium">
+                              {issue.recordId}
+                            </td>
+                            <td className="px-3 py-1 border-t">
+                              {issue.district || "-"}
+                            </td>
+                            <td
+                              className={`px-3 py-1 border-t ${
+                                issue.severity === "error"
+                                  ? "text-red-600"
+                                  : "text-amber-600"
+                              }`}
+                            >
+                              {issue.severity === "error" ? "Error" : "Warning"}
+                            </td>
+                            <td className="px-3 py-1 border-t">
+                              {issue.message}
+                            </td>
+                          </tr>
+                        ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              {selectedArea.issues.length > MAX_LISTED_ISSUES && (
+                <p className="text-xs text-gray-500">
+                  Showing the first {MAX_LISTED_ISSUES} of{" "}
+                  {selectedArea.issues.length} issues.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DataQualityPanel;
@@ -0,0 +1,45 @@
+import React from "react";
+import { ChevronRight } from "lucide-react";
+
+interface DrillBreadcrumbProps {
+  // Names of the drilled areas, state first
+  path: string[];
+  // Depth to return to; 0 is the national view
+  onNavigate: (depth: number) => void;
+}
+
+const DrillBreadcrumb: React.FC<DrillBreadcrumbProps> = ({
+  path,
+  onNavigate,
+}) => {
+  const crumbs = ["India", ...path];
+  return (
+    <nav aria-label="Breadcrumb" className="flex flex-wrap items-center gap-1">
+      {crumbs.map((name, depth) => {
+        const isCurrent = depth === crumbs.length - 1;
+        return (
+          <React.Fragment key={`${depth}_${name}`}>
+            {depth > 0 && <ChevronRight className="w-6 h-6 text-gray-400" />}
+            {isCurrent ? (
+              <span
+                aria-current="page"
+                className="text-4xl font-bold text-gray-600"
+              >
+                {name}
+              </span>
+            ) : (
+              <button
+                onClick={() => onNavigate(depth)}
+                className="text-xl font-semibold text-indigo-600 hover:text-indigo-800 hover:underline"
+              >
+                {name}
+              </button>
+            )}
+          </React.Fragment>
+        );
+      })}
+    </nav>
+  );
+};
+
+export default DrillBreadcrumb;
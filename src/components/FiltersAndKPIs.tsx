@@ -1,6 +1,14 @@
 import React from 'react';
 import { IndianRupee, MapPin, TrendingUp, Users, CheckCircle } from "lucide-react";
-import type { PMMSYAggregatedData, SchemeKey, GenderKey, YearKey } from '../App';
+import type { PMMSYAggregatedData, SchemeKey, GenderKey } from '../App';
+import {
+  childFiscalPeriods,
+  fiscalPeriodKey,
+  fiscalPeriodLabel,
+  fiscalYearOf,
+  parseFiscalPeriodKey,
+} from '../data/fiscalPeriods';
+import type { FiscalGranularity, FiscalPeriodKey } from '../data/fiscalPeriods';
 
 // Props interface for the FiltersAndKPIs component
 interface FiltersAndKPIsProps {
@@ -9,14 +17,14 @@ interface FiltersAndKPIsProps {
   selectedScheme: SchemeKey;
   selectedGender: GenderKey;
   setSelectedGender: (value: GenderKey) => void;
-  selectedYear: YearKey;
-  setSelectedYear: (value: YearKey) => void;
+  selectedPeriod: FiscalPeriodKey;
+  setSelectedPeriod: (value: FiscalPeriodKey) => void;
+  // Financial years with data and the finest period the dataset reports
+  fiscalYears: FiscalPeriodKey[];
+  periodGranularity: FiscalGranularity;
   selectedSectorPMMSY: string;
   setSelectedSectorPMMSY: (value: string) => void;
-  selectedFinancialYearPMMSY: string;
-  setSelectedFinancialYearPMMSY: (value: string) => void;
   pmmsySectors: string[];
-  pmmsyFinancialYears: string[];
   globalPMMSYMetrics: PMMSYAggregatedData;
   kpis: { average: number; min: number; max: number } | null;
   formatMetricValue: (metric: string, value: number) => string;
@@ -31,12 +39,10 @@ const genderDisplayNames: Record<GenderKey, string> = {
   transgender: "Transgender",
 };
 
-const yearDisplayNames: Record<YearKey, string> = {
-  all: "All Years",
-  2021: "2021",
-  2022: "2022",
-  2023: "2023",
-  2024: "2024",
+const gridColumns: Record<number, string> = {
+  2: "grid-cols-2",
+  3: "grid-cols-3",
+  4: "grid-cols-4",
 };
 
 const FiltersAndKPIs: React.FC<FiltersAndKPIsProps> = ({
@@ -45,24 +51,103 @@ const FiltersAndKPIs: React.FC<FiltersAndKPIsProps> = ({
   selectedScheme,
   selectedGender,
   setSelectedGender,
-  selectedYear,
-  setSelectedYear,
+  selectedPeriod,
+  setSelectedPeriod,
+  fiscalYears,
+  periodGranularity,
   selectedSectorPMMSY,
   setSelectedSectorPMMSY,
-  selectedFinancialYearPMMSY,
-  setSelectedFinancialYearPMMSY,
   pmmsySectors,
-  pmmsyFinancialYears,
   globalPMMSYMetrics,
   kpis,
   formatMetricValue,
   getMetricIcon,
 }) => {
+  // Split the selected period into its year, quarter and month selects
+  const period = parseFiscalPeriodKey(selectedPeriod);
+  const selectedFiscalYear = fiscalYearOf(selectedPeriod);
+  const selectedQuarter = period?.quarter
+    ? fiscalPeriodKey({ startYear: period.startYear, quarter: period.quarter })
+    : "";
+  const showQuarters = periodGranularity !== "year";
+  const showMonths = periodGranularity === "month";
+  const quarterOptions = period
+    ? childFiscalPeriods(selectedFiscalYear, fiscalYears, periodGranularity)
+    : [];
+  const monthOptions = selectedQuarter
+    ? childFiscalPeriods(selectedQuarter, fiscalYears, periodGranularity)
+    : [];
+  const columnCount = 2 + (showQuarters ? 1 : 0) + (showMonths ? 1 : 0);
+
+  const selectClassName =
+    "w-full px-3 py-2 bg-white border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors disabled:bg-gray-100 disabled:text-gray-400";
+
+  const periodFilters = (
+    <>
+      <div className="space-y-1">
+        <label className="block text-sm font-medium text-gray-700">
+          Financial Year
+        </label>
+        <select
+          value={selectedFiscalYear}
+          onChange={(e) => setSelectedPeriod(e.target.value)}
+          className={selectClassName}
+        >
+          {["all", ...fiscalYears].map((year) => (
+            <option key={year} value={year}>
+              {fiscalPeriodLabel(year)}
+            </option>
+          ))}
+        </select>
+      </div>
+      {showQuarters && (
+        <div className="space-y-1">
+          <label className="block text-sm font-medium text-gray-700">
+            Quarter
+          </label>
+          <select
+            value={selectedQuarter}
+            onChange={(e) => setSelectedPeriod(e.target.value || selectedFiscalYear)}
+            disabled={quarterOptions.length === 0}
+            className={selectClassName}
+          >
+            <option value="">Whole Year</option>
+            {quarterOptions.map((quarter) => (
+              <option key={quarter} value={quarter}>
+                {fiscalPeriodLabel(quarter)}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      {showMonths && (
+        <div className="space-y-1">
+          <label className="block text-sm font-medium text-gray-700">
+            Month
+          </label>
+          <select
+            value={period?.month ? selectedPeriod : ""}
+            onChange={(e) => setSelectedPeriod(e.target.value || selectedQuarter)}
+            disabled={monthOptions.length === 0}
+            className={selectClassName}
+          >
+            <option value="">Whole Quarter</option>
+            {monthOptions.map((month) => (
+              <option key={month} value={month}>
+                {fiscalPeriodLabel(month)}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+    </>
+  );
+
   return (
     <>
       {/* Filters */}
       <div className="bg-white/80 backdrop-blur-md rounded-2xl shadow-lg border border-white/20 p-2 mb-2">
-        <div className={`grid ${selectedScheme === "PMMSY" ? "grid-cols-2" : "grid-cols-2"} gap-4`}>
+        <div className={`grid ${gridColumns[columnCount]} gap-4`}>
           {selectedScheme === "PMMSY" ? (
             <>
               <div className="space-y-1">
@@ -81,22 +166,7 @@ const FiltersAndKPIs: React.FC<FiltersAndKPIsProps> = ({
                   ))}
                 </select>
               </div>
-              <div className="space-y-1">
-                <label className="block text-sm font-medium text-gray-700">
-                  Financial Year
-                </label>
-                <select
-                  value={selectedFinancialYearPMMSY}
-                  onChange={(e) => setSelectedFinancialYearPMMSY(e.target.value)}
-                  className="w-full px-3 py-2 bg-white border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-                >
-                  {pmmsyFinancialYears.map((year) => (
-                    <option key={year} value={year}>
-                      {year === "all" ? "All Years" : year}
-                    </option>
-                  ))}
-                </select>
-              </div>
+              {periodFilters}
             </>
           ) : (
             <>
@@ -116,22 +186,7 @@ const FiltersAndKPIs: React.FC<FiltersAndKPIsProps> = ({
                   ))}
                 </select>
               </div>
-              <div className="space-y-1">
-                <label className="block text-sm font-medium text-gray-700">
-                  Year
-                </label>
-                <select
-                  value={selectedYear}
-                  onChange={(e) => setSelectedYear(e.target.value as YearKey)}
-                  className="w-full px-3 py-2 bg-white border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-                >
-                  {Object.entries(yearDisplayNames).map(([key, display]) => (
-                    <option key={key} value={key}>
-                      {display}
-                    </option>
-                  ))}
-                </select>
-              </div>
+              {periodFilters}
             </>
           )}
         </div>
@@ -0,0 +1,91 @@
+import React, { useState } from "react";
+import { Download } from "lucide-react";
+import { pageSizes } from "../data/mapExport";
+import type { MapExportFormat, PageSizeKey } from "../data/mapExport";
+
+interface MapExportMenuProps {
+  onExport: (format: MapExportFormat, pageSize: PageSizeKey) => Promise<void>;
+}
+
+const formats: { value: MapExportFormat; label: string }[] = [
+  { value: "png", label: "PNG image" },
+  { value: "svg", label: "SVG" },
+  { value: "pdf", label: "PDF (print)" },
+];
+
+const MapExportMenu: React.FC<MapExportMenuProps> = ({ onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<MapExportFormat>("png");
+  const [pageSize, setPageSize] = useState<PageSizeKey>("a4-landscape");
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      await onExport(format, pageSize);
+      setIsOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-2">
+      {isOpen && (
+        <div className="bg-white/90 p-3 rounded-lg shadow-md border border-gray-200 w-52 space-y-2 text-xs text-gray-700">
+          <h4 className="text-sm font-semibold text-gray-800">Export Map</h4>
+          <label className="flex items-center justify-between gap-2">
+            Format
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as MapExportFormat)}
+              className="p-1 bg-gray-50 border border-gray-300 rounded-md text-xs"
+            >
+              {formats.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            Page
+            <select
+              value={pageSize}
+              onChange={(e) => setPageSize(e.target.value as PageSizeKey)}
+              className="p-1 bg-gray-50 border border-gray-300 rounded-md text-xs"
+            >
+              {(Object.keys(pageSizes) as PageSizeKey[]).map((key) => (
+                <option key={key} value={key}>
+                  {pageSizes[key].label}
+                </option>
+              ))}
+            </select>
+          </label>
+          {error && <p className="text-red-600">{error}</p>}
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="w-full px-3 py-1.5 rounded-md bg-blue-600 text-white font-medium hover:bg-blue-700 disabled:opacity-40"
+          >
+            {isExporting ? "Exporting..." : "Download"}
+          </button>
+        </div>
+      )}
+      <button
+        onClick={() => setIsOpen((prev) => !prev)}
+        aria-label="Export map"
+        title="Export map"
+        className="p-2 rounded-md bg-white shadow-md border border-gray-200 text-gray-700 hover:bg-gray-100"
+      >
+        <Download className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default MapExportMenu;
@@ -0,0 +1,84 @@
+import React from "react";
+import type { MetricClass } from "../data/classification";
+
+interface MapLegendProps {
+  title: string;
+  // Classes lowest first, as computed, with the number of areas in each
+  classes: MetricClass[];
+  counts: number[];
+  // Class whose areas are isolated on the map; without a handler the rows
+  // are only a key
+  isolatedClass: number | null;
+  onIsolateClass?: (index: number | null) => void;
+  // Class of the area under the pointer
+  hoveredClass: number | null;
+  children?: React.ReactNode;
+}
+
+const MapLegend: React.FC<MapLegendProps> = ({
+  title,
+  classes,
+  counts,
+  isolatedClass,
+  onIsolateClass,
+  hoveredClass,
+  children,
+}) => {
+  // Highest class on top
+  const rows = classes.map((metricClass, index) => ({ metricClass, index }));
+  rows.reverse();
+
+  return (
+    <div className="absolute bottom-4 left-4 bg-white/90 p-3 rounded-lg shadow-md border border-gray-200 w-56">
+      <h4 className="text-sm font-semibold mb-2 text-gray-800">{title}</h4>
+      <div className="space-y-0.5 mb-2">
+        {rows.map(({ metricClass, index }) => {
+          const isIsolated = isolatedClass === index;
+          const isDimmed = isolatedClass !== null && !isIsolated;
+          return (
+            <button
+              key={index}
+              onClick={() => onIsolateClass?.(isIsolated ? null : index)}
+              disabled={!onIsolateClass}
+              title={
+                !onIsolateClass
+                  ? undefined
+                  : isIsolated
+                  ? "Show all areas"
+                  : "Show only areas in this class"
+              }
+              className={`w-full flex items-center px-1 py-0.5 rounded text-left transition-colors ${
+                isIsolated ? "bg-blue-50 ring-1 ring-blue-400" : ""
+              } ${isDimmed ? "opacity-40" : ""} enabled:hover:bg-gray-100`}
+            >
+              <span className="w-3 text-blue-600 text-xs">
+                {hoveredClass === index ? "▶" : ""}
+              </span>
+              <span
+                className="w-4 h-4 mr-2 rounded-sm shrink-0"
+                style={{ backgroundColor: metricClass.color }}
+              />
+              <span className="flex-1 text-xs text-gray-700">
+                {metricClass.label}
+              </span>
+              <span className="text-xs text-gray-500">
+                {counts[index] ?? 0}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+      {isolatedClass !== null && (
+        <button
+          onClick={() => onIsolateClass?.(null)}
+          className="mb-2 text-xs font-medium text-blue-600 hover:underline"
+        >
+          Show all areas
+        </button>
+      )}
+      {children}
+    </div>
+  );
+};
+
+export default MapLegend;
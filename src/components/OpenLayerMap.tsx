@@ -1,43 +1,195 @@
 
 import React, { useEffect, useRef, useState } from "react";
-import { Map, View } from "ol";
-import { Vector as VectorSource } from "ol/source";
-import { Vector as VectorLayer } from "ol/layer";
+import { Feature, Map, View } from "ol";
+import { Cluster, Vector as VectorSource } from "ol/source";
+import {
+  Heatmap as HeatmapLayer,
+  Tile as TileLayer,
+  Vector as VectorLayer,
+} from "ol/layer";
 import { GeoJSON } from "ol/format";
-import { Style, Fill, Stroke, Text } from "ol/style";
-import { getCenter } from "ol/extent";
-import { fromLonLat } from "ol/proj";
+import { Point, Polygon } from "ol/geom";
+import { Style, Fill, Stroke, Text, Circle as CircleStyle } from "ol/style";
+import { boundingExtent, getWidth, getHeight } from "ol/extent";
+import { fromLonLat, getPointResolution } from "ol/proj";
 import { Overlay } from "ol"; // Import Overlay for tooltip
 import { Zoom } from "ol/control";
 import {
   defaults as defaultInteractions,
+  Draw,
   MouseWheelZoom,
 } from "ol/interaction";
+import { createBox } from "ol/interaction/Draw";
 import "ol/ol.css";
+import type {
+  GeoJSONData,
+  HoveredArea,
+  MapRenderMode,
+  MapViewLevel,
+  MetricValues,
+} from "../App";
+import { heatmapWeights, interiorPoint } from "../data/beneficiaryPoints";
+import type {
+  BeneficiaryColorField,
+  BeneficiaryPoint,
+  HeatmapSettings,
+} from "../data/beneficiaryPoints";
+import type { PMMSYRecord } from "../data/pmmsyRecords";
+import type { MetricClass } from "../data/classification";
+import { symbolRadius } from "../data/proportionalSymbols";
+import type { AreaSelectionMode } from "../data/regions";
+import { exportMapPage } from "../data/mapExport";
+import type {
+  MapExportFormat,
+  MapExportLegend,
+  PageSizeKey,
+} from "../data/mapExport";
+import { createBasemapSource } from "../data/basemaps";
+import type { BasemapSettings } from "../data/basemaps";
+import MapExportMenu from "./MapExportMenu";
+import BasemapSwitcher from "./BasemapSwitcher";
 import "./OpenLayersMap.css"; // Import custom styles for the map and tooltip
 
+// Zoom from which PIN code areas replace sub-districts
+const PIN_CODE_MIN_ZOOM = 10;
+// Pixel distance within which beneficiary points are clustered
+const BENEFICIARY_CLUSTER_DISTANCE = 40;
+// Fill of the current level's areas under the heatmap, and of PIN code
+// areas outside the choropleth
+const HEATMAP_AREA_FILL = "rgba(243, 244, 246, 0.8)";
+// Fill of areas outside the class isolated from the legend
+const ISOLATED_OUT_FILL = "rgba(229, 231, 235, 0.35)";
+// Proportional circles at area centres
+const SYMBOL_FILL = "rgba(17, 24, 39, 0.35)";
+const SYMBOL_STROKE = "#ffffff";
+// Outlines of the hovered and the selected area
+const HOVER_STROKE = "#f59e0b";
+const SELECTED_STROKE = "#1e3a8a";
+// Areas picked for a custom region
+const SELECTION_FILL = "rgba(37, 99, 235, 0.15)";
+const SELECTION_STROKE = "#2563eb";
+
 interface OpenLayersMapProps {
   geoJsonData: any; // This will now contain filtered data based on mapView from App.tsx
-  metricData: Record<string, any> | null;
+  // shapeID -> metrics of the area for the current filters
+  areaMetrics: Record<string, MetricValues> | null;
   selectedMetric: string;
-  demographicKey: string;
   getColor: (metric: string, value: number) => string;
   formatMetricValue: (metric: string, value: number) => string;
   getFullMetricName: () => string;
   officerNames: Record<string, string>;
   onAreaClick: (details: any | null) => void; // New prop for click handler
   onDrillDown: (details: any | null) => void;
-  mapView: "state" | "sub-district" | "district"; // Updated prop to control map view
+  mapView: MapViewLevel; // Updated prop to control map view
   isDrilledDown: boolean;
   center?: [number, number];
   zoom?: number;
+  // PIN code areas drawn over the sub-district view when zoomed in
+  pinCodeGeoJson?: GeoJSONData | null;
+  // Beneficiary markers, already filtered; the layer is hidden without them
+  beneficiaryPoints?: BeneficiaryPoint[] | null;
+  beneficiaryColorField?: BeneficiaryColorField;
+  // Category (activity or sector) -> marker colour
+  beneficiaryColors?: Record<string, string>;
+  // Records of a clicked marker, or of a cluster that cannot be split further
+  onBeneficiaryClick?: (records: PMMSYRecord[]) => void;
+  // In heatmap mode areas are only outlined and the points below drawn as
+  // a heatmap
+  renderMode?: MapRenderMode;
+  heatmapPoints?: BeneficiaryPoint[] | null;
+  heatmapSettings?: HeatmapSettings;
+  // Areas outside this class are faded
+  isolatedClass?: MetricClass | null;
+  // Area of the current view under the pointer, with its metric value
+  onAreaHover?: (area: HoveredArea | null) => void;
+  // Areas outlined because they are hovered or selected here or in a
+  // linked chart or table
+  highlightedAreaId?: string | null;
+  selectedAreaId?: string | null;
+  // Fill of an area from two of its metrics, in bivariate mode
+  getBivariateColor?: (metrics: MetricValues | undefined) => string;
+  // Circles at the centres of the current level's areas, sized by this
+  // metric over whatever fill is shown; symbolMaxValue gets the largest
+  symbolMetric?: keyof MetricValues | null;
+  symbolMaxValue?: number;
+  // View shared with other maps so they pan and zoom together; center and
+  // zoom are then ignored
+  view?: View;
+  // Area to zoom to once its feature is on the map; a new request zooms to
+  // the same area again
+  focusArea?: { shapeID: string; requested: number } | null;
+  // Shape drawn to pick the current level's areas whose interior point lies
+  // inside it; while a tool is on, clicks draw instead of opening areas
+  selectionTool?: "polygon" | "box" | null;
+  selectedAreaIds?: string[];
+  // Called with the drawn shape's areas, or with a shift-clicked area to
+  // toggle
+  onAreasSelect?: (shapeIDs: string[], mode: AreaSelectionMode) => void;
+  // Shows the export menu; the page is titled with getFullMetricName
+  exportDetails?: { filters: string[]; legend: MapExportLegend | null };
+  // Raster tiles under the areas and the areas' opacity over them; the
+  // switcher is shown when changes can be handed back
+  basemap?: BasemapSettings;
+  onBasemapChange?: (settings: BasemapSettings) => void;
 }
 
+// The map's layer canvases drawn into one, once the current view has
+// finished rendering
+const renderMapCanvas = (map: Map): Promise<HTMLCanvasElement> =>
+  new Promise((resolve) => {
+    map.once("rendercomplete", () => {
+      const [width, height] = map.getSize() || [0, 0];
+      const pixelRatio = window.devicePixelRatio || 1;
+      const mapCanvas = document.createElement("canvas");
+      mapCanvas.width = Math.round(width * pixelRatio);
+      mapCanvas.height = Math.round(height * pixelRatio);
+      const context = mapCanvas.getContext("2d")!;
+      map
+        .getViewport()
+        .querySelectorAll<HTMLCanvasElement>(".ol-layer canvas, canvas.ol-layer")
+        .forEach((canvas) => {
+          if (canvas.width === 0) return;
+          const parent = canvas.parentElement;
+          const opacity = parent?.style.opacity || canvas.style.opacity;
+          context.globalAlpha = opacity === "" ? 1 : Number(opacity);
+          // Layer canvases are placed by a CSS transform, or else scaled
+          // to their CSS size
+          const transform = canvas.style.transform.match(
+            /^matrix\(([^(]*)\)$/
+          );
+          const matrix = transform
+            ? transform[1].split(",").map(Number)
+            : [
+                parseFloat(canvas.style.width) / canvas.width,
+                0,
+                0,
+                parseFloat(canvas.style.height) / canvas.height,
+                0,
+                0,
+              ];
+          context.setTransform(
+            matrix[0] * pixelRatio,
+            matrix[1] * pixelRatio,
+            matrix[2] * pixelRatio,
+            matrix[3] * pixelRatio,
+            matrix[4] * pixelRatio,
+            matrix[5] * pixelRatio
+          );
+          if (parent?.style.backgroundColor) {
+            context.fillStyle = parent.style.backgroundColor;
+            context.fillRect(0, 0, canvas.width, canvas.height);
+          }
+          context.drawImage(canvas, 0, 0);
+        });
+      resolve(mapCanvas);
+    });
+    map.renderSync();
+  });
+
 const OpenLayersMap: React.FC<OpenLayersMapProps> = ({
   geoJsonData,
-  metricData,
+  areaMetrics,
   selectedMetric,
-  demographicKey,
   getColor,
   formatMetricValue,
   getFullMetricName,
@@ -48,46 +200,94 @@ const OpenLayersMap: React.FC<OpenLayersMapProps> = ({
   isDrilledDown,
   center,
   zoom,
+  pinCodeGeoJson,
+  beneficiaryPoints,
+  beneficiaryColorField = "activity",
+  beneficiaryColors,
+  onBeneficiaryClick,
+  renderMode = "choropleth",
+  heatmapPoints,
+  heatmapSettings,
+  isolatedClass,
+  onAreaHover,
+  highlightedAreaId,
+  selectedAreaId,
+  getBivariateColor,
+  symbolMetric,
+  symbolMaxValue = 0,
+  view,
+  focusArea,
+  selectionTool,
+  selectedAreaIds,
+  onAreasSelect,
+  exportDetails,
+  basemap,
+  onBasemapChange,
 }) => {
   const mapRef = useRef<HTMLDivElement>(null);
   const [map, setMap] = useState<Map | null>(null);
   const [vectorSource, setVectorSource] = useState<VectorSource | null>(null);
   const [vectorLayer, setVectorLayer] = useState<VectorLayer | null>(null);
+  const [pinCodeLayer, setPinCodeLayer] = useState<VectorLayer | null>(null);
+  const [beneficiaryLayer, setBeneficiaryLayer] = useState<VectorLayer | null>(
+    null
+  );
+  const [heatmapLayer, setHeatmapLayer] = useState<HeatmapLayer | null>(null);
+  const [symbolLayer, setSymbolLayer] = useState<VectorLayer | null>(null);
+  const [selectionLayer, setSelectionLayer] = useState<VectorLayer | null>(
+    null
+  );
+  const [basemapLayer, setBasemapLayer] = useState<TileLayer | null>(null);
+  const [highlightLayer, setHighlightLayer] = useState<VectorLayer | null>(
+    null
+  );
   const [tooltip, setTooltip] = useState<Overlay | null>(null); // State for tooltip overlay
   // Refs to store the latest prop/state values for use in event listeners
-  const metricDataRef = useRef(metricData);
+  const areaMetricsRef = useRef(areaMetrics);
   const selectedMetricRef = useRef(selectedMetric);
-  const demographicKeyRef = useRef(demographicKey);
   const mapViewRef = useRef(mapView);
   const formatMetricValueRef = useRef(formatMetricValue);
   const getFullMetricNameRef = useRef(getFullMetricName);
   const officerNamesRef = useRef(officerNames);
   const onAreaClickRef = useRef(onAreaClick);
   const onDrillDownRef = useRef(onDrillDown);
+  const onBeneficiaryClickRef = useRef(onBeneficiaryClick);
+  const onAreaHoverRef = useRef(onAreaHover);
+  const onAreasSelectRef = useRef(onAreasSelect);
+  const selectionToolRef = useRef(selectionTool);
+  const hoveredAreaRef = useRef<HoveredArea | null>(null);
   const clickTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const lastClickedFeatureRef = useRef<any>(null);
+  // Focus request already zoomed to
+  const focusedRequestRef = useRef<number | null>(null);
 
   // Update refs whenever the corresponding prop/state changes
   useEffect(() => {
-    metricDataRef.current = metricData;
+    areaMetricsRef.current = areaMetrics;
     selectedMetricRef.current = selectedMetric;
-    demographicKeyRef.current = demographicKey;
     mapViewRef.current = mapView;
     formatMetricValueRef.current = formatMetricValue;
     getFullMetricNameRef.current = getFullMetricName;
     officerNamesRef.current = officerNames;
     onAreaClickRef.current = onAreaClick;
     onDrillDownRef.current = onDrillDown;
+    onBeneficiaryClickRef.current = onBeneficiaryClick;
+    onAreaHoverRef.current = onAreaHover;
+    onAreasSelectRef.current = onAreasSelect;
+    selectionToolRef.current = selectionTool;
   }, [
-    metricData,
+    areaMetrics,
     selectedMetric,
-    demographicKey,
     mapView,
     formatMetricValue,
     getFullMetricName,
     officerNames,
     onAreaClick,
     onDrillDown,
+    onBeneficiaryClick,
+    onAreaHover,
+    onAreasSelect,
+    selectionTool,
   ]);
 
   // Initialize map and layers only once
@@ -101,16 +301,92 @@ const OpenLayersMap: React.FC<OpenLayersMapProps> = ({
       source: vectorSrc,
     });
     setVectorLayer(initialVectorLayer);
+
+    // Basemap tiles, below everything else
+    const initialBasemapLayer = new TileLayer({ visible: false, zIndex: -1 });
+    setBasemapLayer(initialBasemapLayer);
+
+    // Only rendered, and so only hit by pointer events, when zoomed in
+    const initialPinCodeLayer = new VectorLayer({
+      source: new VectorSource(),
+      minZoom: PIN_CODE_MIN_ZOOM,
+      zIndex: 1,
+    });
+    setPinCodeLayer(initialPinCodeLayer);
+
+    // Beneficiary markers, clustered by screen distance
+    const initialBeneficiaryLayer = new VectorLayer({
+      source: new Cluster({
+        distance: BENEFICIARY_CLUSTER_DISTANCE,
+        source: new VectorSource(),
+      }),
+      zIndex: 3,
+    });
+    setBeneficiaryLayer(initialBeneficiaryLayer);
+
+    // Weighted beneficiary density, shown in heatmap mode
+    const initialHeatmapLayer = new HeatmapLayer({
+      source: new VectorSource(),
+      weight: "weight",
+      visible: false,
+      zIndex: 2,
+    });
+    setHeatmapLayer(initialHeatmapLayer);
+
+    // Proportional circles, largest drawn first so smaller ones stay on top
+    const initialSymbolLayer = new VectorLayer({
+      source: new VectorSource(),
+      renderOrder: (a, b) => b.get("radius") - a.get("radius"),
+      zIndex: 2.5,
+    });
+    setSymbolLayer(initialSymbolLayer);
+
+    // Outlines of the areas picked for a custom region. Its features carry
+    // no level, so clicks and hovers pass through to the areas below.
+    const initialSelectionLayer = new VectorLayer({
+      source: new VectorSource(),
+      style: new Style({
+        fill: new Fill({ color: SELECTION_FILL }),
+        stroke: new Stroke({ color: SELECTION_STROKE, width: 2.5 }),
+      }),
+      zIndex: 2.2,
+    });
+    setSelectionLayer(initialSelectionLayer);
+
+    // Outline of the hovered or selected area, over the region outlines
+    const initialHighlightLayer = new VectorLayer({
+      source: new VectorSource(),
+      style: (feature) =>
+        new Style({
+          stroke: new Stroke({
+            color: feature.get("hovered") ? HOVER_STROKE : SELECTED_STROKE,
+            width: 3,
+          }),
+        }),
+      zIndex: 2.3,
+    });
+    setHighlightLayer(initialHighlightLayer);
     console.log("Zoom level:", zoom);
     const newMap = new Map({
       target: mapRef.current,
-      layers: [initialVectorLayer],
-      view: new View({
-        center: center ? fromLonLat(center) : fromLonLat([78.9629, 20.5937]),
-        zoom: zoom || 5,
-        minZoom: 4.5,
-        maxZoom: 18,
-      }),
+      layers: [
+        initialBasemapLayer,
+        initialVectorLayer,
+        initialPinCodeLayer,
+        initialHeatmapLayer,
+        initialSelectionLayer,
+        initialHighlightLayer,
+        initialSymbolLayer,
+        initialBeneficiaryLayer,
+      ],
+      view:
+        view ||
+        new View({
+          center: center ? fromLonLat(center) : fromLonLat([78.9629, 20.5937]),
+          zoom: zoom || 5,
+          minZoom: 4.5,
+          maxZoom: 18,
+        }),
 
       controls: [
         new Zoom({
@@ -158,23 +434,76 @@ const OpenLayersMap: React.FC<OpenLayersMapProps> = ({
     newMap.addOverlay(tooltipOverlay);
     setTooltip(tooltipOverlay);
 
+    // Tell the legend, charts and tables which area is under the pointer,
+    // once per change
+    const reportHover = (area: HoveredArea | null) => {
+      const current = hoveredAreaRef.current;
+      if (
+        current?.shapeID === area?.shapeID &&
+        current?.value === area?.value
+      ) {
+        return;
+      }
+      hoveredAreaRef.current = area;
+      onAreaHoverRef.current?.(area);
+    };
+    newMap
+      .getViewport()
+      .addEventListener("pointerleave", () => reportHover(null));
+
     // Add hover functionality (tooltip) - uses refs for dynamic data
     newMap.on("pointermove", (evt) => {
       const features = newMap.getFeaturesAtPixel(evt.pixel);
       let featureToShowTooltip = null;
 
+      const cluster = features.find((f) => f.get("features"));
+      if (cluster) {
+        reportHover(null);
+        const members: Feature[] = cluster.get("features");
+        const record: PMMSYRecord = members[0].get("record");
+        // Record fields can come from uploaded sheets, so they are set as
+        // text rather than markup
+        const strong = (text: string) => {
+          const element = document.createElement("strong");
+          element.textContent = text;
+          return element;
+        };
+        tooltipElement.replaceChildren(
+          ...(members.length === 1
+            ? [
+                strong("Beneficiary:"),
+                ` ${record.beneficiaryName || record.id}`,
+                document.createElement("br"),
+                strong("Activity:"),
+                ` ${record.activity}`,
+              ]
+            : [
+                strong(`${members.length} beneficiaries`),
+                document.createElement("br"),
+                "Click to zoom in",
+              ])
+        );
+        tooltipOverlay.setPosition(evt.coordinate);
+        tooltipElement.style.display = "block";
+        return;
+      }
+
       const currentMapView = mapViewRef.current; // Use ref
       if (features && features.length > 0) {
         // Prioritize features based on current view
         if (currentMapView === "sub-district") {
-          featureToShowTooltip = features.find(
-            (f) => f.getProperties().level === "sub-district"
-          );
+          featureToShowTooltip =
+            features.find((f) => f.getProperties().level === "pincode") ||
+            features.find((f) => f.getProperties().level === "sub-district");
         } else if (currentMapView === "district") {
           // Added district tooltip logic
           featureToShowTooltip = features.find(
             (f) => f.getProperties().level === "district"
           );
+        } else if (currentMapView === "village") {
+          featureToShowTooltip = features.find(
+            (f) => f.getProperties().level === "village"
+          );
         }
         // If not found or in state view, find the first relevant state feature
         if (!featureToShowTooltip && currentMapView === "state") {
@@ -194,8 +523,8 @@ const OpenLayersMap: React.FC<OpenLayersMapProps> = ({
         const level = properties.level;
 
         const value =
-          metricDataRef.current?.[id]?.[demographicKeyRef.current]?.[
-            selectedMetricRef.current
+          areaMetricsRef.current?.[id]?.[
+            selectedMetricRef.current as keyof MetricValues
           ] || 0; // Use refs
         const formattedValue = formatMetricValueRef.current(
           selectedMetricRef.current,
@@ -211,6 +540,10 @@ const OpenLayersMap: React.FC<OpenLayersMapProps> = ({
               ? "State"
               : level === "district"
               ? "District"
+              : level === "pincode"
+              ? "PIN Code"
+              : level === "village"
+              ? "Village"
               : "Sub-District"
           }<br/>
           ${
@@ -222,8 +555,12 @@ const OpenLayersMap: React.FC<OpenLayersMapProps> = ({
         `;
         tooltipOverlay.setPosition(evt.coordinate);
         tooltipElement.style.display = "block";
+        reportHover(
+          level === currentMapView ? { shapeID: id, value } : null
+        );
       } else {
         tooltipElement.style.display = "none";
+        reportHover(null);
       }
     });
 
@@ -231,26 +568,61 @@ const OpenLayersMap: React.FC<OpenLayersMapProps> = ({
     newMap.on("pointermove", (evt) => {
       const pixel = newMap.getEventPixel(evt.originalEvent);
       const hit = newMap.hasFeatureAtPixel(pixel);
-      newMap.getTargetElement().style.cursor = hit ? "pointer" : "";
+      newMap.getTargetElement().style.cursor = selectionToolRef.current
+        ? "crosshair"
+        : hit
+        ? "pointer"
+        : "";
     });
 
     // Add click functionality for area details popup - uses refs for dynamic data
     newMap.on("singleclick", (evt) => {
+      // Clicks place the vertices of a selection shape
+      if (selectionToolRef.current) return;
       const features = newMap.getFeaturesAtPixel(evt.pixel);
       let featureToClick = null;
 
+      // A marker opens its record; a cluster zooms in until it splits
+      const cluster = features.find((f) => f.get("features"));
+      if (cluster) {
+        const members: Feature[] = cluster.get("features");
+        const extent = boundingExtent(
+          members.map((member) =>
+            (member.getGeometry() as Point).getCoordinates()
+          )
+        );
+        const view = newMap.getView();
+        const canSplit =
+          members.length > 1 &&
+          (getWidth(extent) > 0 || getHeight(extent) > 0) &&
+          (view.getZoom() || 0) < view.getMaxZoom();
+        if (canSplit) {
+          view.fit(extent, { duration: 500, padding: [60, 60, 60, 60] });
+        } else {
+          onBeneficiaryClickRef.current?.(
+            members.map((member) => member.get("record"))
+          );
+        }
+        tooltipElement.style.display = "none";
+        return;
+      }
+
       const currentMapView = mapViewRef.current; // Use ref
       if (features && features.length > 0) {
         // Prioritize features based on current view for click
         if (currentMapView === "sub-district") {
-          featureToClick = features.find(
-            (f) => f.getProperties().level === "sub-district"
-          );
+          featureToClick =
+            features.find((f) => f.getProperties().level === "pincode") ||
+            features.find((f) => f.getProperties().level === "sub-district");
         } else if (currentMapView === "district") {
           // Added district click logic
           featureToClick = features.find(
             (f) => f.getProperties().level === "district"
           );
+        } else if (currentMapView === "village") {
+          featureToClick = features.find(
+            (f) => f.getProperties().level === "village"
+          );
         }
         // If not found or in state view, find the first relevant state feature
         if (!featureToClick && currentMapView === "state") {
@@ -260,6 +632,17 @@ const OpenLayersMap: React.FC<OpenLayersMapProps> = ({
         }
       }
 
+      // Shift-click adds the area to the custom region, or takes it out
+      if (
+        featureToClick &&
+        featureToClick.getProperties().level === currentMapView &&
+        evt.originalEvent.shiftKey &&
+        onAreasSelectRef.current
+      ) {
+        onAreasSelectRef.current([featureToClick.get("shapeID")], "toggle");
+        return;
+      }
+
       if (
         featureToClick &&
         featureToClick.getGeometry()?.getType() !== "Point"
@@ -271,18 +654,18 @@ const OpenLayersMap: React.FC<OpenLayersMapProps> = ({
           const name = properties.shapeName || "Unknown Area";
           const level = properties.level;
 
-          const currentMetricData = metricDataRef.current; // Use ref
-          const currentDemographicKey = demographicKeyRef.current; // Use ref
+          const currentAreaMetrics = areaMetricsRef.current; // Use ref
           const currentOfficerNames = officerNamesRef.current; // Use ref
           const currentOnAreaClick = onAreaClickRef.current; // Use ref
 
           if (
             (currentMapView === "state" && level === "state") ||
             (currentMapView === "district" && level === "district") || // Added district condition
-            (currentMapView === "sub-district" && level === "sub-district")
+            (currentMapView === "sub-district" &&
+              (level === "sub-district" || level === "pincode")) ||
+            (currentMapView === "village" && level === "village")
           ) {
-            const areaAllMetrics =
-              currentMetricData?.[id]?.[currentDemographicKey];
+            const areaAllMetrics = currentAreaMetrics?.[id];
 
             const details = {
               id,
@@ -292,6 +675,8 @@ const OpenLayersMap: React.FC<OpenLayersMapProps> = ({
               level: level, // Pass level to details
               st_nm: properties.st_nm,
               district_name: properties.district_name,
+              subdistrict_name: properties.subdistrict_name,
+              village_name: properties.village_name,
             };
             currentOnAreaClick(details);
             // Hide tooltip when popup is active
@@ -307,6 +692,8 @@ const OpenLayersMap: React.FC<OpenLayersMapProps> = ({
 
     // Add double-click for drill-down
     newMap.on("dblclick", (evt) => {
+      // A double-click finishes a selection polygon
+      if (selectionToolRef.current) return;
       // Clear single-click timeout so popup won't trigger
       if (clickTimeoutRef.current) {
         clearTimeout(clickTimeoutRef.current);
@@ -316,10 +703,12 @@ const OpenLayersMap: React.FC<OpenLayersMapProps> = ({
       const features = newMap.getFeaturesAtPixel(evt.pixel);
       let featureToDrill = null;
 
+      // Drill into the area of the current view's level, or its state
       if (features && features.length > 0) {
-        featureToDrill = features.find(
-          (f) => f.getProperties().level === "state"
-        );
+        featureToDrill =
+          features.find(
+            (f) => f.getProperties().level === mapViewRef.current
+          ) || features.find((f) => f.getProperties().level === "state");
       }
 
       if (featureToDrill) {
@@ -328,11 +717,10 @@ const OpenLayersMap: React.FC<OpenLayersMapProps> = ({
         const name = properties.shapeName || "Unknown Area";
         const level = properties.level;
 
-        const currentMetricData = metricDataRef.current;
-        const currentDemographicKey = demographicKeyRef.current;
+        const currentAreaMetrics = areaMetricsRef.current;
         const currentOfficerNames = officerNamesRef.current;
 
-        const areaAllMetrics = currentMetricData?.[id]?.[currentDemographicKey];
+        const areaAllMetrics = currentAreaMetrics?.[id];
 
         const details = {
           id,
@@ -342,6 +730,8 @@ const OpenLayersMap: React.FC<OpenLayersMapProps> = ({
           level: level,
           st_nm: properties.st_nm,
           district_name: properties.district_name,
+          subdistrict_name: properties.subdistrict_name,
+          village_name: properties.village_name,
         };
 
         onDrillDownRef.current(details);
@@ -390,17 +780,49 @@ const OpenLayersMap: React.FC<OpenLayersMapProps> = ({
     map.updateSize();
   }, [map, vectorSource, geoJsonData, isDrilledDown, mapView]); // geoJsonData is a dependency to update features
 
-  // Update vector layer style when selectedMetric, demographicKey, metricData, getColor, or mapView changes
+  // Zoom to the focused area, retrying as the map's features change until
+  // it is loaded
   useEffect(() => {
-    if (!vectorLayer || !metricData) return;
+    if (!map || !vectorSource || !focusArea) return;
+    if (focusedRequestRef.current === focusArea.requested) return;
+    const extent = vectorSource
+      .getFeatures()
+      .find((feature) => feature.get("shapeID") === focusArea.shapeID)
+      ?.getGeometry()
+      ?.getExtent();
+    if (!extent) return;
+    focusedRequestRef.current = focusArea.requested;
+    const view = map.getView();
+    view.cancelAnimations();
+    view.fit(extent, {
+      duration: 500,
+      padding: [40, 40, 40, 40],
+      maxZoom: 14,
+    });
+  }, [map, vectorSource, geoJsonData, focusArea]);
+
+  // Update vector layer style when selectedMetric, areaMetrics, getColor, or mapView changes
+  useEffect(() => {
+    if (!vectorLayer || !areaMetrics) return;
 
     vectorLayer.setStyle((feature) => {
       const properties = feature.getProperties();
       // Use 'shapeID' from the GeoJSON properties
       const id = properties.shapeID;
       const level = properties.level; // Get the level property
-      const value = metricData?.[id]?.[demographicKey]?.[selectedMetric] || 0;
-      const fillColor = getColor(selectedMetric, value);
+      const value =
+        areaMetrics?.[id]?.[selectedMetric as keyof MetricValues] || 0;
+      const isIsolatedOut =
+        !!isolatedClass &&
+        !(value >= isolatedClass.min && value < isolatedClass.max);
+      const fillColor =
+        renderMode === "heatmap"
+          ? HEATMAP_AREA_FILL
+          : renderMode === "bivariate" && getBivariateColor
+          ? getBivariateColor(areaMetrics?.[id])
+          : isIsolatedOut
+          ? ISOLATED_OUT_FILL
+          : getColor(selectedMetric, value);
 
       const label = properties.Code_Name || "";
 
@@ -478,6 +900,42 @@ const OpenLayersMap: React.FC<OpenLayersMapProps> = ({
             zIndex: 2, // State borders on top
           });
         }
+      } else if (mapView === "village") {
+        if (level === "village") {
+          return new Style({
+            fill: new Fill({
+              color: fillColor,
+            }),
+            stroke: new Stroke({
+              color: "#fcf3cf", // Village border color
+              width: 0.3,
+            }),
+            zIndex: 1,
+          });
+        } else if (level === "sub-district" || level === "district") {
+          // Taluk and district borders over the villages
+          return new Style({
+            fill: new Fill({
+              color: "rgba(0,0,0,0)",
+            }),
+            stroke: new Stroke({
+              color: "#273746",
+              width: level === "district" ? 1 : 0.6,
+            }),
+            zIndex: 1.5,
+          });
+        } else if (level === "state") {
+          return new Style({
+            fill: new Fill({
+              color: "rgba(0,0,0,0)",
+            }),
+            stroke: new Stroke({
+              color: "#17202a",
+              width: 2,
+            }),
+            zIndex: 2,
+          });
+        }
       } else {
         // 'sub-district' view
         if (level === "sub-district") {
@@ -521,22 +979,326 @@ const OpenLayersMap: React.FC<OpenLayersMapProps> = ({
     });
   }, [
     vectorLayer,
-    metricData,
+    areaMetrics,
     selectedMetric,
-    demographicKey,
     getColor,
     mapView,
+    renderMode,
+    isolatedClass,
+    getBivariateColor,
   ]); // Add mapView to dependencies
 
+  // Show PIN code areas for the sub-district view
+  useEffect(() => {
+    if (!pinCodeLayer) return;
+    const source = pinCodeLayer.getSource() as VectorSource;
+    source.clear();
+    if (mapView === "sub-district" && pinCodeGeoJson) {
+      source.addFeatures(
+        new GeoJSON({ featureProjection: "EPSG:3857" }).readFeatures(
+          pinCodeGeoJson
+        )
+      );
+    }
+  }, [pinCodeLayer, pinCodeGeoJson, mapView]);
+
+  useEffect(() => {
+    if (!pinCodeLayer || !areaMetrics) return;
+    pinCodeLayer.setStyle((feature) => {
+      const value =
+        areaMetrics[feature.getProperties().shapeID]?.[
+          selectedMetric as keyof MetricValues
+        ] || 0;
+      const isIsolatedOut =
+        !!isolatedClass &&
+        !(value >= isolatedClass.min && value < isolatedClass.max);
+      return new Style({
+        fill: new Fill({
+          // PIN code areas are only coloured by the classified metric, in
+          // the legend's classes
+          color:
+            renderMode !== "choropleth"
+              ? HEATMAP_AREA_FILL
+              : isIsolatedOut
+              ? ISOLATED_OUT_FILL
+              : getColor(selectedMetric, value),
+        }),
+        stroke: new Stroke({ color: "#fcf3cf", width: 0.4 }),
+      });
+    });
+  }, [
+    pinCodeLayer,
+    areaMetrics,
+    selectedMetric,
+    getColor,
+    renderMode,
+    isolatedClass,
+  ]);
+
+  // Show the beneficiary markers
+  useEffect(() => {
+    if (!beneficiaryLayer) return;
+    const source = (beneficiaryLayer.getSource() as Cluster).getSource();
+    source?.clear();
+    source?.addFeatures(
+      (beneficiaryPoints || []).map(
+        (point) =>
+          new Feature({
+            geometry: new Point(point.coordinate),
+            record: point.record,
+          })
+      )
+    );
+  }, [beneficiaryLayer, beneficiaryPoints]);
+
+  // Markers take their category's colour; clusters that of their most
+  // common category
+  useEffect(() => {
+    if (!beneficiaryLayer) return;
+    const styles: Record<string, Style> = {};
+    beneficiaryLayer.setStyle((feature) => {
+      const members: Feature[] = feature.get("features") || [];
+      const counts: Record<string, number> = {};
+      members.forEach((member) => {
+        const category =
+          (member.get("record") as PMMSYRecord)[beneficiaryColorField] ||
+          "Unknown";
+        counts[category] = (counts[category] || 0) + 1;
+      });
+      const category = Object.keys(counts).sort(
+        (a, b) => counts[b] - counts[a]
+      )[0];
+      const color = beneficiaryColors?.[category] || "#4b5563";
+      const size = members.length;
+      const key = `${color}_${size}`;
+      if (!styles[key]) {
+        styles[key] = new Style({
+          image: new CircleStyle({
+            radius: size === 1 ? 6 : Math.min(10 + Math.log2(size) * 3, 28),
+            fill: new Fill({ color }),
+            stroke: new Stroke({ color: "#ffffff", width: 2 }),
+          }),
+          text:
+            size > 1
+              ? new Text({
+                  text: String(size),
+                  font: "bold 12px 'Inter', sans-serif",
+                  fill: new Fill({ color: "#ffffff" }),
+                })
+              : undefined,
+        });
+      }
+      return styles[key];
+    });
+  }, [beneficiaryLayer, beneficiaryColorField, beneficiaryColors]);
+
+  // Heatmap points, weighted by the chosen measure
+  const heatmapWeight = heatmapSettings?.weight || "totalProjects";
+  useEffect(() => {
+    if (!heatmapLayer) return;
+    const source = heatmapLayer.getSource();
+    source?.clear();
+    if (renderMode !== "heatmap" || !heatmapPoints) return;
+    const weights = heatmapWeights(heatmapPoints, heatmapWeight);
+    source?.addFeatures(
+      heatmapPoints.map(
+        (point, idx) =>
+          new Feature({
+            geometry: new Point(point.coordinate),
+            weight: weights[idx],
+          })
+      )
+    );
+  }, [heatmapLayer, heatmapPoints, heatmapWeight, renderMode]);
+
+  useEffect(() => {
+    if (!heatmapLayer) return;
+    heatmapLayer.setVisible(renderMode === "heatmap");
+    if (heatmapSettings) {
+      heatmapLayer.setRadius(heatmapSettings.radius);
+      heatmapLayer.setBlur(heatmapSettings.blur);
+    }
+  }, [heatmapLayer, renderMode, heatmapSettings]);
+
+  // Circles at the interior points of the current level's areas; the
+  // extent centre of a coastal or island area can fall in the sea
+  useEffect(() => {
+    if (!symbolLayer) return;
+    const source = symbolLayer.getSource() as VectorSource;
+    source.clear();
+    if (!symbolMetric || !vectorSource || !geoJsonData) return;
+    source.addFeatures(
+      vectorSource.getFeatures().flatMap((feature) => {
+        if (feature.get("level") !== mapView) return [];
+        const radius = symbolRadius(
+          areaMetrics?.[feature.get("shapeID")]?.[symbolMetric] || 0,
+          symbolMaxValue
+        );
+        const point = interiorPoint(feature.getGeometry());
+        if (radius <= 0 || !point) return [];
+        return [new Feature({ geometry: new Point(point), radius })];
+      })
+    );
+  }, [
+    symbolLayer,
+    vectorSource,
+    geoJsonData,
+    mapView,
+    areaMetrics,
+    symbolMetric,
+    symbolMaxValue,
+  ]);
+
+  useEffect(() => {
+    if (!symbolLayer) return;
+    const styles: Record<number, Style> = {};
+    symbolLayer.setStyle((feature) => {
+      const radius = Math.round(feature.get("radius") * 2) / 2;
+      if (!styles[radius]) {
+        styles[radius] = new Style({
+          image: new CircleStyle({
+            radius,
+            fill: new Fill({ color: SYMBOL_FILL }),
+            stroke: new Stroke({ color: SYMBOL_STROKE, width: 1 }),
+          }),
+        });
+      }
+      return styles[radius];
+    });
+  }, [symbolLayer]);
+
+  const basemapKey = basemap?.key ?? "none";
+  useEffect(() => {
+    if (!basemapLayer) return;
+    const source =
+      basemapKey === "none" ? null : createBasemapSource(basemapKey);
+    basemapLayer.setSource(source);
+    basemapLayer.setVisible(source !== null);
+  }, [basemapLayer, basemapKey]);
+
+  // Area fills and outlines fade over the basemap
+  const areaOpacity = basemap?.areaOpacity ?? 1;
+  useEffect(() => {
+    vectorLayer?.setOpacity(areaOpacity);
+    pinCodeLayer?.setOpacity(areaOpacity);
+  }, [vectorLayer, pinCodeLayer, areaOpacity]);
+
+  // Draw a polygon or box; the current level's areas inside it become the
+  // selection
+  useEffect(() => {
+    if (!map || !vectorSource || !selectionTool) return;
+    const draw = new Draw({
+      type: selectionTool === "box" ? "Circle" : "Polygon",
+      geometryFunction: selectionTool === "box" ? createBox() : undefined,
+    });
+    draw.on("drawend", (evt) => {
+      const shape = evt.feature.getGeometry() as Polygon;
+      const shapeIDs = vectorSource
+        .getFeatures()
+        .filter((feature) => {
+          if (feature.get("level") !== mapViewRef.current) return false;
+          const point = interiorPoint(feature.getGeometry());
+          return !!point && shape.intersectsCoordinate(point);
+        })
+        .map((feature) => feature.get("shapeID") as string);
+      onAreasSelectRef.current?.(shapeIDs, "replace");
+    });
+    map.addInteraction(draw);
+    return () => {
+      map.removeInteraction(draw);
+    };
+  }, [map, vectorSource, selectionTool]);
+
+  useEffect(() => {
+    if (!selectionLayer) return;
+    const source = selectionLayer.getSource() as VectorSource;
+    source.clear();
+    if (!vectorSource || !selectedAreaIds?.length) return;
+    const selected = new Set(selectedAreaIds);
+    source.addFeatures(
+      vectorSource.getFeatures().flatMap((feature) => {
+        const geometry = feature.getGeometry();
+        return geometry && selected.has(feature.get("shapeID"))
+          ? [new Feature({ geometry: geometry.clone() })]
+          : [];
+      })
+    );
+  }, [selectionLayer, vectorSource, geoJsonData, selectedAreaIds]);
+
+  // Current view as a page with the title, filters and legend
+  const handleExport = async (
+    format: MapExportFormat,
+    pageSize: PageSizeKey
+  ) => {
+    if (!map || !exportDetails) return;
+    const currentView = map.getView();
+    await exportMapPage(
+      {
+        title: getFullMetricName(),
+        filters: exportDetails.filters,
+        legend: exportDetails.legend,
+        mapCanvas: await renderMapCanvas(map),
+        cssWidth: map.getSize()?.[0] || 1,
+        metersPerPixel: getPointResolution(
+          currentView.getProjection(),
+          currentView.getResolution() || 0,
+          currentView.getCenter() || [0, 0],
+          "m"
+        ),
+        rotation: currentView.getRotation(),
+      },
+      format,
+      pageSize
+    );
+  };
+
+  // The hovered area is drawn last so its outline shows when it is also
+  // the selected one
+  useEffect(() => {
+    if (!highlightLayer) return;
+    const source = highlightLayer.getSource() as VectorSource;
+    source.clear();
+    if (!vectorSource) return;
+    [selectedAreaId, highlightedAreaId].forEach((shapeID, idx) => {
+      const geometry = shapeID
+        ? vectorSource
+            .getFeatures()
+            .find((feature) => feature.get("shapeID") === shapeID)
+            ?.getGeometry()
+        : undefined;
+      if (geometry) {
+        source.addFeature(
+          new Feature({ geometry: geometry.clone(), hovered: idx === 1 })
+        );
+      }
+    });
+  }, [
+    highlightLayer,
+    vectorSource,
+    geoJsonData,
+    selectedAreaId,
+    highlightedAreaId,
+  ]);
+
   return (
-    <div
-      ref={mapRef}
-      style={{
-        width: "100%",
-        height: "100%",
-        minHeight: "200px",
-      }}
-    />
+    <div style={{ position: "relative", width: "100%", height: "100%" }}>
+      <div
+        ref={mapRef}
+        style={{
+          width: "100%",
+          height: "100%",
+          minHeight: "200px",
+        }}
+      />
+      {(exportDetails || (basemap && onBasemapChange)) && (
+        <div className="absolute bottom-24 right-3 flex flex-col items-end gap-2">
+          {basemap && onBasemapChange && (
+            <BasemapSwitcher settings={basemap} onChange={onBasemapChange} />
+          )}
+          {exportDetails && <MapExportMenu onExport={handleExport} />}
+        </div>
+      )}
+    </div>
   );
 };
 
@@ -0,0 +1,263 @@
+import React, { useMemo, useState } from "react";
+import { X, Upload, AlertTriangle } from "lucide-react";
+import {
+  applyColumnMapping,
+  autoMapColumns,
+  missingRequiredColumns,
+  pmmsyImportColumns,
+  readSpreadsheet,
+} from "../data/pmmsyImport";
+import type {
+  ColumnMapping,
+  ParsedSheet,
+  PMMSYImportColumn,
+} from "../data/pmmsyImport";
+import type { PMMSYRawRecord } from "../data/pmmsyRecords";
+
+interface PMMSYImporterProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImport: (records: PMMSYRawRecord[]) => void;
+}
+
+// Columns shown in the preview table
+const previewColumns: { column: PMMSYImportColumn; label: string }[] = [
+  { column: "UNIQUE_ID", label: "ID" },
+  { column: "NAME_OF_THE_STATE/UT", label: "State/UT" },
+  { column: "BENEFICIARY_DISTRICT", label: "District" },
+  { column: "FISHERIES_SECTOR_OF_THE_STATE/UT", label: "Sector" },
+  { column: "FINANCIAL_YEAR", label: "Financial Year" },
+  { column: "NAME_OF_THE_ACTIVITY", label: "Activity" },
+  {
+    column:
+      "SUM_OF_TOTAL_COST_(CENTRAL_SHARE+_STATE_SHARE+_BENEFICIARY_CONTRIBUTION)",
+    label: "Total Cost",
+  },
+];
+
+const PREVIEW_ROWS = 5;
+
+const PMMSYImporter: React.FC<PMMSYImporterProps> = ({
+  isOpen,
+  onClose,
+  onImport,
+}) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const records = useMemo(
+    () =>
+      sheet && fileName
+        ? applyColumnMapping(sheet, mapping, `IMPORT-${fileName}`)
+        : [],
+    [sheet, mapping, fileName]
+  );
+  const missingColumns = useMemo(
+    () => missingRequiredColumns(mapping),
+    [mapping]
+  );
+
+  const reset = () => {
+    setFileName(null);
+    setSheet(null);
+    setMapping({});
+    setError(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    reset();
+    setLoading(true);
+    readSpreadsheet(file)
+      .then((parsed) => {
+        if (parsed.rows.length === 0) {
+          throw new Error("The sheet does not contain any rows");
+        }
+        setFileName(file.name);
+        setSheet(parsed);
+        setMapping(autoMapColumns(parsed.headers));
+      })
+      .catch((err) => {
+        console.error("Spreadsheet import error:", err);
+        setError(err.message);
+      })
+      .finally(() => setLoading(false));
+  };
+
+  const handleImport = () => {
+    if (records.length === 0 || missingColumns.length > 0) return;
+    onImport(records);
+    handleClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b">
+          <h2 className="text-2xl font-bold text-gray-800">
+            Import PMMSY Beneficiary Sheet
+          </h2>
+          <button
+            onClick={handleClose}
+            className="p-2 rounded-full bg-gray-100 hover:bg-gray-200 transition-colors text-gray-600"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <label className="flex items-center gap-3 p-4 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-blue-400 transition-colors">
+            <Upload className="w-5 h-5 text-blue-600" />
+            <span className="text-sm text-gray-700">
+              {loading
+                ? "Reading file..."
+                : fileName || "Choose a CSV or Excel (.xlsx) file"}
+            </span>
+            <input
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </label>
+
+          {error && (
+            <div className="bg-red-50 border-l-4 border-red-500 p-3 text-sm text-red-800">
+              {error}
+            </div>
+          )}
+
+          {sheet && (
+            <>
+              <div>
+                <h3 className="text-lg font-semibold text-gray-800 mb-2">
+                  Column Mapping
+                </h3>
+                <div className="max-h-64 overflow-y-auto border rounded-lg">
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-gray-100 sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2 text-left">Sheet Column</th>
+                        <th className="px-3 py-2 text-left">Sample</th>
+                        <th className="px-3 py-2 text-left">Maps To</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {sheet.headers.map((header) => (
+                        <tr
+                          key={header}
+                          className={mapping[header] ? "" : "bg-yellow-50"}
+                        >
+                          <td className="px-3 py-1 border-t font-medium">
+                            {header}
+                          </td>
+                          <td className="px-3 py-1 border-t text-gray-500 truncate max-w-[12rem]">
+                            {String(sheet.rows[0]?.[header] ?? "")}
+                          </td>
+                          <td className="px-3 py-1 border-t">
+                            <select
+                              value={mapping[header] || ""}
+                              onChange={(e) =>
+                                setMapping((prev) => ({
+                                  ...prev,
+                                  [header]: e.target.value as
+                                    | PMMSYImportColumn
+                                    | "",
+                                }))
+                              }
+                              className="w-full p-1 bg-gray-50 border border-gray-300 rounded-md text-xs"
+                            >
+                              <option value="">(skip column)</option>
+                              {pmmsyImportColumns.map((column) => (
+                                <option key={column} value={column}>
+                                  {column}
+                                </option>
+                              ))}
+                            </select>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              {missingColumns.length > 0 && (
+                <div className="bg-yellow-50 border-l-4 border-yellow-500 p-3 text-sm text-yellow-800 flex items-start gap-2">
+                  <AlertTriangle className="w-4 h-4 mt-0.5" />
+                  <span>
+                    Map these required columns before importing:{" "}
+                    {missingColumns.join(", ")}
+                  </span>
+                </div>
+              )}
+
+              <div>
+                <h3 className="text-lg font-semibold text-gray-800 mb-2">
+                  Preview ({Math.min(PREVIEW_ROWS, records.length)} of{" "}
+                  {records.length} rows)
+                </h3>
+                <div className="overflow-x-auto border rounded-lg">
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-gray-100">
+                      <tr>
+                        {previewColumns.map(({ column, label }) => (
+                          <th key={column} className="px-3 py-2 text-left">
+                            {label}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {/* IDs can repeat in a sheet, so rows are keyed by
+                          position */}
+                      {records.slice(0, PREVIEW_ROWS).map((record, index) => (
+                        <tr key={index}>
+                          {previewColumns.map(({ column }) => (
+                            <td key={column} className="px-3 py-1 border-t">
+                              {record[column] ?? "-"}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t">
+          <button
+            onClick={handleClose}
+            className="px-4 py-2 rounded-lg bg-gray-200 hover:bg-gray-300 text-gray-800 text-sm font-medium"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={records.length === 0 || missingColumns.length > 0}
+            className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Import {records.length > 0 ? `${records.length} rows` : ""}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PMMSYImporter;
@@ -0,0 +1,208 @@
+import React, { useState } from "react";
+import { X, Trash2 } from "lucide-react";
+import type { PlaceAlias, PlaceLevel } from "../data/gazetteer";
+import type { PlaceReviewItem } from "../data/pmmsyRecords";
+
+interface PlaceReviewPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Null while the records are still being matched
+  review: PlaceReviewItem[] | null;
+  aliases: PlaceAlias[];
+  onSaveAlias: (alias: PlaceAlias) => void;
+  onRemoveAlias: (alias: PlaceAlias) => void;
+}
+
+const levelLabels: Record<PlaceLevel, string> = {
+  state: "State",
+  district: "District",
+  "sub-district": "Sub-district",
+  village: "Village",
+};
+
+const itemKey = (item: { level: PlaceLevel; state: string; name: string }) =>
+  `${item.level}_${item.state}_${item.name}`;
+
+const PlaceReviewPanel: React.FC<PlaceReviewPanelProps> = ({
+  isOpen,
+  onClose,
+  review,
+  aliases,
+  onSaveAlias,
+  onRemoveAlias,
+}) => {
+  // Polygon chosen per review row, defaulting to the fuzzy match or the
+  // closest candidate
+  const [choices, setChoices] = useState<Record<string, string>>({});
+
+  if (!isOpen) return null;
+
+  const choiceFor = (item: PlaceReviewItem): string =>
+    choices[itemKey(item)] ?? item.match ?? item.candidates[0] ?? "";
+
+  const saveChoice = (item: PlaceReviewItem) => {
+    const name = choiceFor(item);
+    if (!name) return;
+    onSaveAlias({
+      level: item.level,
+      state: item.level === "state" ? "" : item.state,
+      alias: item.name,
+      name,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b">
+          <h2 className="text-2xl font-bold text-gray-800">Place Names</h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full bg-gray-100 hover:bg-gray-200 transition-colors text-gray-600"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          {!review ? (
+            <p className="text-sm text-gray-500">Matching place names...</p>
+          ) : review.length === 0 ? (
+            <p className="text-sm text-green-700">
+              Every place name in the records matches a boundary.
+            </p>
+          ) : (
+            <div className="overflow-x-auto border rounded-lg">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-100">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Level</th>
+                    <th className="px-3 py-2 text-left">State</th>
+                    <th className="px-3 py-2 text-left">Name in Records</th>
+                    <th className="px-3 py-2 text-right">Records</th>
+                    <th className="px-3 py-2 text-left">Status</th>
+                    <th className="px-3 py-2 text-left">Boundary</th>
+                    <th className="px-3 py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {review.map((item) => (
+                    <tr key={itemKey(item)}>
+                      <td className="px-3 py-2 border-t">
+                        {levelLabels[item.level]}
+                      </td>
+                      <td className="px-3 py-2 border-t">
+                        {item.level === "state" ? "-" : item.state}
+                      </td>
+                      <td className="px-3 py-2 border-t font-medium">
+                        {item.name}
+                      </td>
+                      <td className="px-3 py-2 border-t text-right">
+                        {item.records}
+                      </td>
+                      <td className="px-3 py-2 border-t">
+                        {item.method === "fuzzy" ? (
+                          <span className="px-2 py-0.5 rounded-full text-xs font-medium text-amber-700 bg-amber-50">
+                            Guessed ({Math.round(item.score * 100)}%)
+                          </span>
+                        ) : (
+                          <span className="px-2 py-0.5 rounded-full text-xs font-medium text-red-700 bg-red-50">
+                            Unmatched
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 border-t">
+                        <select
+                          value={choiceFor(item)}
+                          onChange={(e) =>
+                            setChoices((prev) => ({
+                              ...prev,
+                              [itemKey(item)]: e.target.value,
+                            }))
+                          }
+                          className="border rounded px-2 py-1 text-sm"
+                        >
+                          {item.candidates.map((candidate) => (
+                            <option key={candidate} value={candidate}>
+                              {candidate}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-3 py-2 border-t text-right">
+                        <button
+                          onClick={() => saveChoice(item)}
+                          disabled={!choiceFor(item)}
+                          className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white font-bold py-1 px-3 rounded-full text-xs"
+                        >
+                          {item.method === "fuzzy" &&
+                          choiceFor(item) === item.match
+                            ? "Confirm"
+                            : "Assign"}
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <p className="text-xs text-gray-500">
+            Guessed names are already shown on the closest boundary by spelling;
+            unmatched names are left off the map. Confirming or assigning a name
+            saves it as an alias in this browser.
+          </p>
+
+          {aliases.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-lg font-semibold text-gray-800">
+                Saved Aliases
+              </h3>
+              <div className="overflow-x-auto border rounded-lg">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-100">
+                    <tr>
+                      <th className="px-3 py-2 text-left">Level</th>
+                      <th className="px-3 py-2 text-left">State</th>
+                      <th className="px-3 py-2 text-left">Name in Records</th>
+                      <th className="px-3 py-2 text-left">Boundary</th>
+                      <th className="px-3 py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {aliases.map((alias) => (
+                      <tr key={itemKey({ ...alias, name: alias.alias })}>
+                        <td className="px-3 py-2 border-t">
+                          {levelLabels[alias.level]}
+                        </td>
+                        <td className="px-3 py-2 border-t">
+                          {alias.state || "-"}
+                        </td>
+                        <td className="px-3 py-2 border-t font-medium">
+                          {alias.alias}
+                        </td>
+                        <td className="px-3 py-2 border-t">{alias.name}</td>
+                        <td className="px-3 py-2 border-t text-right">
+                          <button
+                            onClick={() => onRemoveAlias(alias)}
+                            className="p-1 rounded-full text-gray-500 hover:text-red-600 hover:bg-red-50"
+                            aria-label="Remove alias"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlaceReviewPanel;
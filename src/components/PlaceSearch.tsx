@@ -0,0 +1,101 @@
+import React, { useMemo, useState } from "react";
+import { Search } from "lucide-react";
+import { searchPlaces } from "../data/placeSearch";
+import type { PlaceSearchEntry, SearchLevel } from "../data/placeSearch";
+
+interface PlaceSearchProps {
+  index: PlaceSearchEntry[];
+  onSelect: (entry: PlaceSearchEntry) => void;
+}
+
+const levelLabels: Record<SearchLevel, string> = {
+  state: "State",
+  district: "District",
+  "sub-district": "Sub-District",
+  village: "Village",
+};
+
+const PlaceSearch: React.FC<PlaceSearchProps> = ({ index, onSelect }) => {
+  const [query, setQuery] = useState("");
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const results = useMemo(() => searchPlaces(index, query), [index, query]);
+
+  const choose = (entry: PlaceSearchEntry) => {
+    onSelect(entry);
+    setQuery(entry.name);
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setHighlighted(
+        (prev) => (prev + step + results.length) % Math.max(results.length, 1)
+      );
+      setIsOpen(true);
+    } else if (e.key === "Enter" && results[highlighted]) {
+      choose(results[highlighted].entry);
+    } else if (e.key === "Escape") {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative w-64">
+      <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+      <input
+        type="search"
+        aria-label="Search places"
+        placeholder="Search state, district, village..."
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setHighlighted(0);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        className="w-full pl-8 pr-2 py-1 bg-gray-50 border border-gray-300 rounded-full text-sm"
+      />
+      {isOpen && query.trim() && (
+        <ul className="absolute z-50 mt-1 w-full max-h-72 overflow-y-auto bg-white rounded-lg shadow-lg border border-gray-200">
+          {results.length === 0 ? (
+            <li className="px-3 py-2 text-xs text-gray-500">
+              No matching places on the map
+            </li>
+          ) : (
+            results.map(({ entry }, idx) => (
+              <li key={entry.area.properties.shapeID}>
+                <button
+                  // Keep focus in the input so the list stays open
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => choose(entry)}
+                  onMouseEnter={() => setHighlighted(idx)}
+                  className={`w-full px-3 py-1.5 text-left ${
+                    idx === highlighted ? "bg-blue-50" : ""
+                  }`}
+                >
+                  <span className="block text-sm text-gray-800">
+                    {entry.name}
+                    <span className="ml-2 text-xs text-gray-500">
+                      {levelLabels[entry.level]}
+                    </span>
+                  </span>
+                  <span className="block text-xs text-gray-500">
+                    {entry.fromRecords && "As written in records · "}
+                    {entry.context}
+                  </span>
+                </button>
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PlaceSearch;
@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from "react";
+import { X, MapPin, Save, Trash2 } from "lucide-react";
+import type { MapViewLevel, MetricValues } from "../App";
+
+interface RegionDetailsPopupProps {
+  region: {
+    // Name it was saved under, if any
+    name: string | null;
+    level: MapViewLevel;
+    areaNames: string[];
+    metrics: MetricValues;
+  } | null;
+  metricKeys: (keyof MetricValues)[];
+  getMetricDisplayName: (metric: string) => string;
+  formatMetricValue: (metric: string, value: number) => string;
+  onSave: (name: string) => void;
+  onDelete: (name: string) => void;
+  onClose: () => void;
+}
+
+const levelLabels: Record<MapViewLevel, string> = {
+  state: "States",
+  district: "Districts",
+  "sub-district": "Sub-Districts",
+  village: "Villages",
+};
+
+// Totals of a custom region, laid out like the single-area details panel
+const RegionDetailsPopup: React.FC<RegionDetailsPopupProps> = ({
+  region,
+  metricKeys,
+  getMetricDisplayName,
+  formatMetricValue,
+  onSave,
+  onDelete,
+  onClose,
+}) => {
+  const [name, setName] = useState("");
+  const savedName = region?.name ?? null;
+
+  useEffect(() => {
+    setName(savedName ?? "");
+  }, [savedName]);
+
+  return (
+    <div
+      className={`fixed right-0 top-0 h-full w-full sm:w-96 bg-white/95 backdrop-blur-lg shadow-2xl z-50 transform transition-transform duration-300 ${
+        region ? "translate-x-0" : "translate-x-full"
+      } flex flex-col p-2 px-4 border-l border-white/20 overflow-y-auto`}
+    >
+      <div className="flex justify-between items-center mb-1">
+        <h2 className="text-2xl font-bold text-gray-800">
+          {region?.name || "Custom Region"}
+        </h2>
+        <button
+          onClick={onClose}
+          className="p-2 rounded-full bg-gray-100 hover:bg-gray-200 transition-colors text-gray-600"
+          aria-label="Close"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+      {region && (
+        <>
+          <div className="bg-blue-50 p-3 rounded-lg flex items-center gap-2">
+            <MapPin className="w-4 h-4 text-blue-600" />
+            <strong className="font-semibold">
+              {levelLabels[region.level]}:
+            </strong>{" "}
+            <span className="font-medium">{region.areaNames.length}</span>
+          </div>
+          <div className="bg-white rounded-lg border shadow-sm p-4 mt-2">
+            <h3 className="text-lg font-semibold text-gray-800 mb-3">
+              Region Totals
+            </h3>
+            <ul className="space-y-3">
+              {metricKeys.map((metric) => (
+                <li key={metric}>
+                  <p className="text-sm font-medium text-gray-500">
+                    {getMetricDisplayName(metric)}
+                  </p>
+                  <p className="text-xl font-bold text-gray-800">
+                    {formatMetricValue(metric, region.metrics[metric] ?? 0)}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (name.trim()) onSave(name.trim());
+            }}
+            className="flex items-center gap-2 mt-2"
+          >
+            <input
+              aria-label="Region name"
+              placeholder="Name this region"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="flex-1 p-1.5 bg-gray-50 border border-gray-300 rounded-md text-sm"
+            />
+            <button
+              type="submit"
+              disabled={!name.trim()}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-md bg-blue-600 text-white text-sm hover:bg-blue-700 disabled:opacity-40"
+            >
+              <Save className="w-4 h-4" />
+              Save
+            </button>
+            {savedName && (
+              <button
+                type="button"
+                onClick={() => onDelete(savedName)}
+                aria-label="Delete saved region"
+                className="p-1.5 rounded-md bg-gray-100 text-gray-600 hover:bg-red-100 hover:text-red-600"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </form>
+          <div className="mt-3">
+            <h4 className="text-sm font-semibold text-gray-700 mb-1">
+              Areas in this region
+            </h4>
+            <ul className="text-sm text-gray-600 space-y-0.5">
+              {region.areaNames.map((areaName, idx) => (
+                <li key={idx}>{areaName}</li>
+              ))}
+            </ul>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RegionDetailsPopup;
@@ -1,23 +1,34 @@
-interface BiharFullTableProps {
-  biharGeoJson: any;
-  metricData: Record<string, AreaMetricData> | null;
-  demographicKey: string;
+import type { MetricValues } from "../App";
+
+// District-by-district table of a drilled-down state
+interface StateDistrictTableProps {
+  districtGeoJson: any;
+  areaMetrics: Record<string, MetricValues> | null;
   formatMetricValue: (metric: string, value: number) => string;
+  // Rows of the hovered and the selected district are marked; hovering or
+  // clicking a row reports its district
+  highlightedAreaId?: string | null;
+  selectedAreaId?: string | null;
+  onAreaHover?: (shapeID: string | null) => void;
+  onAreaClick?: (shapeID: string) => void;
 }
 
-const BiharFullTable: React.FC<BiharFullTableProps> = ({
-  biharGeoJson,
-  metricData,
-  demographicKey,
+const StateDistrictTable: React.FC<StateDistrictTableProps> = ({
+  districtGeoJson,
+  areaMetrics,
   formatMetricValue,
+  highlightedAreaId,
+  selectedAreaId,
+  onAreaHover,
+  onAreaClick,
 }) => {
-  if (!biharGeoJson || !metricData) return null;
+  if (!districtGeoJson || !areaMetrics) return null;
 
   // Collect all district rows
-  const rows = biharGeoJson.features.map((f: any) => {
+  const rows = districtGeoJson.features.map((f: any) => {
     const distId = f.properties.shapeID;
     const distName = f.properties.shapeName;
-    const distMetrics = metricData[distId]?.[demographicKey] || {};
+    const distMetrics = areaMetrics[distId] || {};
 
     return {
       id: distId,
@@ -27,7 +38,7 @@ const BiharFullTable: React.FC<BiharFullTableProps> = ({
       endDate: f.properties.endDate || "N/A",
       activityName: f.properties.activityName || "N/A",
       subActivityName: f.properties.subActivityName || "N/A",
-      beneficiaryType: f.properties.beneficiaryTypes || "N/A",
+      beneficiaryType: f.properties.beneficiaryType || "N/A",
       centralShare: f.properties.centralShare || 0,
       stateShare: f.properties.stateShare || 0,
       beneficiaryShare: f.properties.beneficiaryShare || 0,
@@ -95,15 +106,25 @@ const BiharFullTable: React.FC<BiharFullTableProps> = ({
             (row) => (
               console.log(row),
               (
-                <tr key={row.id} className="hover:bg-gray-50">
+                <tr
+                  key={row.id}
+                  onMouseEnter={() => onAreaHover?.(row.id)}
+                  onMouseLeave={() => onAreaHover?.(null)}
+                  onClick={() => onAreaClick?.(row.id)}
+                  className={`${
+                    row.id === highlightedAreaId
+                      ? "bg-amber-50"
+                      : row.id === selectedAreaId
+                      ? "bg-blue-50"
+                      : "hover:bg-gray-50"
+                  } ${onAreaClick ? "cursor-pointer" : ""}`}
+                >
                   <td className="px-3 py-2 border font-medium">{row.name}</td>
                   <td className="px-3 py-2 border">{row.activityName}</td>
                   <td className="px-3 py-2 border">{row.subActivityName}</td>
                   <td className="px-3 py-2 border">{row.startDate}</td>
                   <td className="px-3 py-2 border">{row.endDate}</td>
-                  <td className="px-3 py-2 border">
-                    {row.beneficiaryType[row.id % row.beneficiaryType.length]}
-                  </td>
+                  <td className="px-3 py-2 border">{row.beneficiaryType}</td>
                   <td className="px-3 py-2 border text-right">
                     {formatMetricValue("funds", row.centralShare)}
                   </td>
@@ -165,4 +186,4 @@ const BiharFullTable: React.FC<BiharFullTableProps> = ({
   );
 };
 
-export default BiharFullTable;
+export default StateDistrictTable;
@@ -0,0 +1,82 @@
+import React from "react";
+import type { MetricValues } from "../App";
+import {
+  MAX_SYMBOL_RADIUS,
+  symbolLegendValues,
+  symbolRadius,
+} from "../data/proportionalSymbols";
+
+type MetricKey = keyof MetricValues;
+
+interface SymbolLegendProps {
+  metric: MetricKey;
+  // Metrics the circles can be sized by
+  metricOptions: MetricKey[];
+  getMetricDisplayName: (metric: string) => string;
+  formatMetricValue: (metric: string, value: number) => string;
+  onChange: (metric: MetricKey) => void;
+  // Value drawn at the largest radius
+  maxValue: number;
+}
+
+const SymbolLegend: React.FC<SymbolLegendProps> = ({
+  metric,
+  metricOptions,
+  getMetricDisplayName,
+  formatMetricValue,
+  onChange,
+  maxValue,
+}) => {
+  const values = symbolLegendValues(maxValue);
+  const size = MAX_SYMBOL_RADIUS * 2 + 2;
+
+  return (
+    <div className="absolute top-4 left-4 bg-white/90 p-3 rounded-lg shadow-md border border-gray-200 w-56 space-y-2">
+      <h4 className="text-sm font-semibold text-gray-800">Circle Size</h4>
+      <select
+        aria-label="Size circles by"
+        value={metric}
+        onChange={(e) => onChange(e.target.value as MetricKey)}
+        className="w-full p-1 bg-gray-50 border border-gray-300 rounded-md text-xs"
+      >
+        {metricOptions.map((option) => (
+          <option key={option} value={option}>
+            {getMetricDisplayName(option)}
+          </option>
+        ))}
+      </select>
+      {values.length > 0 ? (
+        <div className="flex items-end gap-3">
+          {/* Nested circles sharing a bottom edge */}
+          <svg width={size} height={size} className="shrink-0">
+            {values.map((value) => {
+              const radius = symbolRadius(value, maxValue);
+              return (
+                <circle
+                  key={value}
+                  cx={size / 2}
+                  cy={size - 1 - radius}
+                  r={radius}
+                  fill="rgba(17, 24, 39, 0.08)"
+                  stroke="#111827"
+                  strokeWidth={1}
+                />
+              );
+            })}
+          </svg>
+          <div className="space-y-0.5">
+            {values.map((value) => (
+              <p key={value} className="text-xs text-gray-700">
+                {formatMetricValue(metric, value)}
+              </p>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">No values on this map</p>
+      )}
+    </div>
+  );
+};
+
+export default SymbolLegend;
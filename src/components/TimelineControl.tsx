@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from "react";
+import { Pause, Play } from "lucide-react";
+import { fiscalPeriodLabel, fiscalYearOf } from "../data/fiscalPeriods";
+import type { FiscalPeriodKey } from "../data/fiscalPeriods";
+
+interface TimelineControlProps {
+  // Financial years with data, oldest first
+  fiscalYears: FiscalPeriodKey[];
+  selectedPeriod: FiscalPeriodKey;
+  onSelectPeriod: (period: FiscalPeriodKey) => void;
+  // Totals up to the selected year instead of the year alone
+  cumulative: boolean;
+  onCumulativeChange: (cumulative: boolean) => void;
+}
+
+// Time each year stays on screen while playing
+const playbackSpeeds = [
+  { label: "0.5x", delay: 3000 },
+  { label: "1x", delay: 1500 },
+  { label: "2x", delay: 750 },
+];
+
+const TimelineControl: React.FC<TimelineControlProps> = ({
+  fiscalYears,
+  selectedPeriod,
+  onSelectPeriod,
+  cumulative,
+  onCumulativeChange,
+}) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [delay, setDelay] = useState(playbackSpeeds[1].delay);
+  const yearIndex = fiscalYears.indexOf(fiscalYearOf(selectedPeriod));
+
+  // Step to the next year, stopping after the last
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setTimeout(() => {
+      const next = fiscalYears[yearIndex + 1];
+      if (next) onSelectPeriod(next);
+      else setIsPlaying(false);
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [isPlaying, yearIndex, delay, fiscalYears, onSelectPeriod]);
+
+  const togglePlay = () => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    // Start over from the first year unless paused part way
+    if (yearIndex === -1 || yearIndex === fiscalYears.length - 1) {
+      onSelectPeriod(fiscalYears[0]);
+    }
+    setIsPlaying(true);
+  };
+
+  if (fiscalYears.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-3 px-4 py-2 border-t border-gray-200 text-xs text-gray-700">
+      <button
+        onClick={togglePlay}
+        disabled={fiscalYears.length < 2}
+        aria-label={isPlaying ? "Pause" : "Play"}
+        className="p-1.5 rounded-full bg-blue-600 text-white shadow-md hover:bg-blue-700 disabled:opacity-40"
+      >
+        {isPlaying ? (
+          <Pause className="w-4 h-4" />
+        ) : (
+          <Play className="w-4 h-4" />
+        )}
+      </button>
+      <select
+        aria-label="Playback speed"
+        value={delay}
+        onChange={(e) => setDelay(Number(e.target.value))}
+        className="p-1 bg-gray-50 border border-gray-300 rounded-md text-xs"
+      >
+        {playbackSpeeds.map((speed) => (
+          <option key={speed.label} value={speed.delay}>
+            {speed.label}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={() => {
+          setIsPlaying(false);
+          onSelectPeriod("all");
+        }}
+        className={`px-2 py-1 rounded-full font-medium transition-colors ${
+          yearIndex === -1
+            ? "bg-blue-600 text-white shadow-md"
+            : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+        }`}
+      >
+        All Years
+      </button>
+      <div className="flex-1">
+        <input
+          type="range"
+          aria-label="Financial year"
+          min={0}
+          max={fiscalYears.length - 1}
+          value={Math.max(yearIndex, 0)}
+          onChange={(e) => onSelectPeriod(fiscalYears[Number(e.target.value)])}
+          className={`w-full ${yearIndex === -1 ? "opacity-50" : ""}`}
+        />
+        <div className="flex justify-between text-gray-500">
+          {fiscalYears.map((year, idx) => (
+            <span
+              key={year}
+              className={idx === yearIndex ? "font-semibold text-blue-600" : ""}
+            >
+              {fiscalPeriodLabel(year).replace("FY ", "")}
+            </span>
+          ))}
+        </div>
+      </div>
+      <label className="flex items-center gap-1">
+        <input
+          type="checkbox"
+          checked={cumulative}
+          onChange={(e) => onCumulativeChange(e.target.checked)}
+        />
+        Cumulative
+      </label>
+    </div>
+  );
+};
+
+export default TimelineControl;
@@ -0,0 +1,413 @@
+import type {
+  GenderKey,
+  GeoJSONFeature,
+  MetricValues,
+  PMMSYAggregatedData,
+  SchemeKey,
+} from "../App";
+import {
+  fiscalPeriodGranularity,
+  fiscalPeriodMembers,
+  fiscalYearOf,
+  fiscalYearsThrough,
+} from "./fiscalPeriods";
+import type { FiscalPeriodKey } from "./fiscalPeriods";
+import { createGazetteer } from "./gazetteer";
+import type { PlaceAlias } from "./gazetteer";
+import { addMeasures } from "./metricCube";
+import type { CubeSlice } from "./metricCube";
+import { createPinCodeDirectory } from "./pinCodes";
+import type { PinCodeEntry } from "./pinCodes";
+import {
+  createPMMSYCube,
+  pmmsyAreaSlice,
+  pmmsyBeneficiaries,
+  resolvePMMSYPlaces,
+} from "./pmmsyRecords";
+import type {
+  PlaceReviewItem,
+  PMMSYBeneficiary,
+  PMMSYDimension,
+  PMMSYRecord,
+} from "./pmmsyRecords";
+import { createSchemeCube } from "./schemeMetrics";
+import type { SchemeDimension, SchemeMetricFact } from "./schemeMetrics";
+
+// Dashboard aggregation over the metric cubes. Everything here is plain data
+// in and out, so it runs in the aggregation worker (aggregation.worker.ts).
+
+export type AreaProperties = GeoJSONFeature["properties"];
+export type AreaLevel = AreaProperties["level"];
+export type BarChartCategory = "scheme" | "gender" | "year";
+
+export interface AggregationDataset {
+  pmmsyRecords: PMMSYRecord[];
+  schemeFacts: SchemeMetricFact[];
+  // Areas of the India map; charts and totals are built from these
+  areas: AreaProperties[];
+  // Areas of other boundary sets that only need their own metrics: districts
+  // of detailed state boundary files and PIN code areas
+  detailAreas: AreaProperties[];
+  // Confirmed record place names, see gazetteer.ts
+  placeAliases: PlaceAlias[];
+  pinCodes: PinCodeEntry[];
+}
+
+// Filters and view to aggregate for
+export interface AggregationRequest {
+  scheme: SchemeKey | null;
+  gender: GenderKey;
+  // Selected period, coarsened to what the scheme's data reports
+  period: FiscalPeriodKey;
+  // Add up every financial year up to the selected one instead of showing
+  // the year alone; only applies when a whole year is selected
+  cumulative: boolean;
+  pmmsySector: string;
+  metric: keyof MetricValues;
+  mapView: AreaLevel;
+  selectedState: string | null;
+  barChartCategory: BarChartCategory;
+  // Periods on the charts' period axis
+  periodAxis: FiscalPeriodKey[];
+}
+
+// Figures that only change with the dataset
+export interface AggregationSummary {
+  pmmsySectors: string[];
+  schemeTotals: Record<SchemeKey, number>;
+  // Record place names joined by fuzzy match or not at all
+  placeReview: PlaceReviewItem[];
+  // Records placed in the finest areas they match, for the point layer
+  beneficiaries: PMMSYBeneficiary[];
+}
+
+// Top areas broken down by the bar chart category; keys are category keys
+export interface CategoryBarData {
+  data: Record<string, string | number>[];
+  keys: string[];
+}
+
+export interface AggregationCharts {
+  // Null unless PMMSY is selected
+  pmmsyMetrics: PMMSYAggregatedData | null;
+  barData: CategoryBarData;
+}
+
+export interface Aggregator {
+  summary: AggregationSummary;
+  // Areas metrics are built for, those on the current map view first
+  areasFor: (request: AggregationRequest) => AreaProperties[];
+  areaMetrics: (
+    request: AggregationRequest,
+    area: AreaProperties
+  ) => MetricValues;
+  charts: (
+    request: AggregationRequest,
+    areaMetrics: Record<string, MetricValues>
+  ) => AggregationCharts;
+}
+
+const nonPMMSYSchemes = ["PMMKSS", "KCC", "NFDP"];
+const genders = ["male", "female", "transgender"];
+
+// Build the PMMSY card/chart figures for an area from its rolled-up metrics
+export const toPMMSYAggregatedData = (
+  metrics: MetricValues
+): PMMSYAggregatedData => ({
+  totalProjects: metrics.totalProjects || 0,
+  totalInvestment: metrics.totalInvestment || 0,
+  fishOutput: metrics.fishOutput || 0,
+  totalEmploymentGenerated: metrics.totalEmployment || 0,
+  directEmploymentMen: metrics.directEmploymentMen || 0,
+  directEmploymentWomen: metrics.directEmploymentWomen || 0,
+  indirectEmploymentMen: metrics.indirectEmploymentMen || 0,
+  indirectEmploymentWomen: metrics.indirectEmploymentWomen || 0,
+  projectsByStateUT: [],
+  sectorDistribution: [],
+});
+
+// Areas of the India map shown for the view, as App.tsx filters them
+const visibleAreas = (
+  areas: AreaProperties[],
+  request: AggregationRequest
+): AreaProperties[] =>
+  areas.filter(
+    (area) =>
+      area.level === request.mapView &&
+      (!request.selectedState ||
+        (area.level === "state"
+          ? area.shapeName === request.selectedState
+          : area.st_nm === request.selectedState))
+  );
+
+const areaDisplayName = (area: AreaProperties): string => {
+  if (area.level === "district" && area.district_name) {
+    return area.district_name;
+  }
+  if (area.level === "sub-district" && area.subdistrict_name) {
+    return area.subdistrict_name;
+  }
+  return area.shapeName || "Unknown";
+};
+
+export const createAggregator = (dataset: AggregationDataset): Aggregator => {
+  const gazetteer = createGazetteer(
+    [...dataset.areas, ...dataset.detailAreas],
+    dataset.placeAliases
+  );
+  const { places, review: placeReview } = resolvePMMSYPlaces(
+    dataset.pmmsyRecords,
+    gazetteer,
+    createPinCodeDirectory(dataset.pinCodes)
+  );
+  const pmmsyCube = createPMMSYCube(dataset.pmmsyRecords, places);
+  const schemeCube = createSchemeCube(dataset.schemeFacts);
+  const pmmsySectors = pmmsyCube.members("sector");
+
+  const schemeTotals: Record<SchemeKey, number> = {
+    all: 0,
+    PMMKSS: 0,
+    PMMSY: pmmsyCube.query().totalInvestment || 0,
+    KCC: 0,
+    NFDP: 0,
+  };
+  dataset.areas
+    .filter((area) => area.level === "state")
+    .forEach((area) => {
+      nonPMMSYSchemes.forEach((scheme) => {
+        schemeTotals[scheme as SchemeKey] +=
+          schemeCube.query({ area: area.shapeID, scheme }).funds || 0;
+      });
+    });
+
+  const pmmsyFiscalYears = pmmsyCube.members("fiscalYear");
+  const schemeFiscalYears = schemeCube.members("fiscalYear");
+
+  // Periods the request's figures add up: the selected period, or with
+  // cumulative totals every year of the data up to it
+  const requestPeriods = (
+    request: AggregationRequest,
+    fiscalYears: string[]
+  ): FiscalPeriodKey[] =>
+    request.cumulative && fiscalPeriodGranularity(request.period) === "year"
+      ? fiscalYearsThrough(request.period, fiscalYears)
+      : [request.period];
+
+  // Measures summed over several cube queries; a single query is returned
+  // as is
+  const sumQueries = (results: MetricValues[]): MetricValues => {
+    if (results.length === 1) return results[0];
+    const total: MetricValues = {};
+    results.forEach((result) => addMeasures(total, result));
+    return total;
+  };
+
+  // Metrics of an area under the request's filters; the extra slice
+  // overrides single dimensions for chart breakdowns, and a period in it
+  // replaces the request's
+  const queryPMMSYArea = (
+    request: AggregationRequest,
+    area: AreaProperties,
+    slice: CubeSlice<PMMSYDimension> = {}
+  ): MetricValues => {
+    const areaSlice = pmmsyAreaSlice(area);
+    if (!areaSlice) return {};
+    const periods =
+      "fiscalYear" in slice
+        ? [request.period]
+        : requestPeriods(request, pmmsyFiscalYears);
+    return sumQueries(
+      periods.map((period) =>
+        pmmsyCube.query({
+          sector: request.pmmsySector,
+          fiscalYear: fiscalYearOf(period),
+          ...areaSlice,
+          ...slice,
+        })
+      )
+    );
+  };
+  const querySchemeArea = (
+    request: AggregationRequest,
+    area: AreaProperties,
+    slice: CubeSlice<SchemeDimension> = {}
+  ): MetricValues => {
+    const periods =
+      "fiscalYear" in slice
+        ? [request.period]
+        : requestPeriods(request, schemeFiscalYears);
+    return sumQueries(
+      periods.map((period) =>
+        schemeCube.query({
+          scheme: request.scheme || undefined,
+          gender: request.gender,
+          ...fiscalPeriodMembers(period),
+          area: area.shapeID,
+          ...slice,
+        })
+      )
+    );
+  };
+
+  // Category keys of the bar chart and breakdown table with the query for
+  // each category
+  const categoryQuery = (
+    request: AggregationRequest
+  ): {
+    keys: string[];
+    query: (area: AreaProperties, key: string) => MetricValues;
+  } => {
+    if (request.scheme === "PMMSY") {
+      switch (request.barChartCategory) {
+        case "gender":
+          // Beneficiary records carry no gender, so only the total is shown
+          return {
+            keys: ["all"],
+            query: (area) => queryPMMSYArea(request, area),
+          };
+        case "year":
+          return {
+            keys: request.periodAxis,
+            query: (area, key) =>
+              queryPMMSYArea(request, area, { fiscalYear: key }),
+          };
+        default:
+          // Sectors stand in for schemes
+          return {
+            keys: pmmsySectors,
+            query: (area, key) =>
+              queryPMMSYArea(request, area, { sector: key }),
+          };
+      }
+    }
+    switch (request.barChartCategory) {
+      case "gender":
+        return {
+          keys: genders,
+          query: (area, key) => querySchemeArea(request, area, { gender: key }),
+        };
+      case "year":
+        return {
+          keys: request.periodAxis,
+          query: (area, key) =>
+            querySchemeArea(request, area, fiscalPeriodMembers(key)),
+        };
+      default:
+        return {
+          keys: nonPMMSYSchemes,
+          query: (area, key) => querySchemeArea(request, area, { scheme: key }),
+        };
+    }
+  };
+
+  const pmmsyMetrics = (
+    request: AggregationRequest,
+    areas: AreaProperties[],
+    areaMetrics: Record<string, MetricValues>
+  ): PMMSYAggregatedData => {
+    const total: MetricValues = {};
+    const projectsByArea = new Map<string, number>();
+    const projectsBySector = new Map<string, number>();
+    const sectors = pmmsySectors.filter(
+      (sector) =>
+        request.pmmsySector === "all" || sector === request.pmmsySector
+    );
+
+    areas.forEach((area) => {
+      const metrics = areaMetrics[area.shapeID];
+      if (metrics) {
+        (Object.keys(metrics) as (keyof MetricValues)[]).forEach((key) => {
+          total[key] = (total[key] || 0) + (metrics[key] || 0);
+        });
+        const name = areaDisplayName(area);
+        projectsByArea.set(
+          name,
+          (projectsByArea.get(name) || 0) + (metrics[request.metric] || 0)
+        );
+      }
+      sectors.forEach((sector) => {
+        projectsBySector.set(
+          sector,
+          (projectsBySector.get(sector) || 0) +
+            (queryPMMSYArea(request, area, { sector }).totalProjects || 0)
+        );
+      });
+    });
+
+    return {
+      ...toPMMSYAggregatedData(total),
+      projectsByStateUT: Array.from(projectsByArea.entries())
+        .map(([name, value]) => ({ name, value }))
+        .sort((a, b) => b.value - a.value)
+        .slice(0, 10),
+      sectorDistribution: Array.from(projectsBySector.entries()).map(
+        ([name, value]) => ({ name, value })
+      ),
+    };
+  };
+
+  const barData = (
+    request: AggregationRequest,
+    areas: AreaProperties[],
+    areaMetrics: Record<string, MetricValues>
+  ): CategoryBarData => {
+    // PMMSY areas are ranked under the current filters, other schemes by
+    // their all-time totals
+    const overallValue = (area: AreaProperties): number =>
+      (request.scheme === "PMMSY"
+        ? areaMetrics[area.shapeID]
+        : schemeCube.query({ area: area.shapeID }))?.[request.metric] || 0;
+
+    const topAreas = areas
+      .map((area) => ({ area, value: overallValue(area) }))
+      .sort((a, b) => b.value - a.value)
+      .slice(0, 10);
+
+    const { keys, query } = categoryQuery(request);
+    const data = topAreas.map(({ area }) => {
+      const categoryValues: Record<string, number> = {};
+      keys.forEach((key) => {
+        categoryValues[key] = query(area, key)[request.metric] || 0;
+      });
+      return {
+        id: area.shapeID,
+        name: area.shapeName || "Unknown Area",
+        ...categoryValues,
+      };
+    });
+
+    return { data, keys };
+  };
+
+  return {
+    summary: {
+      pmmsySectors,
+      schemeTotals,
+      placeReview,
+      beneficiaries: pmmsyBeneficiaries(dataset.pmmsyRecords, places),
+    },
+    areasFor: (request) => {
+      const visible = visibleAreas(dataset.areas, request);
+      const visibleIds = new Set(visible.map((area) => area.shapeID));
+      return [
+        ...visible,
+        ...dataset.areas.filter((area) => !visibleIds.has(area.shapeID)),
+        ...dataset.detailAreas,
+      ];
+    },
+    areaMetrics: (request, area) =>
+      request.scheme === "PMMSY"
+        ? queryPMMSYArea(request, area)
+        : querySchemeArea(request, area),
+    charts: (request, areaMetrics) => {
+      const areas = visibleAreas(dataset.areas, request);
+      return {
+        pmmsyMetrics:
+          request.scheme === "PMMSY"
+            ? pmmsyMetrics(request, areas, areaMetrics)
+            : null,
+        barData: barData(request, areas, areaMetrics),
+      };
+    },
+  };
+};
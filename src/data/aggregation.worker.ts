@@ -0,0 +1,103 @@
+import { createAggregator } from "./aggregation";
+import type {
+  AggregationCharts,
+  AggregationDataset,
+  AggregationRequest,
+  AggregationSummary,
+  Aggregator,
+} from "./aggregation";
+import type { MetricValues } from "../App";
+
+// Messages from aggregationClient.ts. Every message carries the client's
+// request id, which the replies echo.
+export type AggregationWorkerRequest =
+  | { type: "load"; id: number; dataset: AggregationDataset }
+  | {
+      type: "aggregate";
+      id: number;
+      request: AggregationRequest;
+      // Aggregations on one channel supersede each other
+      channel: string;
+    }
+  | { type: "cancel"; id: number };
+
+export type AggregationWorkerResponse =
+  | { type: "loaded"; id: number; summary: AggregationSummary }
+  // Metrics of the next batch of areas, current map view first
+  | { type: "progress"; id: number; areaMetrics: Record<string, MetricValues> }
+  | { type: "result"; id: number; charts: AggregationCharts }
+  | { type: "error"; id: number; message: string };
+
+// Areas aggregated between checks for cancellation
+const AREA_BATCH_SIZE = 200;
+
+let aggregator: Aggregator | null = null;
+// Aggregation still wanted on each channel; cancelled and superseded ones
+// are removed and stop after their current batch
+const running = new Map<string, number>();
+
+const post = (message: AggregationWorkerResponse) => postMessage(message);
+
+const errorMessage = (err: unknown): string =>
+  err instanceof Error ? err.message : String(err);
+
+// Let queued cancel and aggregate messages run between batches
+const yieldToMessages = () =>
+  new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+const aggregate = async (
+  id: number,
+  request: AggregationRequest,
+  channel: string
+) => {
+  const current = aggregator;
+  if (!current) throw new Error("No dataset loaded for aggregation");
+
+  const areas = current.areasFor(request);
+  const areaMetrics: Record<string, MetricValues> = {};
+  for (let start = 0; start < areas.length; start += AREA_BATCH_SIZE) {
+    const batch: Record<string, MetricValues> = {};
+    areas.slice(start, start + AREA_BATCH_SIZE).forEach((area) => {
+      batch[area.shapeID] = current.areaMetrics(request, area);
+    });
+    Object.assign(areaMetrics, batch);
+    post({ type: "progress", id, areaMetrics: batch });
+
+    await yieldToMessages();
+    if (running.get(channel) !== id) return;
+  }
+
+  post({ type: "result", id, charts: current.charts(request, areaMetrics) });
+};
+
+addEventListener("message", (event: MessageEvent<AggregationWorkerRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case "load":
+      try {
+        aggregator = createAggregator(message.dataset);
+        post({ type: "loaded", id: message.id, summary: aggregator.summary });
+      } catch (err) {
+        post({ type: "error", id: message.id, message: errorMessage(err) });
+      }
+      break;
+    case "aggregate":
+      // Only the newest aggregation of a channel is ever wanted
+      running.set(message.channel, message.id);
+      aggregate(message.id, message.request, message.channel)
+        .catch((err) =>
+          post({ type: "error", id: message.id, message: errorMessage(err) })
+        )
+        .finally(() => {
+          if (running.get(message.channel) === message.id) {
+            running.delete(message.channel);
+          }
+        });
+      break;
+    case "cancel":
+      running.forEach((id, channel) => {
+        if (id === message.id) running.delete(channel);
+      });
+      break;
+  }
+});
@@ -0,0 +1,161 @@
+import type { MetricValues } from "../App";
+import type {
+  AggregationCharts,
+  AggregationDataset,
+  AggregationRequest,
+  AggregationSummary,
+} from "./aggregation";
+import type {
+  AggregationWorkerRequest,
+  AggregationWorkerResponse,
+} from "./aggregation.worker";
+
+export interface AggregationResult {
+  areaMetrics: Record<string, MetricValues>;
+  charts: AggregationCharts;
+}
+
+export interface AggregateOptions {
+  // Called with the metrics of each batch of areas as they are aggregated
+  onProgress?: (areaMetrics: Record<string, MetricValues>) => void;
+  signal?: AbortSignal;
+  // Aggregations on different channels run side by side, e.g. the two
+  // sides of a comparison; defaults to "main"
+  channel?: string;
+}
+
+// Runs dashboard aggregation in a Web Worker so filter changes do not block
+// the map. Starting an aggregation cancels the previous one on its channel,
+// whose promise rejects with an AbortError like an aborted signal does.
+export interface AggregationClient {
+  // Replace the dataset; later aggregations use it
+  load: (dataset: AggregationDataset) => Promise<AggregationSummary>;
+  aggregate: (
+    request: AggregationRequest,
+    options?: AggregateOptions
+  ) => Promise<AggregationResult>;
+  terminate: () => void;
+}
+
+interface PendingAggregation {
+  channel: string;
+  resolve: (result: AggregationResult) => void;
+  reject: (err: Error) => void;
+  onProgress?: (areaMetrics: Record<string, MetricValues>) => void;
+  areaMetrics: Record<string, MetricValues>;
+}
+
+interface PendingLoad {
+  resolve: (summary: AggregationSummary) => void;
+  reject: (err: Error) => void;
+}
+
+const abortError = () =>
+  new DOMException("Aggregation was cancelled", "AbortError");
+
+export const isAbortError = (err: unknown): boolean =>
+  err instanceof DOMException && err.name === "AbortError";
+
+export const createAggregationClient = (): AggregationClient => {
+  const worker = new Worker(
+    new URL("./aggregation.worker.ts", import.meta.url),
+    { type: "module" }
+  );
+  const loads = new Map<number, PendingLoad>();
+  const aggregations = new Map<number, PendingAggregation>();
+  let nextId = 1;
+
+  const send = (message: AggregationWorkerRequest) =>
+    worker.postMessage(message);
+
+  const cancel = (id: number) => {
+    const pending = aggregations.get(id);
+    if (!pending) return;
+    aggregations.delete(id);
+    send({ type: "cancel", id });
+    pending.reject(abortError());
+  };
+
+  worker.addEventListener(
+    "message",
+    (event: MessageEvent<AggregationWorkerResponse>) => {
+      const message = event.data;
+      const load = loads.get(message.id);
+      if (load) {
+        loads.delete(message.id);
+        if (message.type === "loaded") load.resolve(message.summary);
+        else if (message.type === "error") {
+          load.reject(new Error(message.message));
+        }
+        return;
+      }
+
+      // Replies to cancelled aggregations are dropped here
+      const pending = aggregations.get(message.id);
+      if (!pending) return;
+      switch (message.type) {
+        case "progress":
+          Object.assign(pending.areaMetrics, message.areaMetrics);
+          pending.onProgress?.(message.areaMetrics);
+          break;
+        case "result":
+          aggregations.delete(message.id);
+          pending.resolve({
+            areaMetrics: pending.areaMetrics,
+            charts: message.charts,
+          });
+          break;
+        case "error":
+          aggregations.delete(message.id);
+          pending.reject(new Error(message.message));
+          break;
+      }
+    }
+  );
+
+  worker.addEventListener("error", (event) => {
+    const err = new Error(event.message || "Aggregation worker failed");
+    loads.forEach((pending) => pending.reject(err));
+    aggregations.forEach((pending) => pending.reject(err));
+    loads.clear();
+    aggregations.clear();
+  });
+
+  return {
+    load: (dataset) =>
+      new Promise((resolve, reject) => {
+        const id = nextId++;
+        loads.set(id, { resolve, reject });
+        send({ type: "load", id, dataset });
+      }),
+
+    aggregate: (request, { onProgress, signal, channel = "main" } = {}) =>
+      new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(abortError());
+          return;
+        }
+        Array.from(aggregations.entries())
+          .filter(([, pending]) => pending.channel === channel)
+          .forEach(([id]) => cancel(id));
+
+        const id = nextId++;
+        aggregations.set(id, {
+          channel,
+          resolve,
+          reject,
+          onProgress,
+          areaMetrics: {},
+        });
+        signal?.addEventListener("abort", () => cancel(id), { once: true });
+        send({ type: "aggregate", id, request, channel });
+      }),
+
+    terminate: () => {
+      Array.from(aggregations.keys()).forEach(cancel);
+      worker.terminate();
+      loads.forEach((pending) => pending.reject(abortError()));
+      loads.clear();
+    },
+  };
+};
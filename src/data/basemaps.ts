@@ -0,0 +1,46 @@
+import XYZ from "ol/source/XYZ";
+
+// Raster basemaps under the area polygons. Each is read from the XYZ URL
+// template set in VITE_BASEMAP_<NAME>_URL; without one the dev server's
+// stand-in tiles are shown, and outside development the basemap is not
+// offered.
+
+export type BasemapKey = "none" | "osm" | "terrain" | "satellite";
+
+export interface BasemapSettings {
+  key: BasemapKey;
+  // Opacity of the area fills over the basemap
+  areaOpacity: number;
+}
+
+const configuredSources: Record<
+  Exclude<BasemapKey, "none">,
+  string | undefined
+> = {
+  osm: import.meta.env.VITE_BASEMAP_OSM_URL,
+  terrain: import.meta.env.VITE_BASEMAP_TERRAIN_URL,
+  satellite: import.meta.env.VITE_BASEMAP_SATELLITE_URL,
+};
+
+// The /api/tiles route only exists on the dev server (server/standInApi.ts)
+const tileSourceOf = (key: Exclude<BasemapKey, "none">): string | undefined =>
+  configuredSources[key] ||
+  (import.meta.env.DEV ? `/api/tiles/${key}/{z}/{x}/{y}` : undefined);
+
+export const basemapOptions: { key: BasemapKey; label: string }[] = (
+  [
+    { key: "none", label: "None" },
+    { key: "osm", label: "Street (OSM)" },
+    { key: "terrain", label: "Terrain" },
+    { key: "satellite", label: "Satellite" },
+  ] as { key: BasemapKey; label: string }[]
+).filter(({ key }) => key === "none" || tileSourceOf(key));
+
+// Tiles are requested with CORS so a map drawn over them can still be
+// exported. Null when the basemap has no tile source.
+export const createBasemapSource = (
+  key: Exclude<BasemapKey, "none">
+): XYZ | null => {
+  const url = tileSourceOf(key);
+  return url ? new XYZ({ url, maxZoom: 19, crossOrigin: "anonymous" }) : null;
+};
@@ -0,0 +1,141 @@
+import { GeoJSON } from "ol/format";
+import { MultiPolygon, Polygon } from "ol/geom";
+import type { Geometry } from "ol/geom";
+import type { GeoJSONFeature } from "../App";
+import { pmmsyAreaKey } from "./pmmsyRecords";
+import type { PMMSYBeneficiary, PMMSYRecord } from "./pmmsyRecords";
+
+// Beneficiary records have no coordinates of their own; each is drawn inside
+// the finest boundary it was matched to (village, PIN code, taluk, district,
+// then state) among the boundaries loaded on the map.
+
+export interface BeneficiaryPoint {
+  record: PMMSYRecord;
+  // Map coordinate in EPSG:3857
+  coordinate: [number, number];
+  // Level of the area the point was placed in ("village", "pinCode", ...)
+  placedIn: string;
+}
+
+// Records placed in one area are spread on a sunflower spiral around its
+// interior point, this far apart, so clusters still split when zoomed in
+const SPREAD_METERS = 120;
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+// A point inside the polygon, or inside its largest part
+export const interiorPoint = (
+  geometry: Geometry | undefined
+): [number, number] | null => {
+  if (geometry instanceof Polygon) {
+    const [x, y] = geometry.getInteriorPoint().getCoordinates();
+    return [x, y];
+  }
+  if (geometry instanceof MultiPolygon) {
+    const largest = geometry
+      .getPolygons()
+      .sort((a, b) => b.getArea() - a.getArea())[0];
+    return largest ? interiorPoint(largest) : null;
+  }
+  return null;
+};
+
+export const placeBeneficiaries = (
+  beneficiaries: PMMSYBeneficiary[],
+  areas: GeoJSONFeature[]
+): BeneficiaryPoint[] => {
+  const areasByKey = new Map<string, GeoJSONFeature>();
+  areas.forEach((area) => {
+    const key = pmmsyAreaKey(area.properties);
+    if (key && !areasByKey.has(key)) areasByKey.set(key, area);
+  });
+
+  const format = new GeoJSON({ featureProjection: "EPSG:3857" });
+  // Interior points are only worked out for areas that hold records
+  const centres = new Map<string, [number, number] | null>();
+  const placedPerArea = new Map<string, number>();
+
+  return beneficiaries.flatMap(({ record, areaKeys }) => {
+    const key = areaKeys.find((areaKey) => areasByKey.has(areaKey));
+    if (!key) return [];
+    let centre = centres.get(key);
+    if (centre === undefined) {
+      centre = interiorPoint(
+        format.readGeometry(areasByKey.get(key)!.geometry)
+      );
+      centres.set(key, centre);
+    }
+    if (!centre) return [];
+
+    const position = placedPerArea.get(key) || 0;
+    placedPerArea.set(key, position + 1);
+    const radius = SPREAD_METERS * Math.sqrt(position);
+    const angle = position * GOLDEN_ANGLE;
+    return [
+      {
+        record,
+        coordinate: [
+          centre[0] + radius * Math.cos(angle),
+          centre[1] + radius * Math.sin(angle),
+        ],
+        placedIn: key.slice(0, key.indexOf("|")),
+      },
+    ];
+  });
+};
+
+export type BeneficiaryColorField = "activity" | "sector";
+
+const categoryPalette = [
+  "#2563eb",
+  "#f97316",
+  "#10b981",
+  "#9333ea",
+  "#e11d48",
+  "#0891b2",
+  "#ca8a04",
+  "#4b5563",
+];
+
+// Colour per activity or sector, stable for a set of points
+export const beneficiaryCategoryColors = (
+  points: BeneficiaryPoint[],
+  field: BeneficiaryColorField
+): Record<string, string> => {
+  const categories = Array.from(
+    new Set(points.map((point) => point.record[field] || "Unknown"))
+  ).sort();
+  return Object.fromEntries(
+    categories.map((category, idx) => [
+      category,
+      categoryPalette[idx % categoryPalette.length],
+    ])
+  );
+};
+
+// Record measure a heatmap point is weighted by
+export type HeatmapWeight = "totalProjects" | "totalInvestment" | "fishOutput";
+
+const weightValue = (record: PMMSYRecord, weight: HeatmapWeight): number => {
+  if (weight === "totalInvestment") return record.totalCost ?? 0;
+  if (weight === "fishOutput") return record.totalOutput ?? 0;
+  return 1;
+};
+
+// Heatmap weight of each point, scaled to 0-1 by the largest
+export const heatmapWeights = (
+  points: BeneficiaryPoint[],
+  weight: HeatmapWeight
+): number[] => {
+  const values = points.map((point) =>
+    Math.max(weightValue(point.record, weight), 0)
+  );
+  const max = Math.max(0, ...values);
+  return values.map((value) => (max > 0 ? value / max : 0));
+};
+
+export interface HeatmapSettings {
+  weight: HeatmapWeight;
+  // Point radius and blur size, in pixels
+  radius: number;
+  blur: number;
+}
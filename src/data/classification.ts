@@ -0,0 +1,392 @@
+// Classification of area values into coloured classes for the choropleth,
+// its legend and the distribution pie chart. Classes are computed from the
+// values on the map, so they follow the data's scale at every level.
+
+export type ClassificationMethod =
+  | "equal-interval"
+  | "quantile"
+  | "jenks"
+  | "manual";
+
+export type ColorRampKey =
+  | "purples"
+  | "greens"
+  | "oranges"
+  | "blues"
+  | "reds"
+  | "viridis";
+
+export interface ClassificationOptions {
+  method: ClassificationMethod;
+  classCount: number;
+  // Null uses the metric's own ramp
+  ramp: ColorRampKey | null;
+  // Class boundaries for the manual method, ascending
+  manualBreaks: number[];
+}
+
+// A class covers min <= value < max; the top class has no upper bound and
+// the bottom class takes anything below its max
+export interface MetricClass {
+  min: number;
+  max: number;
+  label: string;
+  color: string;
+}
+
+export const classificationMethods: {
+  key: ClassificationMethod;
+  label: string;
+}[] = [
+  { key: "quantile", label: "Quantile" },
+  { key: "equal-interval", label: "Equal Interval" },
+  { key: "jenks", label: "Natural Breaks (Jenks)" },
+  { key: "manual", label: "Manual" },
+];
+
+export const MIN_CLASSES = 2;
+export const MAX_CLASSES = 7;
+
+// Ramps from light to dark
+export const colorRamps: Record<
+  ColorRampKey,
+  { label: string; colors: string[] }
+> = {
+  purples: {
+    label: "Purples",
+    colors: [
+      "#ede9fe",
+      "#ddd6fe",
+      "#c4b5fd",
+      "#a78bfa",
+      "#8b5cf6",
+      "#7c3aed",
+      "#6366f1",
+    ],
+  },
+  greens: {
+    label: "Greens",
+    colors: [
+      "#d1fae5",
+      "#a7f3d0",
+      "#6ee7b7",
+      "#34d399",
+      "#10b981",
+      "#059669",
+      "#047857",
+    ],
+  },
+  oranges: {
+    label: "Oranges",
+    colors: [
+      "#ffedd5",
+      "#fed7aa",
+      "#fdba74",
+      "#fb923c",
+      "#f97316",
+      "#ea580c",
+      "#c2410c",
+    ],
+  },
+  blues: {
+    label: "Blues",
+    colors: [
+      "#dbeafe",
+      "#bfdbfe",
+      "#93c5fd",
+      "#60a5fa",
+      "#3b82f6",
+      "#2563eb",
+      "#1d4ed8",
+    ],
+  },
+  reds: {
+    label: "Reds",
+    colors: [
+      "#fee2e2",
+      "#fecaca",
+      "#fca5a5",
+      "#f87171",
+      "#ef4444",
+      "#dc2626",
+      "#b91c1c",
+    ],
+  },
+  viridis: {
+    label: "Viridis",
+    colors: [
+      "#fde725",
+      "#90d743",
+      "#35b779",
+      "#21918c",
+      "#31688e",
+      "#443983",
+      "#440154",
+    ],
+  },
+};
+
+// Jenks is quadratic in the number of values; larger sets are sampled
+const JENKS_MAX_VALUES = 1000;
+
+const sortedFinite = (values: number[]): number[] =>
+  values.filter((value) => Number.isFinite(value)).sort((a, b) => a - b);
+
+const equalIntervalBreaks = (sorted: number[], classCount: number) => {
+  const min = sorted[0];
+  const step = (sorted[sorted.length - 1] - min) / classCount;
+  return Array.from({ length: classCount - 1 }, (_, i) => min + step * (i + 1));
+};
+
+// Count-based quantiles. Areas without data (zero) get a bottom class of
+// their own, so they do not fill several quantiles and leave the areas with
+// data in one class; the rest are split into equal counts.
+const quantileBreaks = (sorted: number[], classCount: number) => {
+  const quantiles = (values: number[], count: number) =>
+    Array.from(
+      { length: count - 1 },
+      (_, i) => values[Math.floor(((i + 1) * values.length) / count)]
+    );
+  const withData = sorted.filter((value) => value !== 0);
+  return withData.length === sorted.length
+    ? quantiles(sorted, classCount)
+    : [withData[0], ...quantiles(withData, classCount - 1)];
+};
+
+// Fisher-Jenks natural breaks: minimises the variance within classes
+const jenksBreaks = (values: number[], classCount: number): number[] => {
+  const sorted =
+    values.length > JENKS_MAX_VALUES
+      ? Array.from(
+          { length: JENKS_MAX_VALUES },
+          (_, i) =>
+            values[
+              Math.floor((i * (values.length - 1)) / (JENKS_MAX_VALUES - 1))
+            ]
+        )
+      : values;
+  const n = sorted.length;
+  // lowerClassLimits[i][j]: first value (1-based) of the last class when
+  // the first i values are split into j classes
+  const lowerClassLimits = Array.from({ length: n + 1 }, () =>
+    new Array<number>(classCount + 1).fill(0)
+  );
+  const variances = Array.from({ length: n + 1 }, () =>
+    new Array<number>(classCount + 1).fill(Infinity)
+  );
+  for (let j = 1; j <= classCount; j++) {
+    lowerClassLimits[1][j] = 1;
+    variances[1][j] = 0;
+  }
+
+  for (let i = 2; i <= n; i++) {
+    let sum = 0;
+    let sumSquares = 0;
+    let variance = 0;
+    for (let m = 1; m <= i; m++) {
+      const lower = i - m + 1;
+      const value = sorted[lower - 1];
+      sum += value;
+      sumSquares += value * value;
+      variance = sumSquares - (sum * sum) / m;
+      if (lower === 1) continue;
+      for (let j = 2; j <= classCount; j++) {
+        const candidate = variance + variances[lower - 1][j - 1];
+        if (variances[i][j] >= candidate) {
+          lowerClassLimits[i][j] = lower;
+          variances[i][j] = candidate;
+        }
+      }
+    }
+    lowerClassLimits[i][1] = 1;
+    variances[i][1] = variance;
+  }
+
+  const breaks: number[] = [];
+  let upper = n;
+  for (let j = classCount; j >= 2; j--) {
+    const lower = lowerClassLimits[upper][j];
+    breaks.unshift(sorted[lower - 1]);
+    upper = lower - 1;
+  }
+  return breaks;
+};
+
+// Boundaries between classes, ascending and distinct. Fewer than
+// classCount - 1 are returned when the values cannot fill every class.
+export const classBreaks = (
+  values: number[],
+  options: Pick<ClassificationOptions, "method" | "classCount" | "manualBreaks">
+): number[] => {
+  const classCount = Math.min(
+    Math.max(Math.round(options.classCount), MIN_CLASSES),
+    MAX_CLASSES
+  );
+  if (options.method === "manual") {
+    return Array.from(new Set(sortedFinite(options.manualBreaks))).slice(
+      0,
+      MAX_CLASSES - 1
+    );
+  }
+  const sorted = sortedFinite(values);
+  if (sorted.length === 0 || sorted[0] === sorted[sorted.length - 1]) {
+    return [];
+  }
+  const methods = {
+    quantile: () => quantileBreaks(sorted, classCount),
+    jenks: () => jenksBreaks(sorted, Math.min(classCount, sorted.length)),
+    "equal-interval": () => equalIntervalBreaks(sorted, classCount),
+  };
+  // Breaks equal to the minimum would leave the bottom class empty
+  const usableBreaks = (method: keyof typeof methods) =>
+    Array.from(new Set(methods[method]())).filter((value) => value > sorted[0]);
+
+  // Skewed values (a few areas with data among many zeros) can leave too
+  // few classes; natural breaks, then equal intervals, are tried for more
+  let breaks = usableBreaks(options.method);
+  for (const method of ["jenks", "equal-interval"] as const) {
+    if (breaks.length >= classCount - 1) break;
+    const fallback = usableBreaks(method);
+    if (fallback.length > breaks.length) breaks = fallback;
+  }
+  return breaks;
+};
+
+// Colours for a number of classes, spread along the ramp
+export const rampColors = (ramp: ColorRampKey, count: number): string[] => {
+  const { colors } = colorRamps[ramp];
+  if (count <= 1) return [colors[Math.floor(colors.length / 2)]];
+  return Array.from(
+    { length: count },
+    (_, i) => colors[Math.round((i * (colors.length - 1)) / (count - 1))]
+  );
+};
+
+// Classes of the values, lowest first
+export const classifyValues = (
+  values: number[],
+  options: ClassificationOptions & { ramp: ColorRampKey },
+  formatValue: (value: number) => string
+): MetricClass[] => {
+  const breaks = classBreaks(values, options);
+  const bounds = [-Infinity, ...breaks, Infinity];
+  const colors = rampColors(options.ramp, bounds.length - 1);
+  const lowest = sortedFinite(values)[0] ?? 0;
+  return colors.map((color, i) => {
+    const min = bounds[i];
+    const max = bounds[i + 1];
+    const label =
+      max === Infinity
+        ? min === -Infinity
+          ? "All"
+          : `${formatValue(min)}+`
+        : `${formatValue(
+            min === -Infinity ? Math.min(lowest, max) : min
+          )} - ${formatValue(max)}`;
+    return { min, max, label, color };
+  });
+};
+
+// Index of the class holding a value
+export const classIndex = (classes: MetricClass[], value: number): number => {
+  const idx = classes.findIndex((metricClass) => value < metricClass.max);
+  return idx === -1 ? classes.length - 1 : idx;
+};
+
+export const classColor = (
+  classes: MetricClass[],
+  value: number,
+  fallback = "#6b7280"
+): string => classes[classIndex(classes, value)]?.color || fallback;
+
+// Bivariate classes: each of two metrics split into three quantile classes,
+// coloured from a 3x3 matrix. Rows are classes of the second (vertical)
+// metric, columns of the first (horizontal), lowest first.
+export const BIVARIATE_CLASSES = 3;
+
+export const bivariateColors: string[][] = [
+  ["#e8e8e8", "#e4acac", "#c85a5a"],
+  ["#b0d5df", "#ad9ea5", "#985356"],
+  ["#64acbe", "#627f8c", "#574249"],
+];
+
+export interface BivariateBreaks {
+  x: number[];
+  y: number[];
+}
+
+export const bivariateBreaks = (
+  xValues: number[],
+  yValues: number[]
+): BivariateBreaks => {
+  const options = {
+    method: "quantile" as const,
+    classCount: BIVARIATE_CLASSES,
+    manualBreaks: [],
+  };
+  return {
+    x: classBreaks(xValues, options),
+    y: classBreaks(yValues, options),
+  };
+};
+
+// Class of a value along one axis: the number of breaks at or below it
+export const bivariateClass = (breaks: number[], value: number): number =>
+  breaks.filter((limit) => value >= limit).length;
+
+export const bivariateColor = (
+  breaks: BivariateBreaks,
+  x: number,
+  y: number
+): string =>
+  bivariateColors[bivariateClass(breaks.y, y)][bivariateClass(breaks.x, x)];
+
+// Diverging classes for changes between two maps, symmetric around zero so
+// a rise and a fall of the same size get equally strong colours: reds for
+// falls, blues for rises
+export const divergingColors = [
+  "#b2182b",
+  "#ef8a62",
+  "#fddbc7",
+  "#f7f7f7",
+  "#d1e5f0",
+  "#67a9cf",
+  "#2166ac",
+];
+
+export const divergingClasses = (
+  values: number[],
+  formatValue: (value: number) => string
+): MetricClass[] => {
+  const largest = Math.max(
+    0,
+    ...values.filter((value) => Number.isFinite(value)).map(Math.abs)
+  );
+  if (largest === 0) {
+    return [
+      {
+        min: -Infinity,
+        max: Infinity,
+        label: "No change",
+        color: divergingColors[(divergingColors.length - 1) / 2],
+      },
+    ];
+  }
+  const step = (2 * largest) / divergingColors.length;
+  const bounds = [
+    -Infinity,
+    ...divergingColors.slice(1).map((_, i) => -largest + step * (i + 1)),
+    Infinity,
+  ];
+  return divergingColors.map((color, i) => {
+    const min = bounds[i];
+    const max = bounds[i + 1];
+    const label =
+      min === -Infinity
+        ? `Below ${formatValue(max)}`
+        : max === Infinity
+        ? `${formatValue(min)}+`
+        : `${formatValue(min)} - ${formatValue(max)}`;
+    return { min, max, label, color };
+  });
+};
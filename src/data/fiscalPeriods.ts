@@ -0,0 +1,320 @@
+// Indian government financial years run from April to March. Periods are
+// identified by string keys that double as the year segment of metric keys:
+//   "all"             every year
+//   "FY 2020-21"      April 2020 - March 2021
+//   "FY 2020-21 Q1"   April - June 2020 (Q1-Q4 follow the financial year)
+//   "FY 2020-21 Apr"  April 2020
+export type FiscalPeriodKey = string;
+export type FiscalQuarter = 1 | 2 | 3 | 4;
+export type FiscalGranularity = "year" | "quarter" | "month";
+
+export interface FiscalPeriod {
+  // Calendar year in which the financial year starts
+  startYear: number;
+  quarter?: FiscalQuarter;
+  // Calendar month (1-12); quarter is always set alongside it
+  month?: number;
+}
+
+// Calendar month in which the financial year starts
+export const FISCAL_YEAR_START_MONTH = 4;
+
+const monthNames = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+const granularityOrder: FiscalGranularity[] = ["year", "quarter", "month"];
+
+export const fiscalYearKey = (startYear: number): FiscalPeriodKey =>
+  `FY ${startYear}-${String((startYear + 1) % 100).padStart(2, "0")}`;
+
+// Financial years from startYear to endYear (both start years), oldest first
+export const fiscalYearsBetween = (
+  startYear: number,
+  endYear: number
+): FiscalPeriodKey[] => {
+  const years: FiscalPeriodKey[] = [];
+  for (let year = startYear; year <= endYear; year++) {
+    years.push(fiscalYearKey(year));
+  }
+  return years;
+};
+
+// Years the ministry reports on: the PMMSY period FY 2020-21 to FY 2024-25
+export const reportingFiscalYears = fiscalYearsBetween(2020, 2024);
+
+// Financial quarter (Q1 = April-June) of a calendar month
+export const fiscalQuarterOfMonth = (month: number): FiscalQuarter =>
+  (Math.floor(((month - FISCAL_YEAR_START_MONTH + 12) % 12) / 3) +
+    1) as FiscalQuarter;
+
+// Calendar months of a financial quarter, in order
+export const monthsOfFiscalQuarter = (quarter: FiscalQuarter): number[] =>
+  [0, 1, 2].map(
+    (offset) =>
+      ((FISCAL_YEAR_START_MONTH - 1 + (quarter - 1) * 3 + offset) % 12) + 1
+  );
+
+// Calendar year a month of the financial year falls in
+const calendarYearOf = (startYear: number, month: number): number =>
+  month >= FISCAL_YEAR_START_MONTH ? startYear : startYear + 1;
+
+export const fiscalPeriodOfDate = (date: Date): FiscalPeriod => {
+  const month = date.getMonth() + 1;
+  return {
+    startYear:
+      month >= FISCAL_YEAR_START_MONTH
+        ? date.getFullYear()
+        : date.getFullYear() - 1,
+    quarter: fiscalQuarterOfMonth(month),
+    month,
+  };
+};
+
+export const fiscalPeriodKey = (period: FiscalPeriod): FiscalPeriodKey => {
+  const year = fiscalYearKey(period.startYear);
+  if (period.month) return `${year} ${monthNames[period.month - 1]}`;
+  if (period.quarter) return `${year} Q${period.quarter}`;
+  return year;
+};
+
+// Parse a key built by fiscalPeriodKey; null for "all" and anything else
+export const parseFiscalPeriodKey = (
+  key: FiscalPeriodKey
+): FiscalPeriod | null => {
+  const match = /^FY (\d{4})-\d{2}(?: (Q[1-4]|[A-Z][a-z]{2}))?$/.exec(key);
+  if (!match) return null;
+  const startYear = Number(match[1]);
+  if (!match[2]) return { startYear };
+  if (match[2].startsWith("Q")) {
+    return { startYear, quarter: Number(match[2][1]) as FiscalQuarter };
+  }
+  const month = monthNames.indexOf(match[2]) + 1;
+  if (month === 0) return null;
+  return { startYear, quarter: fiscalQuarterOfMonth(month), month };
+};
+
+export const fiscalPeriodGranularity = (
+  key: FiscalPeriodKey
+): FiscalGranularity | null => {
+  const period = parseFiscalPeriodKey(key);
+  if (!period) return null;
+  if (period.month) return "month";
+  if (period.quarter) return "quarter";
+  return "year";
+};
+
+// Financial year containing a period ("all" stays "all")
+export const fiscalYearOf = (key: FiscalPeriodKey): FiscalPeriodKey => {
+  const period = parseFiscalPeriodKey(key);
+  return period ? fiscalYearKey(period.startYear) : "all";
+};
+
+// Financial year, quarter and month keys a period falls in, used as the
+// period dimensions of the metric cubes. Every dimension is present, left
+// undefined for "all" and coarser periods, so spreading the result over a
+// cube slice replaces its whole period.
+export const fiscalPeriodMembers = (
+  key: FiscalPeriodKey
+): { fiscalYear?: string; quarter?: string; month?: string } => {
+  const period = parseFiscalPeriodKey(key);
+  if (!period) {
+    return { fiscalYear: undefined, quarter: undefined, month: undefined };
+  }
+  return {
+    fiscalYear: fiscalYearKey(period.startYear),
+    quarter: period.quarter
+      ? fiscalPeriodKey({
+          startYear: period.startYear,
+          quarter: period.quarter,
+        })
+      : undefined,
+    month: period.month ? fiscalPeriodKey(period) : undefined,
+  };
+};
+
+// Coarsen a period to at most the given granularity, e.g. when switching to
+// a dataset that is only reported per year
+export const truncateFiscalPeriod = (
+  key: FiscalPeriodKey,
+  granularity: FiscalGranularity
+): FiscalPeriodKey => {
+  const period = parseFiscalPeriodKey(key);
+  if (!period) return key;
+  if (granularity === "year") return fiscalYearKey(period.startYear);
+  if (granularity === "quarter") {
+    return fiscalPeriodKey({ ...period, month: undefined });
+  }
+  return key;
+};
+
+// Next finer periods inside a period, down to the given granularity: the
+// financial years for "all", quarters of a year, months of a quarter
+export const childFiscalPeriods = (
+  key: FiscalPeriodKey,
+  fiscalYears: FiscalPeriodKey[],
+  granularity: FiscalGranularity
+): FiscalPeriodKey[] => {
+  const period = parseFiscalPeriodKey(key);
+  if (!period) return fiscalYears;
+  const depth = granularityOrder.indexOf(granularity);
+  if (!period.quarter) {
+    if (depth < 1) return [];
+    return ([1, 2, 3, 4] as FiscalQuarter[]).map((quarter) =>
+      fiscalPeriodKey({ startYear: period.startYear, quarter })
+    );
+  }
+  if (!period.month && depth >= 2) {
+    return monthsOfFiscalQuarter(period.quarter).map((month) =>
+      fiscalPeriodKey({
+        startYear: period.startYear,
+        quarter: period.quarter,
+        month,
+      })
+    );
+  }
+  return [];
+};
+
+// Periods a chart's period axis shows for the selected period: its children,
+// or its siblings once the data has no finer periods
+export const fiscalPeriodAxis = (
+  key: FiscalPeriodKey,
+  fiscalYears: FiscalPeriodKey[],
+  granularity: FiscalGranularity
+): FiscalPeriodKey[] => {
+  const children = childFiscalPeriods(key, fiscalYears, granularity);
+  if (children.length > 0) return children;
+  const period = parseFiscalPeriodKey(key);
+  if (!period) return [];
+  const parent = period.month
+    ? fiscalPeriodKey({ ...period, month: undefined })
+    : period.quarter
+    ? fiscalYearKey(period.startYear)
+    : "all";
+  return childFiscalPeriods(parent, fiscalYears, granularity);
+};
+
+export const fiscalPeriodLabel = (key: FiscalPeriodKey): string => {
+  const period = parseFiscalPeriodKey(key);
+  if (!period) return key === "all" ? "All Years" : key;
+  if (period.month) {
+    return `${monthNames[period.month - 1]} ${calendarYearOf(
+      period.startYear,
+      period.month
+    )}`;
+  }
+  if (period.quarter) {
+    const months = monthsOfFiscalQuarter(period.quarter);
+    return `Q${period.quarter} (${monthNames[months[0] - 1]}-${
+      monthNames[months[2] - 1]
+    }) ${fiscalYearKey(period.startYear)}`;
+  }
+  return fiscalYearKey(period.startYear);
+};
+
+// Oldest first; quarters and months follow their financial year
+export const compareFiscalPeriods = (
+  a: FiscalPeriodKey,
+  b: FiscalPeriodKey
+): number => {
+  const rank = (key: FiscalPeriodKey) => {
+    const period = parseFiscalPeriodKey(key);
+    if (!period) return -1;
+    const month = period.month
+      ? (period.month - FISCAL_YEAR_START_MONTH + 12) % 12
+      : -1;
+    return period.startYear * 100 + (period.quarter || 0) * 20 + month + 1;
+  };
+  return rank(a) - rank(b);
+};
+
+// Financial years of the list up to and including the period's year, for
+// cumulative totals; every year for "all"
+export const fiscalYearsThrough = (
+  key: FiscalPeriodKey,
+  fiscalYears: FiscalPeriodKey[]
+): FiscalPeriodKey[] => {
+  const year = fiscalYearOf(key);
+  if (year === "all") return fiscalYears;
+  return fiscalYears.filter((fy) => compareFiscalPeriods(fy, year) <= 0);
+};
+
+// Excel stores dates as days since 1899-12-30
+const excelSerialToDate = (serial: number): Date =>
+  new Date(Math.round((serial - 25569) * 86400000));
+
+// Two-digit years in "FY21" style labels are 20xx
+const fullYear = (year: string): number =>
+  year.length === 2 ? 2000 + Number(year) : Number(year);
+
+// Read a financial year from the way it appears in source sheets:
+// "FY 2020-21", "2020-21", "2020-2021", "2020/21", "FY21" (named after the
+// year it ends in), ISO or dd/mm/yyyy dates and Excel date serials.
+// Bare calendar years are ambiguous and return null.
+export const parseFiscalYear = (
+  value: string | number | undefined | null
+): FiscalPeriodKey | null => {
+  if (value === undefined || value === null) return null;
+  if (typeof value === "number") {
+    // Plausible Excel serials for 1990-2100
+    return value > 32874 && value < 73051
+      ? fiscalYearKey(fiscalPeriodOfDate(excelSerialToDate(value)).startYear)
+      : null;
+  }
+  const text = value.trim().toUpperCase();
+
+  const range = /^(?:FY\s*)?(\d{4})\s*[-/–]\s*(\d{2}|\d{4})$/.exec(text);
+  if (range) {
+    const startYear = Number(range[1]);
+    const endYear = Number(range[2]);
+    const expectedEnd =
+      range[2].length === 2 ? (startYear + 1) % 100 : startYear + 1;
+    return endYear === expectedEnd ? fiscalYearKey(startYear) : null;
+  }
+
+  const named = /^FY\s*'?(\d{2}|\d{4})$/.exec(text);
+  if (named) return fiscalYearKey(fullYear(named[1]) - 1);
+
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(text);
+  const dayFirst = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/.exec(text);
+  const [year, month] = iso
+    ? [Number(iso[1]), Number(iso[2])]
+    : dayFirst
+    ? [Number(dayFirst[3]), Number(dayFirst[2])]
+    : [NaN, NaN];
+  if (month >= 1 && month <= 12) {
+    return fiscalYearKey(month >= FISCAL_YEAR_START_MONTH ? year : year - 1);
+  }
+
+  return null;
+};
+
+// Financial years and the finest granularity found in a set of period keys
+export const collectFiscalPeriods = (
+  keys: Iterable<FiscalPeriodKey>
+): { fiscalYears: FiscalPeriodKey[]; granularity: FiscalGranularity } => {
+  const years = new Set<FiscalPeriodKey>();
+  let depth = 0;
+  for (const key of keys) {
+    const granularity = fiscalPeriodGranularity(key);
+    if (!granularity) continue;
+    years.add(fiscalYearOf(key));
+    depth = Math.max(depth, granularityOrder.indexOf(granularity));
+  }
+  return {
+    fiscalYears: Array.from(years).sort(compareFiscalPeriods),
+    granularity: granularityOrder[depth],
+  };
+};
@@ -0,0 +1,354 @@
+import type { GeoJSONFeature } from "../App";
+
+// Canonical place names taken from the boundary polygons, with alias tables
+// and fuzzy matching for the free-text names in beneficiary records.
+
+export type PlaceLevel = "state" | "district" | "sub-district" | "village";
+
+// A polygon under its canonical name
+export interface GazetteerPlace {
+  level: PlaceLevel;
+  name: string;
+  state: string;
+  // Parent district of a sub-district or village
+  district?: string;
+  // Parent sub-district (taluk) of a village
+  subDistrict?: string;
+}
+
+export type PlaceMatchMethod = "exact" | "alias" | "fuzzy" | "none";
+
+export interface PlaceMatch {
+  place: GazetteerPlace | null;
+  method: PlaceMatchMethod;
+  // Similarity of the matched place (1 for exact and alias matches)
+  score: number;
+  // Closest places, best first, offered for review
+  candidates: GazetteerPlace[];
+}
+
+// Name as written in records, confirmed to mean a place in the review panel
+export interface PlaceAlias {
+  level: PlaceLevel;
+  // Empty for state aliases
+  state: string;
+  alias: string;
+  name: string;
+}
+
+export interface Gazetteer {
+  matchState: (name: string) => PlaceMatch;
+  matchDistrict: (state: string, name: string) => PlaceMatch;
+  // The district narrows the search when known
+  matchSubDistrict: (
+    state: string,
+    district: string | undefined,
+    name: string
+  ) => PlaceMatch;
+  // The taluk, or else the district, narrows the search when known
+  matchVillage: (
+    state: string,
+    district: string | undefined,
+    subDistrict: string | undefined,
+    name: string
+  ) => PlaceMatch;
+  places: (level: PlaceLevel, state?: string) => GazetteerPlace[];
+}
+
+// Minimum similarity for a fuzzy match, and the lead it needs over the next
+// candidate so near-ties are left for review
+const FUZZY_THRESHOLD = 0.8;
+const FUZZY_MARGIN = 0.05;
+const MAX_CANDIDATES = 5;
+
+// Comparison key: lower case, "&" as "and", administrative suffixes,
+// punctuation and spaces removed ("Lepa-Rada Dist." -> "leparada")
+export const placeKey = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/\b(district|dist|taluka?|tehsil|mandal|sub-division)\b\.?/g, "")
+    .replace(/[^a-z0-9]/g, "");
+
+// Former and alternative state names
+const stateAliases: Record<string, string> = {
+  orissa: "Odisha",
+  pondicherry: "Puducherry",
+  uttaranchal: "Uttarakhand",
+  andamanandnicobar: "Andaman and Nicobar Islands",
+  nctofdelhi: "Delhi",
+  dadraandnagarhavelianddamananddiu: "Dadra and Nagar Haveli and Daman and Diu",
+};
+
+// Districts renamed in recent years; either name may be on the polygons
+const renamedDistricts: { state: string; names: [string, string] }[] = [
+  { state: "Haryana", names: ["Gurgaon", "Gurugram"] },
+  { state: "Haryana", names: ["Mewat", "Nuh"] },
+  { state: "Uttar Pradesh", names: ["Allahabad", "Prayagraj"] },
+  { state: "Uttar Pradesh", names: ["Faizabad", "Ayodhya"] },
+  { state: "Madhya Pradesh", names: ["Hoshangabad", "Narmadapuram"] },
+  { state: "Maharashtra", names: ["Aurangabad", "Chhatrapati Sambhajinagar"] },
+  { state: "Maharashtra", names: ["Osmanabad", "Dharashiv"] },
+  { state: "Maharashtra", names: ["Ahmednagar", "Ahilyanagar"] },
+];
+
+// Districts carved out after older boundary sets were drawn -> the district
+// they were carved from, used when the new district has no polygon
+const carvedDistricts: Record<string, Record<string, string>> = {
+  arunachalpradesh: {
+    kamle: "Lower Subansiri",
+    leparada: "Lower Siang",
+    lowersiang: "West Siang",
+    shiyomi: "West Siang",
+    pakkekessang: "East Kameng",
+    kradaadi: "Kurung Kumey",
+  },
+};
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+export const placeSimilarity = (a: string, b: string): number => {
+  const keyA = placeKey(a);
+  const keyB = placeKey(b);
+  const length = Math.max(keyA.length, keyB.length);
+  return length === 0 ? 0 : 1 - levenshtein(keyA, keyB) / length;
+};
+
+const noMatch = (candidates: GazetteerPlace[]): PlaceMatch => ({
+  place: null,
+  method: "none",
+  score: 0,
+  candidates,
+});
+
+export const createGazetteer = (
+  areas: GeoJSONFeature["properties"][],
+  aliases: PlaceAlias[] = []
+): Gazetteer => {
+  // Places by level and state key, each keyed by its place key
+  const index = new Map<string, Map<string, GazetteerPlace>>();
+  const add = (place: GazetteerPlace, scope: string) => {
+    const id = `${place.level}|${scope}`;
+    const places = index.get(id) || new Map<string, GazetteerPlace>();
+    if (!places.has(placeKey(place.name))) {
+      places.set(placeKey(place.name), place);
+    }
+    index.set(id, places);
+  };
+
+  areas.forEach((area) => {
+    if (area.level === "state") {
+      add({ level: "state", name: area.shapeName, state: area.shapeName }, "");
+    } else if (area.level === "district" && area.st_nm) {
+      add(
+        {
+          level: "district",
+          name: area.district_name || area.shapeName,
+          state: area.st_nm,
+        },
+        placeKey(area.st_nm)
+      );
+    } else if (area.level === "sub-district" && area.st_nm) {
+      add(
+        {
+          level: "sub-district",
+          name: area.subdistrict_name || area.shapeName,
+          state: area.st_nm,
+          district: area.district_name,
+        },
+        placeKey(area.st_nm)
+      );
+    } else if (area.level === "village" && area.st_nm) {
+      add(
+        {
+          level: "village",
+          name: area.village_name || area.shapeName,
+          state: area.st_nm,
+          district: area.district_name,
+          subDistrict: area.subdistrict_name,
+        },
+        // Village names repeat across a state, so they are scoped by taluk
+        [area.st_nm, area.district_name || "", area.subdistrict_name || ""]
+          .map(placeKey)
+          .join("|")
+      );
+    }
+  });
+
+  const aliasTargets = new Map(
+    aliases.map((alias) => [
+      `${alias.level}|${placeKey(alias.state)}|${placeKey(alias.alias)}`,
+      alias.name,
+    ])
+  );
+
+  const places = (level: PlaceLevel, state?: string): GazetteerPlace[] => {
+    if (level !== "village") {
+      return Array.from(
+        index
+          .get(`${level}|${level === "state" ? "" : placeKey(state || "")}`)
+          ?.values() || []
+      );
+    }
+    // Villages of every taluk of the state
+    const prefix = `village|${placeKey(state || "")}|`;
+    return Array.from(index.entries())
+      .filter(([id]) => id.startsWith(prefix))
+      .flatMap(([, villages]) => Array.from(villages.values()));
+  };
+
+  // Exact, then alias, then fuzzy match of a name against some places
+  const match = (
+    name: string,
+    candidates: GazetteerPlace[],
+    aliasNames: string[]
+  ): PlaceMatch => {
+    const byKey = new Map(
+      candidates.map((place) => [placeKey(place.name), place])
+    );
+    const exact = byKey.get(placeKey(name));
+    if (exact) return { place: exact, method: "exact", score: 1, candidates };
+
+    const aliased = aliasNames
+      .map((aliasName) => byKey.get(placeKey(aliasName)))
+      .find(Boolean);
+    if (aliased) {
+      return { place: aliased, method: "alias", score: 1, candidates };
+    }
+
+    const ranked = candidates
+      .map((place) => ({ place, score: placeSimilarity(name, place.name) }))
+      .sort((a, b) => b.score - a.score);
+    const closest = ranked.slice(0, MAX_CANDIDATES).map(({ place }) => place);
+    const [best, next] = ranked;
+    if (
+      best &&
+      best.score >= FUZZY_THRESHOLD &&
+      (!next || best.score - next.score >= FUZZY_MARGIN)
+    ) {
+      return {
+        place: best.place,
+        method: "fuzzy",
+        score: best.score,
+        candidates: closest,
+      };
+    }
+    return noMatch(closest);
+  };
+
+  const userAlias = (level: PlaceLevel, state: string, name: string) =>
+    aliasTargets.get(`${level}|${placeKey(state)}|${placeKey(name)}`);
+
+  const matchState = (name: string): PlaceMatch =>
+    match(
+      name,
+      places("state"),
+      [userAlias("state", "", name), stateAliases[placeKey(name)]].filter(
+        (alias): alias is string => Boolean(alias)
+      )
+    );
+
+  const matchDistrict = (state: string, name: string): PlaceMatch => {
+    const stateKey = placeKey(state);
+    const aliasNames: string[] = [];
+    const confirmed = userAlias("district", state, name);
+    if (confirmed) aliasNames.push(confirmed);
+    renamedDistricts
+      .filter(
+        (rename) =>
+          placeKey(rename.state) === stateKey &&
+          rename.names.some((renamed) => placeKey(renamed) === placeKey(name))
+      )
+      .forEach((rename) => aliasNames.push(...rename.names));
+    // Follow carved districts up to the oldest parent
+    let parent = carvedDistricts[stateKey]?.[placeKey(name)];
+    while (parent && aliasNames.length < 10) {
+      aliasNames.push(parent);
+      parent = carvedDistricts[stateKey]?.[placeKey(parent)];
+    }
+
+    // Confirmed aliases take precedence over everything else
+    const candidates = places("district", state);
+    if (confirmed) {
+      const place = candidates.find(
+        (candidate) => placeKey(candidate.name) === placeKey(confirmed)
+      );
+      if (place) return { place, method: "alias", score: 1, candidates };
+    }
+    return match(name, candidates, aliasNames);
+  };
+
+  const matchSubDistrict = (
+    state: string,
+    district: string | undefined,
+    name: string
+  ): PlaceMatch => {
+    const candidates = places("sub-district", state).filter(
+      (place) =>
+        !district ||
+        !place.district ||
+        placeKey(place.district) === placeKey(district)
+    );
+    const confirmed = userAlias("sub-district", state, name);
+    return match(name, candidates, confirmed ? [confirmed] : []);
+  };
+
+  const matchVillage = (
+    state: string,
+    district: string | undefined,
+    subDistrict: string | undefined,
+    name: string
+  ): PlaceMatch => {
+    const within = (parent: string | undefined, value: string | undefined) =>
+      !parent || !value || placeKey(parent) === placeKey(value);
+    const inDistrict = places("village", state).filter((place) =>
+      within(place.district, district)
+    );
+    const inSubDistrict = inDistrict.filter((place) =>
+      within(place.subDistrict, subDistrict)
+    );
+    // A taluk written differently from the boundaries' one still leaves the
+    // district's villages
+    const candidates = inSubDistrict.length > 0 ? inSubDistrict : inDistrict;
+    const confirmed = userAlias("village", state, name);
+    return match(name, candidates, confirmed ? [confirmed] : []);
+  };
+
+  return {
+    matchState,
+    matchDistrict,
+    matchSubDistrict,
+    matchVillage,
+    places,
+  };
+};
+
+const placeAliasesStorageKey = "fisheryDashboard.placeAliases";
+
+// Aliases confirmed in the review panel are kept in the browser
+export const loadSavedPlaceAliases = (): PlaceAlias[] => {
+  try {
+    const saved = localStorage.getItem(placeAliasesStorageKey);
+    return saved ? (JSON.parse(saved) as PlaceAlias[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const savePlaceAliases = (aliases: PlaceAlias[]) => {
+  localStorage.setItem(placeAliasesStorageKey, JSON.stringify(aliases));
+};
@@ -0,0 +1,529 @@
+// Map export: the map's layers as one image, laid out on a page with a
+// title, the active filters, a legend, a scale bar and a north arrow. The
+// page is drawn as a list of shapes so PNG, SVG and PDF come out alike;
+// everything but the map image stays vector in SVG and PDF.
+
+export type MapExportFormat = "png" | "svg" | "pdf";
+
+export type PageSizeKey =
+  | "a4-landscape"
+  | "a4-portrait"
+  | "a3-landscape"
+  | "letter-landscape";
+
+// Sizes in points (1/72 inch)
+export const pageSizes: Record<
+  PageSizeKey,
+  { label: string; width: number; height: number }
+> = {
+  "a4-landscape": { label: "A4 Landscape", width: 842, height: 595 },
+  "a4-portrait": { label: "A4 Portrait", width: 595, height: 842 },
+  "a3-landscape": { label: "A3 Landscape", width: 1191, height: 842 },
+  "letter-landscape": { label: "Letter Landscape", width: 792, height: 612 },
+};
+
+export interface MapExportLegend {
+  title: string;
+  items: { color: string; label: string }[];
+}
+
+export interface MapExportContent {
+  title: string;
+  filters: string[];
+  legend: MapExportLegend | null;
+  // The map's layers at its pixel ratio, cssWidth x cssHeight on screen
+  mapCanvas: HTMLCanvasElement;
+  cssWidth: number;
+  // Ground metres per CSS pixel at the map centre, and the view rotation
+  metersPerPixel: number;
+  rotation: number;
+}
+
+type PageItem =
+  | { kind: "image"; x: number; y: number; width: number; height: number }
+  | {
+      kind: "rect";
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      fill?: string;
+      stroke?: string;
+    }
+  | {
+      kind: "path";
+      points: [number, number][];
+      closed: boolean;
+      fill?: string;
+      stroke?: string;
+    }
+  | {
+      kind: "text";
+      x: number;
+      // Baseline
+      y: number;
+      text: string;
+      size: number;
+      bold?: boolean;
+      color?: string;
+    };
+
+const MARGIN = 36;
+const TEXT_COLOR = "#1f2937";
+const MUTED_COLOR = "#4b5563";
+const FRAME_COLOR = "#9ca3af";
+// PNG pixels per point, about 150 dpi
+const PNG_SCALE = 2;
+
+// Longest round ground distance (1, 2 or 5 x 10^n metres) not above the
+// given one
+const roundDistance = (meters: number): number => {
+  const magnitude = 10 ** Math.floor(Math.log10(meters));
+  const step = [5, 2, 1].find((n) => n * magnitude <= meters) || 1;
+  return step * magnitude;
+};
+
+const formatDistance = (meters: number): string =>
+  meters >= 1000 ? `${meters / 1000} km` : `${meters} m`;
+
+const layoutPage = (
+  content: MapExportContent,
+  page: { width: number; height: number }
+): PageItem[] => {
+  const items: PageItem[] = [
+    {
+      kind: "text",
+      x: MARGIN,
+      y: MARGIN + 14,
+      text: content.title,
+      size: 18,
+      bold: true,
+      color: TEXT_COLOR,
+    },
+    {
+      kind: "text",
+      x: MARGIN,
+      y: MARGIN + 32,
+      text: content.filters.join("  ·  "),
+      size: 9,
+      color: MUTED_COLOR,
+    },
+  ];
+
+  // Map image fitted into the frame below the heading
+  const frame = {
+    x: MARGIN,
+    y: MARGIN + 44,
+    width: page.width - 2 * MARGIN,
+    height: page.height - 2 * MARGIN - 44,
+  };
+  const { mapCanvas } = content;
+  const fit = Math.min(
+    frame.width / mapCanvas.width,
+    frame.height / mapCanvas.height
+  );
+  const map = {
+    x: frame.x + (frame.width - mapCanvas.width * fit) / 2,
+    y: frame.y + (frame.height - mapCanvas.height * fit) / 2,
+    width: mapCanvas.width * fit,
+    height: mapCanvas.height * fit,
+  };
+  items.push(
+    { kind: "image", ...map },
+    { kind: "rect", ...map, stroke: FRAME_COLOR }
+  );
+
+  // Legend over the map's lower left corner
+  if (content.legend && content.legend.items.length > 0) {
+    const { title, items: rows } = content.legend;
+    const height = 24 + rows.length * 13;
+    const x = map.x + 8;
+    const y = map.y + map.height - 8 - height;
+    items.push(
+      {
+        kind: "rect",
+        x,
+        y,
+        width: 170,
+        height,
+        fill: "#ffffff",
+        stroke: FRAME_COLOR,
+      },
+      {
+        kind: "text",
+        x: x + 8,
+        y: y + 14,
+        text: title,
+        size: 9,
+        bold: true,
+        color: TEXT_COLOR,
+      }
+    );
+    rows.forEach((row, idx) => {
+      const rowY = y + 22 + idx * 13;
+      items.push(
+        {
+          kind: "rect",
+          x: x + 8,
+          y: rowY,
+          width: 9,
+          height: 9,
+          fill: row.color,
+        },
+        {
+          kind: "text",
+          x: x + 22,
+          y: rowY + 8,
+          text: row.label,
+          size: 8,
+          color: TEXT_COLOR,
+        }
+      );
+    });
+  }
+
+  // Scale bar over the lower right corner, at most 120 points long
+  const pointsPerPixel = map.width / content.cssWidth;
+  const metersPerPoint = content.metersPerPixel / pointsPerPixel;
+  if (metersPerPoint > 0 && Number.isFinite(metersPerPoint)) {
+    const distance = roundDistance(metersPerPoint * 120);
+    const length = distance / metersPerPoint;
+    const x = map.x + map.width - 16 - length;
+    const y = map.y + map.height - 14;
+    items.push(
+      {
+        kind: "rect",
+        x: x - 6,
+        y: y - 20,
+        width: length + 12,
+        height: 26,
+        fill: "#ffffff",
+        stroke: FRAME_COLOR,
+      },
+      {
+        kind: "path",
+        points: [
+          [x, y - 4],
+          [x, y],
+          [x + length, y],
+          [x + length, y - 4],
+        ],
+        closed: false,
+        stroke: TEXT_COLOR,
+      },
+      {
+        kind: "text",
+        x,
+        y: y - 8,
+        text: formatDistance(distance),
+        size: 8,
+        color: TEXT_COLOR,
+      }
+    );
+  }
+
+  // North arrow in the upper right corner, turned with the view
+  const centre: [number, number] = [map.x + map.width - 24, map.y + 30];
+  const turn = ([dx, dy]: [number, number]): [number, number] => [
+    centre[0] +
+      dx * Math.cos(content.rotation) -
+      dy * Math.sin(content.rotation),
+    centre[1] +
+      dx * Math.sin(content.rotation) +
+      dy * Math.cos(content.rotation),
+  ];
+  items.push(
+    {
+      kind: "path",
+      points: [turn([0, -14]), turn([8, 10]), turn([0, 5]), turn([-8, 10])],
+      closed: true,
+      fill: TEXT_COLOR,
+      stroke: "#ffffff",
+    },
+    {
+      kind: "text",
+      x: centre[0] - 4,
+      y: map.y + 56,
+      text: "N",
+      size: 11,
+      bold: true,
+      color: TEXT_COLOR,
+    }
+  );
+
+  return items;
+};
+
+const fontFamily = "Helvetica, Arial, sans-serif";
+
+const drawOnCanvas = (
+  items: PageItem[],
+  page: { width: number; height: number },
+  mapCanvas: HTMLCanvasElement
+): HTMLCanvasElement => {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(page.width * PNG_SCALE);
+  canvas.height = Math.round(page.height * PNG_SCALE);
+  const context = canvas.getContext("2d")!;
+  context.scale(PNG_SCALE, PNG_SCALE);
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, page.width, page.height);
+  items.forEach((item) => {
+    context.lineWidth = 1;
+    if (item.kind === "image") {
+      context.drawImage(mapCanvas, item.x, item.y, item.width, item.height);
+    } else if (item.kind === "rect") {
+      if (item.fill) {
+        context.fillStyle = item.fill;
+        context.fillRect(item.x, item.y, item.width, item.height);
+      }
+      if (item.stroke) {
+        context.strokeStyle = item.stroke;
+        context.strokeRect(item.x, item.y, item.width, item.height);
+      }
+    } else if (item.kind === "path") {
+      context.beginPath();
+      item.points.forEach(([x, y], idx) =>
+        idx === 0 ? context.moveTo(x, y) : context.lineTo(x, y)
+      );
+      if (item.closed) context.closePath();
+      if (item.fill) {
+        context.fillStyle = item.fill;
+        context.fill();
+      }
+      if (item.stroke) {
+        context.strokeStyle = item.stroke;
+        context.stroke();
+      }
+    } else {
+      context.font = `${item.bold ? "bold " : ""}${item.size}px ${fontFamily}`;
+      context.fillStyle = item.color || TEXT_COLOR;
+      context.fillText(item.text, item.x, item.y);
+    }
+  });
+  return canvas;
+};
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const toSvg = (
+  items: PageItem[],
+  page: { width: number; height: number },
+  mapCanvas: HTMLCanvasElement
+): string => {
+  const paint = (fill?: string, stroke?: string) =>
+    `fill="${fill || "none"}"${stroke ? ` stroke="${stroke}"` : ""}`;
+  const elements = items.map((item) => {
+    if (item.kind === "image") {
+      return `<image x="${item.x}" y="${item.y}" width="${
+        item.width
+      }" height="${
+        item.height
+      }" preserveAspectRatio="none" href="${mapCanvas.toDataURL(
+        "image/png"
+      )}"/>`;
+    }
+    if (item.kind === "rect") {
+      return `<rect x="${item.x}" y="${item.y}" width="${item.width}" height="${
+        item.height
+      }" ${paint(item.fill, item.stroke)}/>`;
+    }
+    if (item.kind === "path") {
+      const points = item.points.map(([x, y]) => `${x},${y}`).join(" ");
+      return `<${
+        item.closed ? "polygon" : "polyline"
+      } points="${points}" ${paint(item.fill, item.stroke)}/>`;
+    }
+    return `<text x="${item.x}" y="${
+      item.y
+    }" font-family="${fontFamily}" font-size="${item.size}"${
+      item.bold ? ' font-weight="bold"' : ""
+    } fill="${item.color || TEXT_COLOR}">${escapeXml(item.text)}</text>`;
+  });
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${page.width}pt" height="${page.height}pt" viewBox="0 0 ${page.width} ${page.height}">`,
+    `<rect width="${page.width}" height="${page.height}" fill="#ffffff"/>`,
+    ...elements,
+    "</svg>",
+  ].join("\n");
+};
+
+// CSS hex or rgb() colour as PDF 0-1 components; alpha is dropped
+const pdfColor = (color: string): string => {
+  let rgb = [0, 0, 0];
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  const functional = color.match(/^rgba?\(([^)]*)\)$/i);
+  if (hex) {
+    const digits =
+      hex[1].length === 3
+        ? hex[1].replace(/./g, (digit) => digit + digit)
+        : hex[1];
+    rgb = [0, 2, 4].map((start) =>
+      parseInt(digits.slice(start, start + 2), 16)
+    );
+  } else if (functional) {
+    rgb = functional[1].split(",").slice(0, 3).map(Number);
+  }
+  return rgb.map((value) => +(value / 255).toFixed(3)).join(" ");
+};
+
+// PDF string in the standard fonts' WinAnsi encoding; characters it lacks
+// are spelt out or replaced
+const pdfString = (text: string): string =>
+  `(${text
+    .replace(/₹ ?(?=\d)/g, "Rs ")
+    .replace(/₹/g, "Rs")
+    .replace(/[−–]/g, "-")
+    .replace(/[^\x20-\xff]/g, "?")
+    .replace(/[\\()]/g, (char) => `\\${char}`)})`;
+
+const latin1Bytes = (text: string): Uint8Array =>
+  Uint8Array.from(text, (char) => char.charCodeAt(0) & 0xff);
+
+// One-page PDF with the map as a JPEG image and the rest drawn as vectors
+// in the standard Helvetica fonts
+const toPdf = (
+  items: PageItem[],
+  page: { width: number; height: number },
+  mapCanvas: HTMLCanvasElement
+): Blob => {
+  // JPEG has no transparency, so the map goes onto white first
+  const flattened = document.createElement("canvas");
+  flattened.width = mapCanvas.width;
+  flattened.height = mapCanvas.height;
+  const context = flattened.getContext("2d")!;
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, flattened.width, flattened.height);
+  context.drawImage(mapCanvas, 0, 0);
+  const jpeg = latin1Bytes(
+    atob(flattened.toDataURL("image/jpeg", 0.92).split(",")[1])
+  );
+
+  // PDF space runs up from the page's lower left corner
+  const y = (top: number) => +(page.height - top).toFixed(2);
+  const n = (value: number) => +value.toFixed(2);
+  const operators = items.map((item) => {
+    if (item.kind === "image") {
+      return `q ${n(item.width)} 0 0 ${n(item.height)} ${n(item.x)} ${y(
+        item.y + item.height
+      )} cm /Im1 Do Q`;
+    }
+    if (item.kind === "text") {
+      return `BT /${item.bold ? "F2" : "F1"} ${item.size} Tf ${pdfColor(
+        item.color || TEXT_COLOR
+      )} rg ${n(item.x)} ${y(item.y)} Td ${pdfString(item.text)} Tj ET`;
+    }
+    const paint = `${item.fill ? `${pdfColor(item.fill)} rg ` : ""}${
+      item.stroke ? `${pdfColor(item.stroke)} RG 1 w ` : ""
+    }`;
+    const draw = item.fill && item.stroke ? "B" : item.fill ? "f" : "S";
+    if (item.kind === "rect") {
+      return `${paint}${n(item.x)} ${y(item.y + item.height)} ${n(
+        item.width
+      )} ${n(item.height)} re ${draw}`;
+    }
+    const path = item.points
+      .map(([px, py], idx) => `${n(px)} ${y(py)} ${idx === 0 ? "m" : "l"}`)
+      .join(" ");
+    return `${paint}${path}${item.closed ? " h" : ""} ${draw}`;
+  });
+  const contents = operators.join("\n");
+
+  const objects: (string | Uint8Array)[][] = [
+    ["<< /Type /Catalog /Pages 2 0 R >>"],
+    ["<< /Type /Pages /Kids [3 0 R] /Count 1 >>"],
+    [
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${page.width} ${page.height}] ` +
+        "/Resources << /Font << /F1 4 0 R /F2 5 0 R >> /XObject << /Im1 6 0 R >> >> " +
+        "/Contents 7 0 R >>",
+    ],
+    [
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    ],
+    [
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    ],
+    [
+      `<< /Type /XObject /Subtype /Image /Width ${flattened.width} /Height ${flattened.height} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`,
+      jpeg,
+      "\nendstream",
+    ],
+    [`<< /Length ${contents.length} >>\nstream\n${contents}\nendstream`],
+  ];
+
+  const chunks: Uint8Array[] = [];
+  let offset = 0;
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === "string" ? latin1Bytes(chunk) : chunk;
+    chunks.push(bytes);
+    offset += bytes.length;
+  };
+  write("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n");
+  const offsets = objects.map((parts, idx) => {
+    const start = offset;
+    write(`${idx + 1} 0 obj\n`);
+    parts.forEach(write);
+    write("\nendobj\n");
+    return start;
+  });
+  const xref = offset;
+  write(
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+      offsets
+        .map((start) => `${String(start).padStart(10, "0")} 00000 n \n`)
+        .join("") +
+      `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\n` +
+      `startxref\n${xref}\n%%EOF\n`
+  );
+  return new Blob(chunks, { type: "application/pdf" });
+};
+
+const fileName = (title: string, format: MapExportFormat): string =>
+  `${
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "map"
+  }-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+const download = (blob: Blob, name: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const exportMapPage = async (
+  content: MapExportContent,
+  format: MapExportFormat,
+  pageSize: PageSizeKey
+) => {
+  const page = pageSizes[pageSize];
+  const items = layoutPage(content, page);
+  const name = fileName(content.title, format);
+  if (format === "svg") {
+    download(
+      new Blob([toSvg(items, page, content.mapCanvas)], {
+        type: "image/svg+xml",
+      }),
+      name
+    );
+  } else if (format === "pdf") {
+    download(toPdf(items, page, content.mapCanvas), name);
+  } else {
+    const canvas = drawOnCanvas(items, page, content.mapCanvas);
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/png")
+    );
+    if (!blob) throw new Error("The map could not be drawn as a PNG");
+    download(blob, name);
+  }
+};
@@ -0,0 +1,115 @@
+import type { MetricValues } from "../App";
+
+// Member of each dimension a fact belongs to. A fact without a member for a
+// dimension only counts towards queries that leave that dimension open.
+export type CubeMembers<D extends string> = Partial<Record<D, string>>;
+
+export interface CubeFact<D extends string> {
+  members: CubeMembers<D>;
+  measures: MetricValues;
+}
+
+// Dimension -> member to keep. Dimensions left out, or set to ALL_MEMBERS,
+// are rolled up.
+export type CubeSlice<D extends string> = Partial<Record<D, string>>;
+
+export const ALL_MEMBERS = "all";
+
+// In-memory cube over leaf facts. Results are cached per slice and shared
+// between callers, so they must not be mutated.
+export interface MetricCube<D extends string> {
+  dimensions: readonly D[];
+  size: number;
+  // Measures summed over every fact in the slice
+  query: (slice?: CubeSlice<D>) => MetricValues;
+  // The slice's measures broken down by the members of one dimension
+  rollUp: (dimension: D, slice?: CubeSlice<D>) => Record<string, MetricValues>;
+  // Members of a dimension that have facts in the slice, sorted
+  members: (dimension: D, slice?: CubeSlice<D>) => string[];
+}
+
+export const addMeasures = (target: MetricValues, measures: MetricValues) => {
+  (Object.keys(measures) as (keyof MetricValues)[]).forEach((measure) => {
+    target[measure] = (target[measure] || 0) + (measures[measure] || 0);
+  });
+};
+
+export const createMetricCube = <D extends string>(
+  dimensions: readonly D[],
+  facts: CubeFact<D>[]
+): MetricCube<D> => {
+  // Fact positions per dimension member
+  const index = Object.fromEntries(
+    dimensions.map((dimension) => [dimension, new Map<string, number[]>()])
+  ) as Record<D, Map<string, number[]>>;
+  facts.forEach((fact, position) => {
+    dimensions.forEach((dimension) => {
+      const member = fact.members[dimension];
+      if (member === undefined) return;
+      const positions = index[dimension].get(member);
+      if (positions) positions.push(position);
+      else index[dimension].set(member, [position]);
+    });
+  });
+
+  const constrained = (slice: CubeSlice<D>): D[] =>
+    dimensions.filter(
+      (dimension) =>
+        slice[dimension] !== undefined && slice[dimension] !== ALL_MEMBERS
+    );
+
+  const sliceKey = (slice: CubeSlice<D>): string =>
+    constrained(slice)
+      .map((dimension) => `${dimension}=${slice[dimension]}`)
+      .join("|");
+
+  // Facts in the slice: scan the shortest member list and check the rest
+  const factsIn = (slice: CubeSlice<D>): CubeFact<D>[] => {
+    const dims = constrained(slice);
+    if (dims.length === 0) return facts;
+    const lists = dims.map(
+      (dimension) => index[dimension].get(slice[dimension] as string) || []
+    );
+    const shortest = lists.reduce((a, b) => (b.length < a.length ? b : a));
+    return shortest
+      .map((position) => facts[position])
+      .filter((fact) =>
+        dims.every((dimension) => fact.members[dimension] === slice[dimension])
+      );
+  };
+
+  const queryCache = new Map<string, MetricValues>();
+  const rollUpCache = new Map<string, Record<string, MetricValues>>();
+
+  const query = (slice: CubeSlice<D> = {}): MetricValues => {
+    const key = sliceKey(slice);
+    const cached = queryCache.get(key);
+    if (cached) return cached;
+    const total: MetricValues = {};
+    factsIn(slice).forEach((fact) => addMeasures(total, fact.measures));
+    queryCache.set(key, total);
+    return total;
+  };
+
+  const rollUp = (
+    dimension: D,
+    slice: CubeSlice<D> = {}
+  ): Record<string, MetricValues> => {
+    const key = `${dimension}:${sliceKey(slice)}`;
+    const cached = rollUpCache.get(key);
+    if (cached) return cached;
+    const groups: Record<string, MetricValues> = {};
+    factsIn(slice).forEach((fact) => {
+      const member = fact.members[dimension];
+      if (member === undefined) return;
+      addMeasures(groups[member] || (groups[member] = {}), fact.measures);
+    });
+    rollUpCache.set(key, groups);
+    return groups;
+  };
+
+  const members = (dimension: D, slice: CubeSlice<D> = {}): string[] =>
+    Object.keys(rollUp(dimension, slice)).sort();
+
+  return { dimensions, size: facts.length, query, rollUp, members };
+};
@@ -0,0 +1,71 @@
+import type { GeoJSONData, GeoJSONFeature } from "../App";
+import { firstProperty } from "./stateBoundaries";
+
+// Offline PIN code directory: the district and sub-district a PIN code's
+// post office serves. Used to place beneficiaries whose district text is
+// missing or does not match a boundary.
+export interface PinCodeEntry {
+  pinCode: string;
+  state: string;
+  district: string;
+  subDistrict?: string;
+}
+
+export interface PinCodeDirectory {
+  lookup: (pinCode: string) => PinCodeEntry | undefined;
+}
+
+// Indian PIN codes have six digits and never start with 0
+export const normalizePinCode = (value: string): string | null => {
+  const digits = value.replace(/\s+/g, "").replace(/\.0+$/, "");
+  return /^[1-9][0-9]{5}$/.test(digits) ? digits : null;
+};
+
+export const createPinCodeDirectory = (
+  entries: PinCodeEntry[]
+): PinCodeDirectory => {
+  const byPinCode = new Map<string, PinCodeEntry>();
+  entries.forEach((entry) => {
+    const pinCode = normalizePinCode(String(entry.pinCode));
+    // The first entry wins when a PIN code serves several districts
+    if (pinCode && !byPinCode.has(pinCode)) byPinCode.set(pinCode, entry);
+  });
+  return {
+    lookup: (pinCode) => {
+      const normalized = normalizePinCode(pinCode);
+      return normalized ? byPinCode.get(normalized) : undefined;
+    },
+  };
+};
+
+// Property names seen in PIN code boundary files
+const pinCodeProperties = ["pincode", "Pincode", "PINCODE", "pin_code"];
+const stateProperties = ["statename", "StateName", "state", "st_nm"];
+const districtProperties = ["district", "District", "Districtname", "dtname"];
+
+// Turn a PIN code boundary file into map features of the "pincode" level.
+// Features without a valid PIN code are dropped.
+export const normalizePinCodeAreas = (data: GeoJSONData): GeoJSONFeature[] =>
+  data.features.flatMap((f) => {
+    const type = f.geometry.type;
+    if (type !== "Polygon" && type !== "MultiPolygon") return [];
+    const properties = f.properties as unknown as Record<string, unknown>;
+    const pinCode = normalizePinCode(
+      firstProperty(properties, pinCodeProperties) || ""
+    );
+    if (!pinCode) return [];
+    return [
+      {
+        ...f,
+        properties: {
+          ...f.properties,
+          shapeID: `pin_${pinCode}`,
+          shapeName: pinCode,
+          st_nm: firstProperty(properties, stateProperties),
+          district_name: firstProperty(properties, districtProperties),
+          pin_code: pinCode,
+          level: "pincode",
+        },
+      },
+    ];
+  });
@@ -0,0 +1,153 @@
+import type { GeoJSONFeature } from "../App";
+import { placeKey, placeSimilarity } from "./gazetteer";
+import { pmmsyAreaKey } from "./pmmsyRecords";
+import type { PMMSYBeneficiary } from "./pmmsyRecords";
+
+// Place search over the boundaries on the map. Areas are found by their
+// own names and by the names beneficiary records give them, which may be
+// spelt differently, e.g. a village's local spelling.
+
+export type SearchLevel = "state" | "district" | "sub-district" | "village";
+
+export interface PlaceSearchEntry {
+  name: string;
+  level: SearchLevel;
+  // Parent names, nearest first ("Tiswadi, North Goa, Goa")
+  context: string;
+  // Area the result opens
+  area: GeoJSONFeature;
+  // The name is one beneficiary records use, not the boundary's own
+  fromRecords: boolean;
+}
+
+export interface PlaceSearchResult {
+  entry: PlaceSearchEntry;
+  score: number;
+}
+
+const searchLevels: SearchLevel[] = [
+  "state",
+  "district",
+  "sub-district",
+  "village",
+];
+
+// Lowest similarity of a fuzzy result, and results shown per search
+const MIN_SCORE = 0.7;
+const MAX_RESULTS = 8;
+
+const areaName = ({ properties }: GeoJSONFeature): string =>
+  (properties.level === "district"
+    ? properties.district_name
+    : properties.level === "sub-district"
+    ? properties.subdistrict_name
+    : properties.level === "village"
+    ? properties.village_name
+    : properties.shapeName) ||
+  properties.shapeName ||
+  "";
+
+const areaContext = ({ properties }: GeoJSONFeature): string => {
+  const parents =
+    properties.level === "village"
+      ? [properties.subdistrict_name, properties.district_name]
+      : properties.level === "sub-district"
+      ? [properties.district_name]
+      : [];
+  return [...parents, properties.level === "state" ? "" : properties.st_nm]
+    .filter(Boolean)
+    .join(", ");
+};
+
+// Record fields naming the place of each area level
+const recordNameFields: Partial<
+  Record<SearchLevel, "state" | "district" | "village">
+> = { state: "state", district: "district", village: "village" };
+
+export const buildPlaceIndex = (
+  areas: GeoJSONFeature[],
+  beneficiaries: PMMSYBeneficiary[] = []
+): PlaceSearchEntry[] => {
+  const entries: PlaceSearchEntry[] = [];
+  const seen = new Set<string>();
+  const add = (area: GeoJSONFeature, name: string, fromRecords: boolean) => {
+    const key = `${area.properties.shapeID}|${placeKey(name)}`;
+    if (!name.trim() || seen.has(key)) return;
+    seen.add(key);
+    entries.push({
+      name,
+      level: area.properties.level as SearchLevel,
+      context: areaContext(area),
+      area,
+      fromRecords,
+    });
+  };
+
+  const areasByKey = new Map<string, GeoJSONFeature>();
+  areas
+    .filter((area) =>
+      searchLevels.includes(area.properties.level as SearchLevel)
+    )
+    .forEach((area) => {
+      add(area, areaName(area), false);
+      const key = pmmsyAreaKey(area.properties);
+      if (key && !areasByKey.has(key)) areasByKey.set(key, area);
+    });
+
+  // Record spellings of the areas records were matched to
+  beneficiaries.forEach(({ record, areaKeys }) => {
+    areaKeys.forEach((areaKey) => {
+      const area = areasByKey.get(areaKey);
+      const field =
+        area && recordNameFields[area.properties.level as SearchLevel];
+      if (area && field && record[field]) add(area, record[field], true);
+    });
+  });
+
+  return entries;
+};
+
+// How well a query matches a name: 1 for a prefix, less for a match inside
+// the name, else the fuzzy similarity to the name or its start
+const matchScore = (query: string, name: string): number => {
+  const key = placeKey(name);
+  if (key.startsWith(query)) return 1;
+  if (key.includes(query)) return 0.9;
+  return Math.max(
+    placeSimilarity(query, key),
+    placeSimilarity(query, key.slice(0, query.length))
+  );
+};
+
+// Best matches, coarser areas first among equal scores and the boundary's
+// own name before a record spelling of the same area
+export const searchPlaces = (
+  index: PlaceSearchEntry[],
+  query: string
+): PlaceSearchResult[] => {
+  const key = placeKey(query);
+  if (!key) return [];
+  const best = new Map<string, PlaceSearchResult>();
+  index.forEach((entry) => {
+    const score = matchScore(key, entry.name);
+    if (score < MIN_SCORE) return;
+    const id = entry.area.properties.shapeID;
+    const current = best.get(id);
+    if (
+      !current ||
+      score > current.score ||
+      (score === current.score && current.entry.fromRecords)
+    ) {
+      best.set(id, { entry, score });
+    }
+  });
+  return Array.from(best.values())
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        searchLevels.indexOf(a.entry.level) -
+          searchLevels.indexOf(b.entry.level) ||
+        a.entry.name.localeCompare(b.entry.name)
+    )
+    .slice(0, MAX_RESULTS);
+};
@@ -0,0 +1,175 @@
+import type { PMMSYRawRecord } from "./pmmsyRecords";
+
+// Record columns an imported sheet can be mapped to
+export const pmmsyImportColumns = [
+  "UNIQUE_ID",
+  "NAME_OF_THE_STATE/UT",
+  "FISHERIES_SECTOR_OF_THE_STATE/UT",
+  "FINANCIAL_YEAR",
+  "COMPONENT",
+  "NAME_OF_THE_ACTIVITY",
+  "NAME_OF_THE_SUB-ACTIVITY",
+  "PMMSY_UNIT_COST",
+  "TYPE_OF_BENEFICIARY",
+  "NAME_OF_THE_BENEFICIARY_/_GROUP_LEADER_/_ENTERPRISE_(OR)_COMPANY_AUTHORISED",
+  "BENEFICIARY_DISTRICT",
+  "BENEFICIARY_TALUK_/_MANDAL",
+  "BENEFICIARY_VILLAGE",
+  "PIN_CODE",
+  "SUM_OF_TOTAL_COST_(CENTRAL_SHARE+_STATE_SHARE+_BENEFICIARY_CONTRIBUTION)",
+  "SUM_OF_ADDITIONAL_STATE_SHARE_RELEASED_(IN_RS.)",
+  "OUTPUT",
+  "TOTAL_OUTPUT",
+  "TOTAL_EMPLOYMENT_GENERATED_(WOMEN)",
+  "TOTAL_EMPLOYMENT_GENERATED_(MEN)",
+  "DIRECT_EMPLOYMENT_GENERATED_(WOMEN)",
+  "DIRECT_EMPLOYMENT_GENERATED_(MEN)",
+  "INDIRECT_EMPLOYMENT_GENERATED_(WOMEN)",
+  "INDIRECT_EMPLOYMENT_GENERATED_(MEN)",
+] as const;
+
+export type PMMSYImportColumn = (typeof pmmsyImportColumns)[number];
+
+// Columns a row cannot be placed on the map or filtered without
+export const requiredImportColumns: PMMSYImportColumn[] = [
+  "NAME_OF_THE_STATE/UT",
+  "FISHERIES_SECTOR_OF_THE_STATE/UT",
+  "FINANCIAL_YEAR",
+];
+
+// Source header -> record column ("" when the column is skipped)
+export type ColumnMapping = Record<string, PMMSYImportColumn | "">;
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: Record<string, string | number>[];
+}
+
+// Shorter headers seen in state progress sheets
+const headerAliases: Record<string, PMMSYImportColumn> = {
+  id: "UNIQUE_ID",
+  uniqueid: "UNIQUE_ID",
+  state: "NAME_OF_THE_STATE/UT",
+  stateut: "NAME_OF_THE_STATE/UT",
+  sector: "FISHERIES_SECTOR_OF_THE_STATE/UT",
+  fisheriessector: "FISHERIES_SECTOR_OF_THE_STATE/UT",
+  fy: "FINANCIAL_YEAR",
+  year: "FINANCIAL_YEAR",
+  financialyear: "FINANCIAL_YEAR",
+  activity: "NAME_OF_THE_ACTIVITY",
+  subactivity: "NAME_OF_THE_SUB-ACTIVITY",
+  unitcost: "PMMSY_UNIT_COST",
+  beneficiarytype: "TYPE_OF_BENEFICIARY",
+  beneficiaryname: "NAME_OF_THE_BENEFICIARY_/_GROUP_LEADER_/_ENTERPRISE_(OR)_COMPANY_AUTHORISED",
+  district: "BENEFICIARY_DISTRICT",
+  taluk: "BENEFICIARY_TALUK_/_MANDAL",
+  mandal: "BENEFICIARY_TALUK_/_MANDAL",
+  block: "BENEFICIARY_TALUK_/_MANDAL",
+  village: "BENEFICIARY_VILLAGE",
+  pin: "PIN_CODE",
+  pincode: "PIN_CODE",
+  totalcost: "SUM_OF_TOTAL_COST_(CENTRAL_SHARE+_STATE_SHARE+_BENEFICIARY_CONTRIBUTION)",
+  projectcost: "SUM_OF_TOTAL_COST_(CENTRAL_SHARE+_STATE_SHARE+_BENEFICIARY_CONTRIBUTION)",
+};
+
+// Compare headers ignoring case, spacing and punctuation
+const headerToken = (header: string): string =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const canonicalTokens = new Map<string, PMMSYImportColumn>(
+  pmmsyImportColumns.map((column) => [headerToken(column), column])
+);
+
+export const autoMapColumns = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<PMMSYImportColumn>();
+
+  headers.forEach((header) => {
+    const token = headerToken(header);
+    const column = canonicalTokens.get(token) || headerAliases[token];
+    if (column && !used.has(column)) {
+      mapping[header] = column;
+      used.add(column);
+    } else {
+      mapping[header] = "";
+    }
+  });
+
+  return mapping;
+};
+
+export const missingRequiredColumns = (
+  mapping: ColumnMapping
+): PMMSYImportColumn[] => {
+  const mapped = new Set(Object.values(mapping));
+  return requiredImportColumns.filter((column) => !mapped.has(column));
+};
+
+// Read the first worksheet of a CSV or XLSX file
+export const readSpreadsheet = async (file: File): Promise<ParsedSheet> => {
+  const XLSX = await import("xlsx");
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: "array" });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error("The file does not contain any sheet");
+
+  const [headerRow = [], ...cellRows] = XLSX.utils.sheet_to_json<unknown[]>(
+    sheet,
+    { header: 1, blankrows: false, defval: "", raw: true }
+  );
+  // Rows are keyed by the same trimmed headers that are shown and mapped; a
+  // repeated header gets a numbered suffix so neither column is lost
+  const columns: { header: string; index: number }[] = [];
+  const headerCounts = new Map<string, number>();
+  headerRow.forEach((cell, index) => {
+    const header = String(cell ?? "").trim();
+    if (!header) return;
+    const count = (headerCounts.get(header) || 0) + 1;
+    headerCounts.set(header, count);
+    columns.push({
+      header: count > 1 ? `${header} (${count})` : header,
+      index,
+    });
+  });
+  const headers = columns.map((column) => column.header);
+  const rows = cellRows.map((cells) =>
+    Object.fromEntries(
+      columns.map(({ header, index }) => [
+        header,
+        (cells[index] ?? "") as string | number,
+      ])
+    )
+  );
+
+  return { headers, rows };
+};
+
+export const applyColumnMapping = (
+  sheet: ParsedSheet,
+  mapping: ColumnMapping,
+  idPrefix: string
+): PMMSYRawRecord[] =>
+  sheet.rows.map((row, index) => {
+    const record: Record<string, string | number> = {};
+    sheet.headers.forEach((header) => {
+      const column = mapping[header];
+      const value = row[header];
+      if (column && value !== "" && value !== undefined) {
+        record[column] = typeof value === "string" ? value.trim() : value;
+      }
+    });
+    // Rows without an ID still need a stable key for merging
+    if (!record.UNIQUE_ID) record.UNIQUE_ID = `${idPrefix}-${index + 1}`;
+    return record as PMMSYRawRecord;
+  });
+
+// Imported rows replace existing records with the same UNIQUE_ID
+export const mergePMMSYRecords = (
+  existing: PMMSYRawRecord[],
+  imported: PMMSYRawRecord[]
+): PMMSYRawRecord[] => {
+  const importedIds = new Set(imported.map((record) => record.UNIQUE_ID));
+  return [
+    ...existing.filter((record) => !importedIds.has(record.UNIQUE_ID)),
+    ...imported,
+  ];
+};
@@ -0,0 +1,543 @@
+import type { GeoJSONFeature, MetricValues } from "../App";
+import { compareFiscalPeriods, parseFiscalYear } from "./fiscalPeriods";
+import type {
+  Gazetteer,
+  PlaceLevel,
+  PlaceMatch,
+  PlaceMatchMethod,
+} from "./gazetteer";
+import { normalizePinCode } from "./pinCodes";
+import type { PinCodeDirectory } from "./pinCodes";
+import { ALL_MEMBERS, createMetricCube } from "./metricCube";
+import type { CubeMembers, CubeSlice, MetricCube } from "./metricCube";
+
+// Raw beneficiary record as published in pmmsyData.json
+export interface PMMSYRawRecord {
+  UNIQUE_ID: string;
+  "NAME_OF_THE_STATE/UT": string;
+  "FISHERIES_SECTOR_OF_THE_STATE/UT": string;
+  FINANCIAL_YEAR: string;
+  COMPONENT?: string;
+  NAME_OF_THE_ACTIVITY: string;
+  "NAME_OF_THE_SUB-ACTIVITY"?: string;
+  PMMSY_UNIT_COST?: number | string;
+  TYPE_OF_BENEFICIARY: string;
+  "NAME_OF_THE_BENEFICIARY_/_GROUP_LEADER_/_ENTERPRISE_(OR)_COMPANY_AUTHORISED"?: string;
+  BENEFICIARY_DISTRICT?: string;
+  "BENEFICIARY_TALUK_/_MANDAL"?: string;
+  BENEFICIARY_VILLAGE?: string;
+  PIN_CODE?: number | string;
+  "SUM_OF_TOTAL_COST_(CENTRAL_SHARE+_STATE_SHARE+_BENEFICIARY_CONTRIBUTION)"?:
+    | number
+    | string;
+  "SUM_OF_ADDITIONAL_STATE_SHARE_RELEASED_(IN_RS.)"?: number | string;
+  OUTPUT?: string;
+  TOTAL_OUTPUT?: number | string;
+  "TOTAL_EMPLOYMENT_GENERATED_(WOMEN)"?: number | string;
+  "TOTAL_EMPLOYMENT_GENERATED_(MEN)"?: number | string;
+  "DIRECT_EMPLOYMENT_GENERATED_(WOMEN)"?: number | string;
+  "DIRECT_EMPLOYMENT_GENERATED_(MEN)"?: number | string;
+  "INDIRECT_EMPLOYMENT_GENERATED_(WOMEN)"?: number | string;
+  "INDIRECT_EMPLOYMENT_GENERATED_(MEN)"?: number | string;
+  [column: string]: number | string | undefined;
+}
+
+// Normalised beneficiary record used by the dashboard
+export interface PMMSYRecord {
+  id: string;
+  state: string;
+  sector: string;
+  financialYear: string;
+  activity: string;
+  subActivity: string;
+  beneficiaryType: string;
+  beneficiaryName: string;
+  district: string;
+  taluk: string;
+  village: string;
+  pinCode: string;
+  unitCost: number | null;
+  totalCost: number | null;
+  outputType: string | null;
+  totalOutput: number | null;
+  employmentMen: number | null;
+  employmentWomen: number | null;
+  directEmploymentMen: number | null;
+  directEmploymentWomen: number | null;
+  indirectEmploymentMen: number | null;
+  indirectEmploymentWomen: number | null;
+}
+
+export const pmmsyDimensions = [
+  "state",
+  "district",
+  "subDistrict",
+  "village",
+  "pinCode",
+  "sector",
+  "fiscalYear",
+  "activity",
+  "beneficiaryType",
+] as const;
+
+export type PMMSYDimension = (typeof pmmsyDimensions)[number];
+export type PMMSYCube = MetricCube<PMMSYDimension>;
+
+// Parse a numeric column that may be stored as a number or a string
+const toNumber = (value: number | string | undefined): number | null => {
+  if (value === undefined || value === null || value === "") return null;
+  const parsed =
+    typeof value === "number" ? value : Number(value.replace(/,/g, ""));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const toText = (value: number | string | undefined): string =>
+  value === undefined || value === null ? "" : String(value).trim();
+
+// Lower-case, whitespace-collapsed name used to join records to polygons
+export const normalizeAreaName = (name: string): string =>
+  name.toLowerCase().replace(/\s+/g, " ").trim();
+
+const districtAreaKey = (state: string, district: string): string =>
+  `${normalizeAreaName(state)}|${normalizeAreaName(district)}`;
+
+const subDistrictAreaKey = (
+  state: string,
+  district: string,
+  subDistrict: string
+): string =>
+  `${districtAreaKey(state, district)}|${normalizeAreaName(subDistrict)}`;
+
+const villageAreaKey = (
+  state: string,
+  district: string,
+  subDistrict: string,
+  village: string
+): string =>
+  `${subDistrictAreaKey(state, district, subDistrict)}|${normalizeAreaName(
+    village
+  )}`;
+
+export const parsePMMSYRecords = (raw: PMMSYRawRecord[]): PMMSYRecord[] =>
+  raw.map((row) => {
+    const employmentMen = toNumber(row["TOTAL_EMPLOYMENT_GENERATED_(MEN)"]);
+    const employmentWomen = toNumber(row["TOTAL_EMPLOYMENT_GENERATED_(WOMEN)"]);
+    const outputType = toText(row.OUTPUT);
+
+    return {
+      id: toText(row.UNIQUE_ID),
+      state: toText(row["NAME_OF_THE_STATE/UT"]),
+      sector: toText(row["FISHERIES_SECTOR_OF_THE_STATE/UT"]),
+      // "2020-21", "FY21" or a sanction date all become "FY 2020-21"
+      financialYear:
+        parseFiscalYear(row.FINANCIAL_YEAR) || toText(row.FINANCIAL_YEAR),
+      activity: toText(row.NAME_OF_THE_ACTIVITY),
+      subActivity: toText(row["NAME_OF_THE_SUB-ACTIVITY"]),
+      beneficiaryType: toText(row.TYPE_OF_BENEFICIARY),
+      beneficiaryName: toText(
+        row[
+          "NAME_OF_THE_BENEFICIARY_/_GROUP_LEADER_/_ENTERPRISE_(OR)_COMPANY_AUTHORISED"
+        ]
+      ),
+      district: toText(row.BENEFICIARY_DISTRICT),
+      taluk: toText(row["BENEFICIARY_TALUK_/_MANDAL"]),
+      village: toText(row.BENEFICIARY_VILLAGE),
+      pinCode: toText(row.PIN_CODE),
+      unitCost: toNumber(row.PMMSY_UNIT_COST),
+      totalCost: toNumber(
+        row[
+          "SUM_OF_TOTAL_COST_(CENTRAL_SHARE+_STATE_SHARE+_BENEFICIARY_CONTRIBUTION)"
+        ]
+      ),
+      outputType: outputType || null,
+      totalOutput: toNumber(row.TOTAL_OUTPUT),
+      employmentMen,
+      employmentWomen,
+      directEmploymentMen: toNumber(row["DIRECT_EMPLOYMENT_GENERATED_(MEN)"]),
+      directEmploymentWomen: toNumber(
+        row["DIRECT_EMPLOYMENT_GENERATED_(WOMEN)"]
+      ),
+      indirectEmploymentMen: toNumber(
+        row["INDIRECT_EMPLOYMENT_GENERATED_(MEN)"]
+      ),
+      indirectEmploymentWomen: toNumber(
+        row["INDIRECT_EMPLOYMENT_GENERATED_(WOMEN)"]
+      ),
+    };
+  });
+
+// Metric contribution of a single record
+const recordMetrics = (record: PMMSYRecord): MetricValues => {
+  const output = record.totalOutput ?? 0;
+  const isSale = record.outputType?.toLowerCase().startsWith("fish sale");
+  return {
+    totalProjects: 1,
+    totalInvestment: record.totalCost ?? 0,
+    fishOutput: output,
+    production: isSale ? 0 : output,
+    fishSale: isSale ? output : 0,
+    totalEmployment:
+      (record.employmentMen ?? 0) + (record.employmentWomen ?? 0),
+    directEmploymentMen: record.directEmploymentMen ?? 0,
+    directEmploymentWomen: record.directEmploymentWomen ?? 0,
+    indirectEmploymentMen: record.indirectEmploymentMen ?? 0,
+    indirectEmploymentWomen: record.indirectEmploymentWomen ?? 0,
+  };
+};
+
+// Canonical names of the polygons a record is joined on; unset where the
+// record's names match no polygon
+export interface PMMSYPlace {
+  state: string;
+  district?: string;
+  subDistrict?: string;
+  // Parent district of the sub-district polygon, when the boundaries give one
+  subDistrictParent?: string;
+  village?: string;
+  // Parents of the village polygon, when the boundaries give them
+  villageDistrict?: string;
+  villageSubDistrict?: string;
+  pinCode?: string;
+}
+
+// A place name from the records that did not match a polygon exactly, for
+// review in the gazetteer panel
+export interface PlaceReviewItem {
+  level: PlaceLevel;
+  state: string;
+  // Name as written in the records
+  name: string;
+  // Number of records using the name
+  records: number;
+  method: PlaceMatchMethod;
+  // Polygon name a fuzzy match chose
+  match?: string;
+  score: number;
+  candidates: string[];
+}
+
+export interface PMMSYPlaceResolution {
+  // One per record, in record order
+  places: PMMSYPlace[];
+  review: PlaceReviewItem[];
+}
+
+const needsReview = (match: PlaceMatch): boolean =>
+  match.method === "fuzzy" || match.method === "none";
+
+// Match every record's state, district, taluk and village to the gazetteer.
+// Records whose names are missing or only match by spelling are placed by
+// their PIN code when the directory knows it, and records still without a
+// district by a taluk (or village) that matches a sub-district polygon.
+export const resolvePMMSYPlaces = (
+  records: PMMSYRecord[],
+  gazetteer: Gazetteer,
+  pinCodes?: PinCodeDirectory
+): PMMSYPlaceResolution => {
+  const review = new Map<string, PlaceReviewItem>();
+  // Records share few distinct names, so matches are reused
+  const matches = new Map<string, PlaceMatch>();
+  const cached = (key: string, match: () => PlaceMatch): PlaceMatch => {
+    const found = matches.get(key) || match();
+    matches.set(key, found);
+    return found;
+  };
+
+  const flag = (
+    level: PlaceLevel,
+    state: string,
+    name: string,
+    match: PlaceMatch
+  ) => {
+    // Without candidates there are no polygons at that level to choose from
+    if (!needsReview(match) || match.candidates.length === 0) return;
+    const key = [level, state, name].map(normalizeAreaName).join("|");
+    const item = review.get(key) || {
+      level,
+      state,
+      name,
+      records: 0,
+      method: match.method,
+      match: match.place?.name,
+      score: match.score,
+      candidates: match.candidates.map((place) => place.name),
+    };
+    item.records += 1;
+    review.set(key, item);
+  };
+
+  const villageStates = new Map<string, boolean>();
+  const hasVillages = (state: string): boolean => {
+    const known = villageStates.get(state);
+    if (known !== undefined) return known;
+    const found = gazetteer.places("village", state).length > 0;
+    villageStates.set(state, found);
+    return found;
+  };
+
+  // Names from the PIN code directory only count on an exact or alias match
+  const matchedName = (match: PlaceMatch): string | undefined =>
+    needsReview(match) ? undefined : match.place?.name;
+
+  const places = records.map((record): PMMSYPlace => {
+    const pinCode = normalizePinCode(record.pinCode) || undefined;
+    const pinEntry = pinCode ? pinCodes?.lookup(pinCode) : undefined;
+
+    const stateMatch = cached(`state|${record.state}`, () =>
+      gazetteer.matchState(record.state)
+    );
+    const pinState =
+      pinEntry && !stateMatch.place
+        ? matchedName(
+            cached(`state|${pinEntry.state}`, () =>
+              gazetteer.matchState(pinEntry.state)
+            )
+          )
+        : undefined;
+    const state = stateMatch.place?.name || pinState || record.state;
+    const place: PMMSYPlace = { state, pinCode };
+    if (!pinState) flag("state", record.state, record.state, stateMatch);
+
+    const districtMatch = record.district
+      ? cached(`district|${state}|${record.district}`, () =>
+          gazetteer.matchDistrict(state, record.district)
+        )
+      : null;
+    const pinDistrict =
+      pinEntry && (!districtMatch || needsReview(districtMatch))
+        ? matchedName(
+            cached(`district|${state}|${pinEntry.district}`, () =>
+              gazetteer.matchDistrict(state, pinEntry.district)
+            )
+          )
+        : undefined;
+    place.district = pinDistrict || districtMatch?.place?.name;
+    if (districtMatch && !pinDistrict) {
+      flag("district", state, record.district, districtMatch);
+    }
+
+    // Taluks are only matched where the boundaries have sub-districts
+    if (gazetteer.places("sub-district", state).length > 0) {
+      const matchSubDistrict = (name: string) =>
+        cached(`sub-district|${state}|${place.district}|${name}`, () =>
+          gazetteer.matchSubDistrict(state, place.district, name)
+        );
+      const talukMatch = record.taluk ? matchSubDistrict(record.taluk) : null;
+      const pinSubDistrict =
+        pinEntry?.subDistrict && (!talukMatch || needsReview(talukMatch))
+          ? matchSubDistrict(pinEntry.subDistrict)
+          : null;
+      // Villages only count when they name a sub-district outright
+      const villageMatch =
+        !talukMatch?.place && record.village
+          ? matchSubDistrict(record.village)
+          : null;
+      const subDistrict = [pinSubDistrict, talukMatch, villageMatch]
+        .filter((match): match is PlaceMatch => !!match?.place)
+        .find((match) => match === talukMatch || !needsReview(match))?.place;
+      if (subDistrict) {
+        place.subDistrict = subDistrict.name;
+        place.subDistrictParent = subDistrict.district;
+        place.district = place.district || subDistrict.district;
+      }
+      if (talukMatch && (subDistrict || null) === talukMatch.place) {
+        flag("sub-district", state, record.taluk, talukMatch);
+      }
+    }
+
+    // Villages likewise, within the record's taluk when it is known
+    if (record.village && hasVillages(state)) {
+      const taluk = place.subDistrict || record.taluk || undefined;
+      const villageMatch = cached(
+        `village|${state}|${place.district}|${taluk}|${record.village}`,
+        () =>
+          gazetteer.matchVillage(state, place.district, taluk, record.village)
+      );
+      const village = villageMatch.place;
+      if (village) {
+        place.village = village.name;
+        place.villageDistrict = village.district;
+        place.villageSubDistrict = village.subDistrict;
+      }
+      flag("village", state, record.village, villageMatch);
+    }
+    return place;
+  });
+
+  return {
+    places,
+    review: Array.from(review.values()).sort(
+      (a, b) => b.records - a.records || a.name.localeCompare(b.name)
+    ),
+  };
+};
+
+// Area dimension members of a resolved place
+const placeMembers = (place: PMMSYPlace): CubeMembers<PMMSYDimension> => ({
+  state: normalizeAreaName(place.state),
+  district: place.district
+    ? districtAreaKey(place.state, place.district)
+    : undefined,
+  subDistrict: place.subDistrict
+    ? subDistrictAreaKey(
+        place.state,
+        place.subDistrictParent || "",
+        place.subDistrict
+      )
+    : undefined,
+  village: place.village
+    ? villageAreaKey(
+        place.state,
+        place.villageDistrict || "",
+        place.villageSubDistrict || "",
+        place.village
+      )
+    : undefined,
+  pinCode: place.pinCode,
+});
+
+// The record's place when it has not been resolved against boundaries
+const recordPlace = (record: PMMSYRecord): PMMSYPlace => ({
+  state: record.state,
+  district: record.district || undefined,
+  pinCode: normalizePinCode(record.pinCode) || undefined,
+});
+
+// One fact per record; blank fields leave the dimension unset. Resolved
+// places replace the records' own names where given.
+export const createPMMSYCube = (
+  records: PMMSYRecord[],
+  places?: PMMSYPlace[]
+): PMMSYCube =>
+  createMetricCube(
+    pmmsyDimensions,
+    records
+      .map((record, idx) => ({
+        record,
+        place: places?.[idx] || recordPlace(record),
+      }))
+      .filter(({ place }) => place.state)
+      .map(({ record, place }) => ({
+        members: {
+          ...placeMembers(place),
+          sector: record.sector || undefined,
+          fiscalYear: record.financialYear || undefined,
+          activity: record.activity || undefined,
+          beneficiaryType: record.beneficiaryType || undefined,
+        },
+        measures: recordMetrics(record),
+      }))
+  );
+
+// Slice holding the records of a map area, matched by state name, by state
+// and district name, by the names of a sub-district or village and its
+// parents, or by PIN code; null for areas records are not reported for
+export const pmmsyAreaSlice = (
+  area: GeoJSONFeature["properties"]
+): CubeSlice<PMMSYDimension> | null => {
+  const {
+    shapeName,
+    level,
+    st_nm,
+    district_name,
+    subdistrict_name,
+    village_name,
+    pin_code,
+  } = area;
+  if (level === "state") return { state: normalizeAreaName(shapeName) };
+  if (level === "district" && st_nm) {
+    return { district: districtAreaKey(st_nm, district_name || shapeName) };
+  }
+  if (level === "sub-district" && st_nm) {
+    return {
+      subDistrict: subDistrictAreaKey(
+        st_nm,
+        district_name || "",
+        subdistrict_name || shapeName
+      ),
+    };
+  }
+  if (level === "village" && st_nm) {
+    return {
+      village: villageAreaKey(
+        st_nm,
+        district_name || "",
+        subdistrict_name || "",
+        village_name || shapeName
+      ),
+    };
+  }
+  if (level === "pincode" && pin_code) return { pinCode: pin_code };
+  return null;
+};
+
+// Area dimensions from the finest to the coarsest
+const areaDimensions: PMMSYDimension[] = [
+  "village",
+  "pinCode",
+  "subDistrict",
+  "district",
+  "state",
+];
+
+// Single key for the slice of an area, comparable with the keys of
+// PMMSYBeneficiary.areaKeys; null where pmmsyAreaSlice is
+export const pmmsyAreaKey = (
+  area: GeoJSONFeature["properties"]
+): string | null => {
+  const slice = pmmsyAreaSlice(area);
+  const dimension = slice && areaDimensions.find((key) => slice[key]);
+  return slice && dimension ? `${dimension}|${slice[dimension]}` : null;
+};
+
+// A record for the map's point layer with the keys of the areas it lies in,
+// finest first, so it can be drawn in the finest area on the map
+export interface PMMSYBeneficiary {
+  record: PMMSYRecord;
+  areaKeys: string[];
+}
+
+export const pmmsyBeneficiaries = (
+  records: PMMSYRecord[],
+  places?: PMMSYPlace[]
+): PMMSYBeneficiary[] =>
+  records.map((record, idx) => {
+    const members = placeMembers(places?.[idx] || recordPlace(record));
+    return {
+      record,
+      areaKeys: areaDimensions
+        .filter((dimension) => members[dimension])
+        .map((dimension) => `${dimension}|${members[dimension]}`),
+    };
+  });
+
+// Beneficiaries (or points drawn for them) under the PMMSY filters. Records
+// carry no beneficiary gender, so like the PMMSY area metrics they ignore
+// the gender filter. Cumulative keeps every year up to fiscalYear.
+export const filterPMMSYBeneficiaries = <T extends { record: PMMSYRecord }>(
+  beneficiaries: T[],
+  {
+    sector,
+    fiscalYear,
+    cumulative = false,
+  }: { sector: string; fiscalYear: string; cumulative?: boolean }
+): T[] =>
+  beneficiaries.filter(
+    ({ record }) =>
+      (sector === ALL_MEMBERS || record.sector === sector) &&
+      (fiscalYear === ALL_MEMBERS ||
+        (cumulative
+          ? !!record.financialYear &&
+            compareFiscalPeriods(record.financialYear, fiscalYear) <= 0
+          : record.financialYear === fiscalYear))
+  );
+
+// Distinct values of a record field, sorted, for filter options. Financial
+// years are sorted chronologically.
+export const distinctPMMSYValues = (
+  records: PMMSYRecord[],
+  field: "sector" | "financialYear" | "activity" | "beneficiaryType"
+): string[] =>
+  Array.from(
+    new Set(records.map((record) => record[field]).filter(Boolean))
+  ).sort(field === "financialYear" ? compareFiscalPeriods : undefined);
@@ -0,0 +1,343 @@
+import { parseFiscalYear } from "./fiscalPeriods";
+import type { PMMSYRawRecord } from "./pmmsyRecords";
+
+export type DataQualityIssueKind =
+  | "missing"
+  | "type"
+  | "unitCost"
+  | "duplicate";
+export type DataQualitySeverity = "error" | "warning";
+
+export interface DataQualityIssue {
+  // 1-based position of the record in the dataset
+  row: number;
+  recordId: string;
+  state: string;
+  district: string;
+  field: string;
+  kind: DataQualityIssueKind;
+  severity: DataQualitySeverity;
+  message: string;
+}
+
+// Measures whose coverage decides how far an area's figures can be trusted
+export type DataQualityMeasure = "totalCost" | "output" | "employment";
+
+export interface AreaDataQuality {
+  name: string;
+  level: "state" | "district";
+  totalRecords: number;
+  // Records without any error-level issue
+  validRecords: number;
+  errors: number;
+  warnings: number;
+  issuesByKind: Record<DataQualityIssueKind, number>;
+  // Share of records (0-1) that report each measure
+  completeness: Record<DataQualityMeasure, number>;
+  issues: DataQualityIssue[];
+}
+
+export interface StateDataQuality extends AreaDataQuality {
+  districts: AreaDataQuality[];
+}
+
+interface FieldRule {
+  column: string;
+  type: "string" | "number";
+  required: boolean;
+}
+
+const TOTAL_COST_COLUMN =
+  "SUM_OF_TOTAL_COST_(CENTRAL_SHARE+_STATE_SHARE+_BENEFICIARY_CONTRIBUTION)";
+
+// Record schema: required identification fields plus typed measure columns
+const fieldRules: FieldRule[] = [
+  { column: "UNIQUE_ID", type: "string", required: true },
+  { column: "NAME_OF_THE_STATE/UT", type: "string", required: true },
+  {
+    column: "FISHERIES_SECTOR_OF_THE_STATE/UT",
+    type: "string",
+    required: true,
+  },
+  { column: "FINANCIAL_YEAR", type: "string", required: true },
+  { column: "NAME_OF_THE_ACTIVITY", type: "string", required: true },
+  { column: "NAME_OF_THE_SUB-ACTIVITY", type: "string", required: true },
+  { column: "PMMSY_UNIT_COST", type: "number", required: true },
+  { column: "TYPE_OF_BENEFICIARY", type: "string", required: true },
+  { column: "BENEFICIARY_DISTRICT", type: "string", required: true },
+  { column: "PIN_CODE", type: "number", required: true },
+  { column: TOTAL_COST_COLUMN, type: "number", required: false },
+  {
+    column: "SUM_OF_ADDITIONAL_STATE_SHARE_RELEASED_(IN_RS.)",
+    type: "number",
+    required: false,
+  },
+  { column: "TOTAL_OUTPUT", type: "number", required: false },
+  {
+    column: "TOTAL_EMPLOYMENT_GENERATED_(WOMEN)",
+    type: "number",
+    required: false,
+  },
+  {
+    column: "TOTAL_EMPLOYMENT_GENERATED_(MEN)",
+    type: "number",
+    required: false,
+  },
+  {
+    column: "DIRECT_EMPLOYMENT_GENERATED_(WOMEN)",
+    type: "number",
+    required: false,
+  },
+  {
+    column: "DIRECT_EMPLOYMENT_GENERATED_(MEN)",
+    type: "number",
+    required: false,
+  },
+  {
+    column: "INDIRECT_EMPLOYMENT_GENERATED_(WOMEN)",
+    type: "number",
+    required: false,
+  },
+  {
+    column: "INDIRECT_EMPLOYMENT_GENERATED_(MEN)",
+    type: "number",
+    required: false,
+  },
+];
+
+const isBlank = (value: unknown): boolean =>
+  value === undefined || value === null || String(value).trim() === "";
+
+const isNumericText = (value: string): boolean =>
+  value.trim() !== "" && Number.isFinite(Number(value.replace(/,/g, "")));
+
+const numberOrNull = (value: unknown): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string" && isNumericText(value)) {
+    return Number(value.replace(/,/g, ""));
+  }
+  return null;
+};
+
+export const validatePMMSYRecords = (
+  records: PMMSYRawRecord[]
+): DataQualityIssue[] => {
+  const issues: DataQualityIssue[] = [];
+  const idCounts = new Map<string, number>();
+  records.forEach((record) => {
+    const id = String(record.UNIQUE_ID ?? "").trim();
+    if (id) idCounts.set(id, (idCounts.get(id) || 0) + 1);
+  });
+
+  records.forEach((record, index) => {
+    const recordId =
+      String(record.UNIQUE_ID ?? "").trim() || `row ${index + 1}`;
+    const base = {
+      row: index + 1,
+      recordId,
+      state: String(record["NAME_OF_THE_STATE/UT"] ?? "").trim(),
+      district: String(record.BENEFICIARY_DISTRICT ?? "").trim(),
+    };
+    const report = (
+      field: string,
+      kind: DataQualityIssueKind,
+      severity: DataQualitySeverity,
+      message: string
+    ) => issues.push({ ...base, field, kind, severity, message });
+
+    fieldRules.forEach(({ column, type, required }) => {
+      const value = record[column];
+      if (isBlank(value)) {
+        if (required) {
+          report(column, "missing", "error", `${column} is missing`);
+        }
+        return;
+      }
+      if (type !== "number" || typeof value === "number") return;
+      if (isNumericText(String(value))) {
+        report(
+          column,
+          "type",
+          "warning",
+          `${column} is stored as text ("${value}")`
+        );
+      } else {
+        report(
+          column,
+          "type",
+          "error",
+          `${column} is not a number ("${value}")`
+        );
+      }
+    });
+
+    if (
+      !isBlank(record.FINANCIAL_YEAR) &&
+      !parseFiscalYear(record.FINANCIAL_YEAR)
+    ) {
+      report(
+        "FINANCIAL_YEAR",
+        "type",
+        "error",
+        `FINANCIAL_YEAR is not a financial year ("${record.FINANCIAL_YEAR}")`
+      );
+    }
+
+    const unitCost = numberOrNull(record.PMMSY_UNIT_COST);
+    const totalCost = numberOrNull(record[TOTAL_COST_COLUMN]);
+    if (unitCost !== null && unitCost <= 0) {
+      report(
+        "PMMSY_UNIT_COST",
+        "unitCost",
+        "error",
+        "Unit cost is not positive"
+      );
+    }
+    if (totalCost !== null && totalCost < 0) {
+      report(TOTAL_COST_COLUMN, "unitCost", "error", "Total cost is negative");
+    }
+    if (unitCost !== null && unitCost > 0 && totalCost !== null) {
+      if (totalCost > unitCost) {
+        report(
+          TOTAL_COST_COLUMN,
+          "unitCost",
+          "warning",
+          `Total cost ${totalCost.toLocaleString()} exceeds the unit cost ${unitCost.toLocaleString()}`
+        );
+      }
+    }
+
+    if ((idCounts.get(recordId) || 0) > 1) {
+      report(
+        "UNIQUE_ID",
+        "duplicate",
+        "error",
+        `UNIQUE_ID ${recordId} appears ${idCounts.get(recordId)} times`
+      );
+    }
+  });
+
+  return issues;
+};
+
+const hasMeasure = (
+  record: PMMSYRawRecord,
+  measure: DataQualityMeasure
+): boolean => {
+  if (measure === "totalCost")
+    return numberOrNull(record[TOTAL_COST_COLUMN]) !== null;
+  if (measure === "output") return numberOrNull(record.TOTAL_OUTPUT) !== null;
+  return (
+    numberOrNull(record["TOTAL_EMPLOYMENT_GENERATED_(WOMEN)"]) !== null ||
+    numberOrNull(record["TOTAL_EMPLOYMENT_GENERATED_(MEN)"]) !== null
+  );
+};
+
+const summarizeArea = (
+  name: string,
+  level: "state" | "district",
+  records: PMMSYRawRecord[],
+  issues: DataQualityIssue[]
+): AreaDataQuality => {
+  const issuesByKind: Record<DataQualityIssueKind, number> = {
+    missing: 0,
+    type: 0,
+    unitCost: 0,
+    duplicate: 0,
+  };
+  const recordsWithErrors = new Set<number>();
+  let errors = 0;
+  issues.forEach((issue) => {
+    issuesByKind[issue.kind]++;
+    if (issue.severity === "error") {
+      errors++;
+      recordsWithErrors.add(issue.row);
+    }
+  });
+
+  const share = (measure: DataQualityMeasure) =>
+    records.length > 0
+      ? records.filter((record) => hasMeasure(record, measure)).length /
+        records.length
+      : 0;
+
+  return {
+    name,
+    level,
+    totalRecords: records.length,
+    validRecords: Math.max(records.length - recordsWithErrors.size, 0),
+    errors,
+    warnings: issues.length - errors,
+    issuesByKind,
+    completeness: {
+      totalCost: share("totalCost"),
+      output: share("output"),
+      employment: share("employment"),
+    },
+    issues,
+  };
+};
+
+// Group records and their issues by state and district
+export const summarizeDataQuality = (
+  records: PMMSYRawRecord[],
+  issues: DataQualityIssue[]
+): StateDataQuality[] => {
+  const UNKNOWN = "Unknown";
+  const areaName = (value: unknown) => String(value ?? "").trim() || UNKNOWN;
+
+  const recordsByState = new Map<string, Map<string, PMMSYRawRecord[]>>();
+  records.forEach((record) => {
+    const state = areaName(record["NAME_OF_THE_STATE/UT"]);
+    const district = areaName(record.BENEFICIARY_DISTRICT);
+    let districts = recordsByState.get(state);
+    if (!districts) {
+      districts = new Map();
+      recordsByState.set(state, districts);
+    }
+    const districtRecords = districts.get(district);
+    if (districtRecords) districtRecords.push(record);
+    else districts.set(district, [record]);
+  });
+
+  const issuesByState = new Map<string, DataQualityIssue[]>();
+  issues.forEach((issue) => {
+    const state = issue.state || UNKNOWN;
+    const stateIssues = issuesByState.get(state);
+    if (stateIssues) stateIssues.push(issue);
+    else issuesByState.set(state, [issue]);
+  });
+
+  return Array.from(recordsByState.entries())
+    .map(([state, districts]) => {
+      const stateIssues = issuesByState.get(state) || [];
+      const issuesByDistrict = new Map<string, DataQualityIssue[]>();
+      stateIssues.forEach((issue) => {
+        const district = issue.district || UNKNOWN;
+        const districtIssues = issuesByDistrict.get(district);
+        if (districtIssues) districtIssues.push(issue);
+        else issuesByDistrict.set(district, [issue]);
+      });
+      const districtSummaries = Array.from(districts.entries())
+        .map(([district, districtRecords]) =>
+          summarizeArea(
+            district,
+            "district",
+            districtRecords,
+            issuesByDistrict.get(district) || []
+          )
+        )
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+      return {
+        ...summarizeArea(
+          state,
+          "state",
+          Array.from(districts.values()).flat(),
+          stateIssues
+        ),
+        districts: districtSummaries,
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
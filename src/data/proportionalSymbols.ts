@@ -0,0 +1,27 @@
+// Proportional circles drawn at area centres. A circle's area, not its
+// radius, follows the value, so a district with four times the value gets a
+// circle twice as wide.
+
+// Radius in pixels of the circle for the largest value on the map
+export const MAX_SYMBOL_RADIUS = 28;
+
+export const symbolRadius = (value: number, maxValue: number): number =>
+  value > 0 && maxValue > 0
+    ? MAX_SYMBOL_RADIUS * Math.sqrt(Math.min(value / maxValue, 1))
+    : 0;
+
+// Largest value of the form 1, 2 or 5 x 10^n not above the value
+const roundDown = (value: number): number => {
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [5, 2, 1].find((n) => n * magnitude <= value) || 1;
+  return step * magnitude;
+};
+
+// Round values for the legend circles, largest first; counts and other
+// whole-number maps get no fractional circles
+export const symbolLegendValues = (maxValue: number): number[] => {
+  if (!(maxValue > 0)) return [];
+  return Array.from(
+    new Set([maxValue, maxValue / 4, maxValue / 16].map(roundDown))
+  ).filter((value, idx) => idx === 0 || maxValue < 1 || value >= 1);
+};
@@ -0,0 +1,34 @@
+import { stateBoundarySources, villageBoundarySet } from "../stateBoundaries";
+
+// Static files backing each dataset, relative to the provider's base URL.
+// The REST stand-in serves the same files.
+export const boundaryFiles: Record<string, string> = {
+  india: "indianmap.geojson",
+  // PIN code areas, shown when zoomed in on the sub-district view
+  pincodes: "pincodes.geojson",
+  ...Object.fromEntries(
+    stateBoundarySources.map((source) => [source.set, source.file])
+  ),
+  ...Object.fromEntries(
+    stateBoundarySources.flatMap((source) =>
+      source.villageFile
+        ? [[villageBoundarySet(source), source.villageFile]]
+        : []
+    )
+  ),
+};
+
+export const pmmsyRecordsFile = "pmmsyData.json";
+
+export const schemeMetricsFile = "schemeMetrics.json";
+
+export const pinCodeDirectoryFile = "pinCodes.json";
+
+export const fetchJson = async <T>(
+  url: string,
+  init?: RequestInit
+): Promise<T> => {
+  const res = await fetch(url, init);
+  if (!res.ok) throw new Error(`Failed to fetch ${url} (${res.status})`);
+  return res.json();
+};
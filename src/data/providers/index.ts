@@ -0,0 +1,31 @@
+import { createMockDataProvider } from "./mockProvider";
+import { createRestDataProvider } from "./restProvider";
+import { createStaticJsonDataProvider } from "./staticJsonProvider";
+import type { DataProvider, DataProviderId } from "./types";
+
+export type { DataProvider, DataProviderId } from "./types";
+
+export const createDataProvider = (id: DataProviderId): DataProvider => {
+  switch (id) {
+    case "static":
+      return createStaticJsonDataProvider(import.meta.env.VITE_DATA_BASE_URL);
+    case "rest":
+      return createRestDataProvider(import.meta.env.VITE_API_BASE_URL);
+    case "mock":
+      return createMockDataProvider(import.meta.env.VITE_DATA_BASE_URL);
+    default:
+      throw new Error(`Unknown data provider "${id}"`);
+  }
+};
+
+let activeProvider: DataProvider | null = null;
+
+// Provider selected by VITE_DATA_PROVIDER, "mock" when unset
+export const getDataProvider = (): DataProvider => {
+  if (!activeProvider) {
+    activeProvider = createDataProvider(
+      import.meta.env.VITE_DATA_PROVIDER || "mock"
+    );
+  }
+  return activeProvider;
+};
@@ -0,0 +1,145 @@
+import type { GeoJSONFeature, MetricValues } from "../../App";
+import { childFiscalPeriods, reportingFiscalYears } from "../fiscalPeriods";
+import { addMeasures } from "../metricCube";
+import type { SchemeMetricFact } from "../schemeMetrics";
+import { createStaticJsonDataProvider } from "./staticJsonProvider";
+import type { DataProvider } from "./types";
+
+export function hashString(str: string): number {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    const char = str.charCodeAt(i);
+    hash = (hash << 5) - hash + char;
+    hash = hash & hash;
+  }
+  return Math.abs(hash);
+}
+
+export class SeededPRNG {
+  private seed: number;
+  constructor(seed: number) {
+    this.seed = seed % 2147483647;
+    if (this.seed <= 0) this.seed += 2147483646;
+  }
+  next(): number {
+    this.seed = (this.seed * 16807) % 2147483647;
+    return (this.seed - 1) / 2147483646;
+  }
+}
+
+// Generate mock facts for the schemes other than PMMSY, one per area,
+// scheme, gender and financial quarter
+export const generateMockSchemeMetrics = (
+  areas: GeoJSONFeature[]
+): SchemeMetricFact[] => {
+  const facts: SchemeMetricFact[] = [];
+  const schemes: SchemeMetricFact["scheme"][] = ["PMMKSS", "KCC", "NFDP"];
+  const genders: SchemeMetricFact["gender"][] = [
+    "male",
+    "female",
+    "transgender",
+  ];
+
+  const schemeModifiers: Record<SchemeMetricFact["scheme"], number> = {
+    PMMKSS: 0.9,
+    KCC: 0.85,
+    NFDP: 0.95,
+  };
+  const genderModifiers: Record<SchemeMetricFact["gender"], number> = {
+    male: 1.2,
+    female: 0.9,
+    transgender: 0.8,
+  };
+  // Steady growth over the reporting years
+  const yearModifier = (yearIndex: number) => 0.8 + yearIndex * 0.1;
+  // Facts are split across schemes and genders, so an area's totals over
+  // all of them stay on the scale each period had before facts were leaves
+  const leafScale = 1 / (schemes.length * genders.length);
+
+  areas.forEach((area) => {
+    const areaId = area.properties.shapeID;
+    const prng = new SeededPRNG(hashString(areaId));
+    const regionalBias =
+      area.properties.level === "state"
+        ? 1.0 + prng.next() * 0.1
+        : 0.9 + prng.next() * 0.2;
+
+    schemes.forEach((scheme) => {
+      genders.forEach((gender) => {
+        reportingFiscalYears.forEach((year, yearIndex) => {
+          const schemeMod = schemeModifiers[scheme];
+          const genderMod = genderModifiers[gender];
+          const yearMod = yearModifier(yearIndex);
+          const weight =
+            schemeMod * genderMod * yearMod * regionalBias * leafScale;
+
+          const beneficiaries = Math.floor(
+            weight * (500 + prng.next() * 4500)
+          );
+          const funds = Math.floor(
+            weight * (1000000 + prng.next() * 9000000)
+          );
+          const registrations = Math.floor(
+            weight * (2000 + prng.next() * 8000)
+          );
+
+          const funds_used = Math.floor(funds * (0.6 + prng.next() * 0.35));
+          const beneficiaries_last_24h = Math.floor(
+            beneficiaries * (0.01 + prng.next() * 0.05)
+          );
+          const registrations_last_24h = Math.floor(
+            registrations * (0.005 + prng.next() * 0.02)
+          );
+
+          const yearValues: MetricValues = {
+            beneficiaries,
+            funds,
+            registrations,
+            funds_used,
+            beneficiaries_last_24h,
+            registrations_last_24h,
+          };
+
+          // Split the year across its quarters; the last quarter takes the
+          // remainder so the quarters add up exactly
+          const quarters = childFiscalPeriods(year, [], "quarter");
+          const shares = quarters.map(() => 0.8 + prng.next() * 0.4);
+          const shareTotal = shares.reduce((sum, share) => sum + share, 0);
+          const assigned: MetricValues = {};
+          quarters.forEach((quarter, index) => {
+            const measures: MetricValues = {};
+            (Object.keys(yearValues) as (keyof MetricValues)[]).forEach(
+              (metric) => {
+                const value = yearValues[metric] || 0;
+                measures[metric] =
+                  index === quarters.length - 1
+                    ? value - (assigned[metric] || 0)
+                    : Math.floor((value * shares[index]) / shareTotal);
+              }
+            );
+            addMeasures(assigned, measures);
+            facts.push({
+              area: areaId,
+              scheme,
+              gender,
+              period: quarter,
+              measures,
+            });
+          });
+        });
+      });
+    });
+  });
+  return facts;
+};
+
+// Seeded mock data for the non-PMMSY schemes; boundaries and PMMSY records
+// still come from the bundled static files
+export const createMockDataProvider = (baseUrl = ""): DataProvider => {
+  const staticProvider = createStaticJsonDataProvider(baseUrl);
+  return {
+    ...staticProvider,
+    id: "mock",
+    getSchemeMetrics: async (areas) => generateMockSchemeMetrics(areas),
+  };
+};
@@ -0,0 +1,33 @@
+import type { GeoJSONData } from "../../App";
+import type { PinCodeEntry } from "../pinCodes";
+import type { PMMSYRawRecord } from "../pmmsyRecords";
+import { normalizeSchemeFactPeriods } from "../schemeMetrics";
+import type { SchemeMetricFact } from "../schemeMetrics";
+import { fetchJson } from "./datasets";
+import type { DataProvider } from "./types";
+
+// Talks to the dashboard REST API. In development the Vite stand-in in
+// server/standInApi.ts answers these routes.
+export const createRestDataProvider = (apiUrl = "/api"): DataProvider => ({
+  id: "rest",
+  getBoundaries: (set) =>
+    fetchJson<GeoJSONData>(`${apiUrl}/boundaries/${encodeURIComponent(set)}`),
+  getPMMSYRecords: () =>
+    fetchJson<PMMSYRawRecord[]>(`${apiUrl}/pmmsy/records`),
+  getSchemeMetrics: (areas) =>
+    fetchJson<SchemeMetricFact[]>(`${apiUrl}/schemes/metrics`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      // Only the identifying properties are needed, not the geometry
+      body: JSON.stringify({
+        areas: areas.map((area) => ({
+          properties: {
+            shapeID: area.properties.shapeID,
+            shapeName: area.properties.shapeName,
+            level: area.properties.level,
+          },
+        })),
+      }),
+    }).then(normalizeSchemeFactPeriods),
+  getPinCodeDirectory: () => fetchJson<PinCodeEntry[]>(`${apiUrl}/pin-codes`),
+});
@@ -0,0 +1,40 @@
+import type { GeoJSONData } from "../../App";
+import type { PinCodeEntry } from "../pinCodes";
+import type { PMMSYRawRecord } from "../pmmsyRecords";
+import { normalizeSchemeFactPeriods } from "../schemeMetrics";
+import type { SchemeMetricFact } from "../schemeMetrics";
+import {
+  boundaryFiles,
+  fetchJson,
+  pinCodeDirectoryFile,
+  pmmsyRecordsFile,
+  schemeMetricsFile,
+} from "./datasets";
+import type { DataProvider } from "./types";
+
+// Reads every dataset from JSON files under baseUrl (the public folder by
+// default)
+export const createStaticJsonDataProvider = (
+  baseUrl = ""
+): DataProvider => {
+  const fileUrl = (file: string) => `${baseUrl}/${file}`;
+
+  return {
+    id: "static",
+    getBoundaries: (set) => {
+      const file = boundaryFiles[set];
+      if (!file) {
+        return Promise.reject(new Error(`Unknown boundary set "${set}"`));
+      }
+      return fetchJson<GeoJSONData>(fileUrl(file));
+    },
+    getPMMSYRecords: () =>
+      fetchJson<PMMSYRawRecord[]>(fileUrl(pmmsyRecordsFile)),
+    getSchemeMetrics: () =>
+      fetchJson<SchemeMetricFact[]>(fileUrl(schemeMetricsFile)).then(
+        normalizeSchemeFactPeriods
+      ),
+    getPinCodeDirectory: () =>
+      fetchJson<PinCodeEntry[]>(fileUrl(pinCodeDirectoryFile)),
+  };
+};
@@ -0,0 +1,20 @@
+import type { GeoJSONData, GeoJSONFeature } from "../../App";
+import type { PinCodeEntry } from "../pinCodes";
+import type { PMMSYRawRecord } from "../pmmsyRecords";
+import type { SchemeMetricFact } from "../schemeMetrics";
+
+export type DataProviderId = "mock" | "static" | "rest";
+
+// Source of every dataset the dashboard loads. Implementations are
+// interchangeable, so new datasets are added here rather than in App.tsx.
+export interface DataProvider {
+  id: DataProviderId;
+  // Boundary set by name, "india" or a state's set from stateBoundaries.ts
+  // (see boundaryFiles)
+  getBoundaries: (set: string) => Promise<GeoJSONData>;
+  getPMMSYRecords: () => Promise<PMMSYRawRecord[]>;
+  // Leaf metric facts for the non-PMMSY schemes (see schemeMetrics.ts)
+  getSchemeMetrics: (areas: GeoJSONFeature[]) => Promise<SchemeMetricFact[]>;
+  // Offline PIN code -> district/sub-district lookup (see pinCodes.ts)
+  getPinCodeDirectory: () => Promise<PinCodeEntry[]>;
+}
@@ -0,0 +1,67 @@
+import type { MapViewLevel, MetricValues } from "../App";
+import { addMeasures } from "./metricCube";
+
+// Custom regions: areas of one map level picked by drawing a shape or
+// shift-clicking, summed as if they were one area and saved by name.
+
+// A drawn shape replaces the selection; a shift-click adds or removes one
+// area
+export type AreaSelectionMode = "replace" | "toggle";
+
+export interface SavedRegion {
+  name: string;
+  level: MapViewLevel;
+  areaIds: string[];
+}
+
+export const applyAreaSelection = (
+  current: string[],
+  areaIds: string[],
+  mode: AreaSelectionMode
+): string[] => {
+  if (mode === "replace") return Array.from(new Set(areaIds));
+  const selected = new Set(current);
+  areaIds.forEach((id) => {
+    if (selected.has(id)) selected.delete(id);
+    else selected.add(id);
+  });
+  return Array.from(selected);
+};
+
+// Totals over the region's areas; areas without data add nothing
+export const regionMetrics = (
+  areaIds: string[],
+  areaMetrics: Record<string, MetricValues> | null
+): MetricValues => {
+  const totals: MetricValues = {};
+  areaIds.forEach((id) => {
+    const measures = areaMetrics?.[id];
+    if (measures) addMeasures(totals, measures);
+  });
+  return totals;
+};
+
+const regionsStorageKey = "fisheryDashboard.regions";
+
+// Saved regions are kept in the browser
+export const loadSavedRegions = (): SavedRegion[] => {
+  try {
+    const saved = localStorage.getItem(regionsStorageKey);
+    return saved ? (JSON.parse(saved) as SavedRegion[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveRegions = (regions: SavedRegion[]) => {
+  localStorage.setItem(regionsStorageKey, JSON.stringify(regions));
+};
+
+// Saving under an existing name replaces that region
+export const upsertRegion = (
+  regions: SavedRegion[],
+  region: SavedRegion
+): SavedRegion[] => [
+  ...regions.filter((saved) => saved.name !== region.name),
+  region,
+];
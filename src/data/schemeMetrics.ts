@@ -0,0 +1,59 @@
+import type { GenderKey, MetricValues, SchemeKey } from "../App";
+import {
+  fiscalPeriodMembers,
+  parseFiscalPeriodKey,
+  parseFiscalYear,
+} from "./fiscalPeriods";
+import type { FiscalPeriodKey } from "./fiscalPeriods";
+import { createMetricCube } from "./metricCube";
+import type { MetricCube } from "./metricCube";
+
+// Metrics of one non-PMMSY scheme for one area, gender and period. Facts are
+// leaves: no "all" scheme or gender, and periods of a single granularity
+// that do not overlap. Totals are rolled up by the cube.
+export interface SchemeMetricFact {
+  // shapeID of the area
+  area: string;
+  scheme: Exclude<SchemeKey, "all" | "PMMSY">;
+  gender: Exclude<GenderKey, "all">;
+  period: FiscalPeriodKey;
+  measures: MetricValues;
+}
+
+export const schemeDimensions = [
+  "area",
+  "scheme",
+  "gender",
+  "fiscalYear",
+  "quarter",
+  "month",
+] as const;
+
+export type SchemeDimension = (typeof schemeDimensions)[number];
+export type SchemeCube = MetricCube<SchemeDimension>;
+
+export const createSchemeCube = (facts: SchemeMetricFact[]): SchemeCube =>
+  createMetricCube(
+    schemeDimensions,
+    facts.map((fact) => ({
+      members: {
+        area: fact.area,
+        scheme: fact.scheme,
+        gender: fact.gender,
+        ...fiscalPeriodMembers(fact.period),
+      },
+      measures: fact.measures,
+    }))
+  );
+
+// Files and APIs may name the year the way source sheets do ("2020-21",
+// "FY21"), so rewrite periods to fiscal period keys; anything unrecognised
+// is kept as is.
+export const normalizeSchemeFactPeriods = (
+  facts: SchemeMetricFact[]
+): SchemeMetricFact[] =>
+  facts.map((fact) =>
+    parseFiscalPeriodKey(fact.period)
+      ? fact
+      : { ...fact, period: parseFiscalYear(fact.period) || fact.period }
+  );
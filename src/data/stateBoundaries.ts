@@ -0,0 +1,160 @@
+import type { GeoJSONData, GeoJSONFeature } from "../App";
+
+// Detailed district boundaries for a state, opened when the state is drilled
+// into. States without an entry use the districts of the India map.
+export interface StateBoundarySource {
+  // State name as on the India map (shapeName)
+  state: string;
+  // Boundary set passed to DataProvider.getBoundaries
+  set: string;
+  file: string;
+  // Initial view (longitude, latitude) before the map fits the districts
+  center: [number, number];
+  zoom: number;
+  // Properties holding the district name and code; the first one present is
+  // used
+  nameProperties: string[];
+  codeProperties: string[];
+  // Village boundaries, fetched when a taluk of the state is drilled into or
+  // the village view is opened
+  villageFile?: string;
+}
+
+// Property names seen in district boundary files
+const defaultNameProperties = [
+  "Dist_Name",
+  "district",
+  "District",
+  "DISTRICT",
+  "dtname",
+];
+const defaultCodeProperties = ["Dist_Code", "dt_code", "censuscode"];
+
+// Property names seen in village boundary files
+const villageNameProperties = ["VILLAGE", "village", "Village", "NAME"];
+const villageSubDistrictProperties = ["SUB_DIST", "subdistrict", "sdtname"];
+const villageDistrictProperties = ["DISTRICT", "district", "dtname"];
+const villageCodeProperties = [
+  "pc11_village_id",
+  "censuscode2011",
+  "vill_code",
+];
+
+export const stateBoundarySources: StateBoundarySource[] = [
+  {
+    state: "Bihar",
+    set: "bihar",
+    file: "bihar1.geojson",
+    center: [85.5, 25.5],
+    zoom: 7,
+    nameProperties: defaultNameProperties,
+    codeProperties: defaultCodeProperties,
+    villageFile: "bihar_villages.geojson",
+  },
+  {
+    state: "Goa",
+    set: "goa",
+    file: "goa.geojson",
+    center: [74.0, 15.35],
+    zoom: 9,
+    nameProperties: defaultNameProperties,
+    codeProperties: defaultCodeProperties,
+    villageFile: "goa_villages.geojson",
+  },
+  {
+    state: "Arunachal Pradesh",
+    set: "arunachal-pradesh",
+    file: "arunachal_pradesh.geojson",
+    center: [94.5, 28.0],
+    zoom: 7,
+    nameProperties: defaultNameProperties,
+    codeProperties: defaultCodeProperties,
+    villageFile: "arunachal_pradesh_villages.geojson",
+  },
+];
+
+export const stateBoundarySource = (
+  state: string
+): StateBoundarySource | undefined =>
+  stateBoundarySources.find((source) => source.state === state);
+
+// Boundary set of a state's villages (see boundaryFiles)
+export const villageBoundarySet = (source: StateBoundarySource): string =>
+  `${source.set}-villages`;
+
+export const firstProperty = (
+  properties: Record<string, unknown>,
+  names: string[]
+): string | undefined => {
+  const name = names.find(
+    (candidate) =>
+      properties[candidate] !== undefined && properties[candidate] !== null
+  );
+  return name === undefined ? undefined : String(properties[name]);
+};
+
+// Turn a state's boundary file into district features of the India map's
+// shape. IDs are prefixed with the boundary set so they never clash with
+// India map IDs.
+export const normalizeStateDistricts = (
+  source: StateBoundarySource,
+  data: GeoJSONData
+): GeoJSONFeature[] =>
+  data.features
+    .filter((f) => {
+      const type = f.geometry.type;
+      return type === "Polygon" || type === "MultiPolygon";
+    })
+    .map((f, idx) => {
+      const properties = f.properties as unknown as Record<string, unknown>;
+      const name =
+        firstProperty(properties, source.nameProperties) ||
+        `District ${idx + 1}`;
+      const code = firstProperty(properties, source.codeProperties);
+      return {
+        ...f,
+        properties: {
+          ...f.properties,
+          shapeID: `${source.set}_${code ?? idx}`,
+          shapeName: name,
+          st_nm: source.state,
+          district_name: name,
+          level: "district",
+        },
+      };
+    });
+
+// Turn a state's village boundary file into village features. The taluk
+// (sub-district) and district names join villages to their parents.
+export const normalizeStateVillages = (
+  source: StateBoundarySource,
+  data: GeoJSONData
+): GeoJSONFeature[] =>
+  data.features
+    .filter((f) => {
+      const type = f.geometry.type;
+      return type === "Polygon" || type === "MultiPolygon";
+    })
+    .map((f, idx) => {
+      const properties = f.properties as unknown as Record<string, unknown>;
+      const name =
+        firstProperty(properties, villageNameProperties) ||
+        `Village ${idx + 1}`;
+      const code = firstProperty(properties, villageCodeProperties);
+      return {
+        ...f,
+        properties: {
+          ...f.properties,
+          shapeID: `${villageBoundarySet(source)}_${code ?? idx}`,
+          shapeName: name,
+          st_nm: source.state,
+          district_name: firstProperty(properties, villageDistrictProperties),
+          subdistrict_name: firstProperty(
+            properties,
+            villageSubDistrictProperties
+          ),
+          village_name: name,
+          level: "village",
+        },
+      };
+    });
@@ -1 +1,18 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DATA_PROVIDER?: "mock" | "static" | "rest";
+  // Base URL of the static JSON files (mock and static providers)
+  readonly VITE_DATA_BASE_URL?: string;
+  // Base URL of the REST API (rest provider)
+  readonly VITE_API_BASE_URL?: string;
+  // Basemap tiles: an XYZ URL template ({z}/{x}/{y}); the dev server's
+  // stand-in tiles when unset, and no basemap outside development
+  readonly VITE_BASEMAP_OSM_URL?: string;
+  readonly VITE_BASEMAP_TERRAIN_URL?: string;
+  readonly VITE_BASEMAP_SATELLITE_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -1,8 +1,21 @@
 // vite.config.ts
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv } from "vite";
+import { standInApi } from "./server/standInApi";
 
-export default defineConfig(() => {
+export default defineConfig(({ mode }) => {
+  // BASEMAP_<NAME>_MBTILES: MBTiles file the stand-in serves as a basemap's
+  // tiles in development
+  const env = loadEnv(mode, process.cwd(), "BASEMAP_");
   return {
+    plugins: [
+      standInApi({
+        tileFiles: {
+          osm: env.BASEMAP_OSM_MBTILES,
+          terrain: env.BASEMAP_TERRAIN_MBTILES,
+          satellite: env.BASEMAP_SATELLITE_MBTILES,
+        },
+      }),
+    ],
     server: {
       // https: {
       //   key: fs.readFileSync("key.pem"),